@@ -1,4 +1,3 @@
-import { AddMovieModal } from './components/AddMovieModal';
 import { FilterSidebar } from './components/FilterSidebar';
 import { DarkModeToggle } from './components/DarkModeToggle';
 import { LoginModal } from './components/LoginModal';
@@ -7,32 +6,26 @@ import { BrowserRouter as Router, Routes, Route, useNavigate, useSearchParams }
 import { MovieDetailPage } from './pages/MovieDetailPage';
 import { ProfilePage } from './pages/ProfilePage';
 import { ResetPasswordPage } from './pages/ResetPasswordPage';
+import { UserPage } from './pages/UserPage';
 const logoImage = 'https://i.imgur.com/vUiVqow.png?direct';
 import { useState, useEffect, useMemo } from 'react';
-import { Search, Plus, X, Filter, Star } from 'lucide-react';
+import { Search, Plus, X, Filter, Star, User } from 'lucide-react';
 import { Button } from './components/ui/button';
 import { Input } from './components/ui/input';
-import { MovieCard, type Movie } from './components/MovieCard';
+import { MovieCard, type Movie, type NewMovie } from './components/MovieCard';
 import { RecentMoviesCarousel } from './components/RecentMoviesCarousel';
 import { SortDropdown } from './components/SortDropdown';
 import { AddMovieDialog } from './components/AddMovieDialog';
+import { ImportMoviesDialog } from './components/ImportMoviesDialog';
 import { PaginationControls } from './components/PaginationControls';
 import { FaviconSetter } from './components/FaviconSetter';
 import { ImageWithFallback } from './components/figma/ImageWithFallback';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
-import { createSlug } from './utils/slugify';
-
-type SortOption = 'dateAdded' | 'dateAddedLatest' | 'title' | 'year' | 'imdbRating' | 'userRating' | 'communityRating';
-
-interface Comment {
-  id: string;
-  movieId: number;
-  username: string;
-  text: string;
-  timestamp: number;
-}
-
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-ea58c774`;
+import { movieSlug } from './utils/slugify';
+import { clearSession, getSessionToken, saveSession } from './utils/session';
+import { api, ApiError, type Comment, type MovieSort } from './utils/api';
+import { canCurate, isAdmin } from './utils/permissions';
+import { fetchMoviePage, type MovieFacets } from './utils/movieQuery';
+import { useIsMobile } from './components/ui/use-mobile';
 
 // Generate or retrieve anonymous user ID for non-logged-in users
 const getAnonymousUserId = () => {
@@ -52,7 +45,7 @@ export default function App() {
     return saved ? JSON.parse(saved) : false;
   });
 
-  // Load user from localStorage on mount
+  // Load user from localStorage on mount, then confirm the session is still valid
   useEffect(() => {
     const stored = localStorage.getItem('currentUser');
     if (stored) {
@@ -62,6 +55,32 @@ export default function App() {
         console.error('Error parsing currentUser:', error);
       }
     }
+    
+    if (!stored) return;
+    
+    // Users stored before session tokens existed have to sign in again
+    if (!getSessionToken()) {
+      clearSession();
+      setCurrentUser(null);
+      return;
+    }
+    
+    const verifySession = async () => {
+      try {
+        const data = await api('GET /auth/session');
+        saveSession(data.user);
+        setCurrentUser(data.user);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401) {
+          clearSession();
+          setCurrentUser(null);
+          return;
+        }
+        // Keep the stored user if the server is unreachable
+        console.error('Error verifying session:', error);
+      }
+    };
+    verifySession();
   }, []);
 
   return (
@@ -72,6 +91,7 @@ export default function App() {
         <Route path="/movie/:title" element={<MovieDetailPage currentUser={currentUser} setCurrentUser={setCurrentUser} />} />
         <Route path="/profile" element={<ProfilePage isDarkMode={isDarkMode} setIsDarkMode={setIsDarkMode} currentUser={currentUser} setCurrentUser={setCurrentUser} />} />
         <Route path="/reset-password" element={<ResetPasswordPage isDarkMode={isDarkMode} />} />
+        <Route path="/user/:username" element={<UserPage isDarkMode={isDarkMode} />} />
       </Routes>
     </Router>
   );
@@ -82,7 +102,8 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
   const [searchParams] = useSearchParams();
   const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
   const [selectedYears, setSelectedYears] = useState<number[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
+  // ?search=<text> opens the list searched for it, as links from comments do
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('search') || "");
   const [movies, setMovies] = useState<Movie[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isMobileFilterOpen, setIsMobileFilterOpen] = useState(false);
@@ -91,10 +112,21 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
   const [toWatchMovies, setToWatchMovies] = useState<Movie[]>([]);
   const [comments, setComments] = useState<Comment[]>([]);
   
+  // The grid holds one page from the server. `movies` and `toWatchMovies` above
+  // are the full lists, which only curators load (for ids and duplicate checks).
+  const [pageMovies, setPageMovies] = useState<Movie[]>([]);
+  const [totalMovies, setTotalMovies] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [facets, setFacets] = useState<MovieFacets | null>(null);
+  const [recentMovies, setRecentMovies] = useState<Movie[]>([]);
+  const [topRatedMovies, setTopRatedMovies] = useState<Movie[]>([]);
+  const [commentMovies, setCommentMovies] = useState<Movie[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  
   // New states for enhanced features
-  const [sortBy, setSortBy] = useState<SortOption>(() => {
+  const [sortBy, setSortBy] = useState<MovieSort>(() => {
     const saved = localStorage.getItem('sortPreference');
-    return (saved as SortOption) || 'dateAdded';
+    return (saved as MovieSort) || 'dateAdded';
   });
   const [imdbRatingRange, setImdbRatingRange] = useState<[number, number]>([0, 10]);
   const [runtimeFilter, setRuntimeFilter] = useState<string>('all');
@@ -102,27 +134,56 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [isTiredModalOpen, setIsTiredModalOpen] = useState(false);
   const [hasShownTiredModal, setHasShownTiredModal] = useState(false);
-  const [isLoadingTrailers, setIsLoadingTrailers] = useState(false);
-  const [trailerLoadProgress, setTrailerLoadProgress] = useState<string>('');
   const [showSearchDropdown, setShowSearchDropdown] = useState(false);
   
   const MOVIES_PER_PAGE_MOBILE = 12;
   const MOVIES_PER_PAGE_DESKTOP = 24;
+  const isMobile = useIsMobile();
+  const moviesPerPage = isMobile ? MOVIES_PER_PAGE_MOBILE : MOVIES_PER_PAGE_DESKTOP;
+  const currentList = currentView === 'towatch' ? 'towatch' : 'movies';
+  // Watchlists are per user; ?owner=<username> shows someone else's shared list
+  const watchlistOwner = currentView === 'towatch' ? searchParams.get('owner') || undefined : undefined;
+  const isOwnWatchlist = currentView === 'towatch' && !!currentUser &&
+    (!watchlistOwner || watchlistOwner.toLowerCase() === currentUser.username?.toLowerCase());
+  // Guests don't have a watchlist, so there is nothing to fetch for them
+  const hasListToShow = currentView !== 'towatch' || !!currentUser;
 
   useEffect(() => {
     document.title = "Trash bin";
-    const loadData = async () => {
-      // Load all data in parallel for faster initial load
-      await Promise.all([
-        loadMovies(),
-        loadToWatchMovies(),
-        loadComments(),
-        loadRatings()
-      ]);
-    };
-    loadData();
+    loadComments();
+    loadRecentMovies();
   }, []);
 
+  // The full lists are only needed to spot duplicates when adding titles:
+  // any signed-in user can add to their own watchlist, curators to the library
+  useEffect(() => {
+    if (!currentUser) return;
+    loadToWatchMovies();
+    if (canCurate(currentUser)) loadMovies();
+  }, [currentUser]);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Fetch the current page whenever the view, filters, sort or page change.
+  // Superseded requests are aborted so a slow response can't overwrite a newer one.
+  useEffect(() => {
+    const controller = new AbortController();
+    loadMoviePage(controller.signal);
+    return () => controller.abort();
+  }, [currentView, watchlistOwner, currentPage, moviesPerPage, sortBy, debouncedSearch, selectedGenres, selectedYears, imdbRatingRange, runtimeFilter, selectedTags, currentUser]);
+
+  useEffect(() => {
+    loadTopRatedMovies();
+  }, [currentView, watchlistOwner, currentUser]);
+
+  useEffect(() => {
+    loadCommentMovies();
+  }, [currentView, comments]);
+
   // Save dark mode preference
   useEffect(() => {
     localStorage.setItem('darkMode', JSON.stringify(isDarkMode));
@@ -161,24 +222,9 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
 
   const loadToWatchMovies = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/towatch`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setToWatchMovies(data.movies);
-        localStorage.setItem('toWatchMovies', JSON.stringify(data.movies));
-      } else {
-        console.error('Error loading to watch movies:', data.error);
-        loadToWatchFromLocalStorage();
-      }
+      const data = await api('GET /towatch');
+      setToWatchMovies(data.movies);
+      localStorage.setItem('toWatchMovies', JSON.stringify(data.movies));
     } catch (error) {
       console.error('Error fetching to watch movies from backend, using localStorage:', error);
       loadToWatchFromLocalStorage();
@@ -202,30 +248,12 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
 
   const loadMovies = async () => {
     try {
-      setIsLoading(true);
-      const response = await fetch(`${API_BASE_URL}/movies`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setMovies(data.movies);
-        localStorage.setItem('movies', JSON.stringify(data.movies));
-      } else {
-        console.error('Error loading movies:', data.error);
-        loadFromLocalStorage();
-      }
+      const data = await api('GET /movies');
+      setMovies(data.movies);
+      localStorage.setItem('movies', JSON.stringify(data.movies));
     } catch (error) {
       console.error('Error fetching movies from backend, using localStorage:', error);
       loadFromLocalStorage();
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -246,24 +274,9 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
 
   const loadComments = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/comments`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setComments(data.comments);
-        localStorage.setItem('comments', JSON.stringify(data.comments));
-      } else {
-        console.error('Error loading comments:', data.error);
-        loadCommentsFromLocalStorage();
-      }
+      const data = await api('GET /comments');
+      setComments(data.comments);
+      localStorage.setItem('comments', JSON.stringify(data.comments));
     } catch (error) {
       console.error('Error fetching comments from backend, using localStorage:', error);
       loadCommentsFromLocalStorage();
@@ -285,71 +298,99 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
     }
   };
 
-  const loadRatings = async () => {
+  // Guests' ratings are stored under an anonymous id; signed-in users are identified by their session
+  const ratingUser = () => (currentUser ? undefined : getAnonymousUserId());
+
+  // Load the page of the current view that matches the active filters
+  const loadMoviePage = async (signal?: AbortSignal) => {
+    if (!hasListToShow) {
+      setPageMovies([]);
+      setTotalMovies(0);
+      setTotalPages(0);
+      setFacets(null);
+      setIsLoading(false);
+      return;
+    }
+    
     try {
-      // Load community ratings
-      const response = await fetch(`${API_BASE_URL}/ratings`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Load user's personal ratings
-      let userIdentifier = '';
-      if (currentUser) {
-        userIdentifier = currentUser.username;
-      } else {
-        userIdentifier = getAnonymousUserId();
-      }
+      const page = await fetchMoviePage(currentList, {
+        q: debouncedSearch,
+        genres: selectedGenres,
+        years: selectedYears,
+        minRating: imdbRatingRange[0],
+        maxRating: imdbRatingRange[1],
+        runtime: runtimeFilter,
+        tags: selectedTags,
+        sort: sortBy,
+        page: currentPage,
+        pageSize: moviesPerPage,
+        user: ratingUser(),
+        owner: watchlistOwner,
+      }, signal);
+      setPageMovies(page.movies);
+      setTotalMovies(page.total);
+      setTotalPages(page.totalPages);
+      setFacets(page.facets);
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error('Error fetching movies:', error);
+    } finally {
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  };
 
-      const userResponse = await fetch(`${API_BASE_URL}/user-ratings/${userIdentifier}`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      let userRatings: { [key: string]: number } = {};
-      if (userResponse.ok) {
-        const userData = await userResponse.json();
-        if (userData.success) {
-          userRatings = userData.userRatings;
-        }
-      }
-      
-      if (data.success && data.averages) {
-        // Merge rating data into movies
-        setMovies(prevMovies => 
-          prevMovies.map(m => ({
-            ...m,
-            communityRating: data.averages[m.id]?.average || undefined,
-            ratingCount: data.averages[m.id]?.count || undefined,
-            userRating: userRatings[m.id] || m.userRating
-          }))
-        );
-        
-        // Also update toWatch movies
-        setToWatchMovies(prevMovies =>
-          prevMovies.map(m => ({
-            ...m,
-            communityRating: data.averages[m.id]?.average || undefined,
-            ratingCount: data.averages[m.id]?.count || undefined,
-            userRating: userRatings[m.id] || m.userRating
-          }))
-        );
-      } else {
-        console.error('Error loading ratings:', data.error);
-      }
+  // The 12 most recently added movies for the carousel
+  const loadRecentMovies = async () => {
+    try {
+      const page = await fetchMoviePage('movies', { sort: 'dateAdded', pageSize: 12 });
+      setRecentMovies(page.movies);
+    } catch (error) {
+      console.error('Error fetching recent movies:', error);
+    }
+  };
+
+  const loadTopRatedMovies = async () => {
+    if (!hasListToShow) {
+      setTopRatedMovies([]);
+      return;
+    }
+    
+    try {
+      const page = await fetchMoviePage(currentList, { sort: 'userRating', pageSize: 5, user: ratingUser(), owner: watchlistOwner });
+      setTopRatedMovies(page.movies.filter(m => m.userRating && m.userRating > 0));
+    } catch (error) {
+      console.error('Error fetching top rated movies:', error);
+    }
+  };
+
+  // Titles for the movies the sidebar's recent comments refer to
+  const loadCommentMovies = async () => {
+    const ids = Array.from(new Set(
+      [...comments]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, 5)
+        .map(c => c.movieId)
+    ));
+    
+    if (ids.length === 0 || !hasListToShow) {
+      setCommentMovies([]);
+      return;
+    }
+    
+    try {
+      const page = await fetchMoviePage(currentList, { ids, pageSize: ids.length, owner: watchlistOwner });
+      setCommentMovies(page.movies);
     } catch (error) {
-      console.error('Error fetching ratings from backend:', error);
+      console.error('Error fetching commented movies:', error);
     }
   };
 
+  // Reload what's on screen after the library changes
+  const refreshMovies = () => {
+    loadMoviePage();
+    loadRecentMovies();
+  };
+
   const handleGenreChange = (genre: string, checked: boolean) => {
     if (checked) {
       setSelectedGenres([...selectedGenres, genre]);
@@ -382,474 +423,71 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
     setCurrentPage(1);
   };
 
-  const handleFixRuntimes = async () => {
-    const apiKey = "f9062e1";
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    
-    // Filter to only movies without runtime
-    const moviesWithoutRuntime = targetList.filter(movie => !movie.runtime || movie.runtime.trim() === '');
-    
-    if (moviesWithoutRuntime.length === 0) {
-      alert('All movies already have runtime information!');
-      return;
-    }
-    
-    if (!confirm(`This will fetch runtime information from IMDb for ${moviesWithoutRuntime.length} movies that are missing runtime data. Continue?`)) {
-      return;
-    }
-
-    let successCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
-    
-    console.log(`🎬 Starting runtime fix for ${moviesWithoutRuntime.length} movies (out of ${targetList.length} total) in ${currentView} list`);
-
-    for (const movie of moviesWithoutRuntime) {
-      console.log(`\n📽️ Processing: "${movie.title}" (ID: ${movie.id})`);
-      console.log(`   Current runtime: ${movie.runtime || 'NONE'}`);
-      console.log(`   IMDb ID: ${movie.imdbId || 'NONE'}`);
-      
-      try {
-        // Try to extract IMDb ID from the movie data
-        let imdbId = movie.imdbId;
-        
-        // If no IMDb ID, try to search by title
-        if (!imdbId) {
-          console.log(`   🔍 Searching IMDb for: "${movie.title}" (${movie.year})`);
-          const searchRes = await fetch(`https://www.omdbapi.com/?t=${encodeURIComponent(movie.title)}&y=${movie.year}&apikey=${apiKey}`);
-          const searchData = await searchRes.json();
-          console.log(`   Search result:`, searchData);
-          if (searchData.Response === "True") {
-            imdbId = searchData.imdbID;
-            console.log(`   ✓ Found IMDb ID: ${imdbId}`);
-          } else {
-            console.log(`   ✗ Not found on IMDb`);
-            skippedCount++;
-            continue;
-          }
-        }
-
-        if (imdbId) {
-          console.log(`   📡 Fetching details from IMDb...`);
-          const res = await fetch(`https://www.omdbapi.com/?i=${imdbId}&apikey=${apiKey}`);
-          const data = await res.json();
-          console.log(`   IMDb data:`, data);
-          
-          // Check if it's a series or movie
-          if (data.Response === "True") {
-            let runtimeValue = null;
-            
-            if (data.Type === "series") {
-              // For series, store season and episode count
-              if (data.totalSeasons && data.totalSeasons !== "N/A") {
-                runtimeValue = `${data.totalSeasons} Season${data.totalSeasons !== "1" ? "s" : ""}`;
-                console.log(`   📺 Series found: ${runtimeValue}`);
-              }
-            } else {
-              // For movies, store runtime
-              if (data.Runtime && data.Runtime !== "N/A") {
-                runtimeValue = data.Runtime;
-                console.log(`   ⏱️ Runtime found: ${runtimeValue}`);
-              }
-            }
-            
-            if (runtimeValue) {
-              // Update backend for each movie individually
-              try {
-                const endpoint = currentView === 'towatch' ? 'towatch' : 'movies';
-                const updateRes = await fetch(`${API_BASE_URL}/${endpoint}/${movie.id}`, {
-                  method: 'PATCH',
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${publicAnonKey}`,
-                  },
-                  body: JSON.stringify({ runtime: runtimeValue, imdbId: imdbId }),
-                });
-                
-                const responseText = await updateRes.text();
-                console.log(`   Backend response:`, responseText);
-                
-                if (updateRes.ok) {
-                  console.log(`   ✅ Updated runtime for "${movie.title}": ${runtimeValue}`);
-                  successCount++;
-                } else {
-                  console.error(`   ❌ Failed to update "${movie.title}":`, responseText);
-                  errorCount++;
-                }
-              } catch (error) {
-                console.error(`   ❌ Error updating movie ${movie.id} in backend:`, error);
-                errorCount++;
-              }
-            } else {
-              console.log(`   ⚠️ No runtime/season information available from IMDb`);
-              skippedCount++;
-            }
-          } else {
-            console.log(`   ⚠️ No data available from IMDb`);
-            skippedCount++;
-          }
-        }
-
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 200));
-      } catch (error) {
-        console.error(`   ❌ Error fetching runtime for ${movie.title}:`, error);
-        errorCount++;
-      }
-    }
-
-    console.log(`\n📊 Final Results:`);
-    console.log(`   ✅ Successfully updated: ${successCount}`);
-    console.log(`   ❌ Errors: ${errorCount}`);
-    console.log(`   ⏭️ Skipped: ${skippedCount}`);
-
-    // Reload data from backend to ensure we have the latest
-    await loadMovies();
-    await loadToWatchMovies();
-    
-    alert(`Runtimes updated!\nSuccess: ${successCount}\nErrors: ${errorCount}\nSkipped: ${skippedCount}`);
-  };
-
-  const handleMigrateDateAdded = async () => {
-    console.log('🔄 Starting migration: Adding dateAdded timestamps to all movies...');
-    
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    let updatedCount = 0;
-    
-    for (const movie of targetList) {
-      // Skip movies that already have dateAdded
-      if (movie.dateAdded) {
-        continue;
-      }
-      
-      console.log(`✅ Adding dateAdded to movie #${movie.id}: ${movie.title}`);
-      
-      // Add dateAdded timestamp (use current time)
-      const updatedMovie = {
-        ...movie,
-        dateAdded: Date.now()
-      };
-      
-      try {
-        // Update in database
-        const endpoint = currentView === 'towatch' ? 'towatch' : 'movies';
-        const response = await fetch(`${API_BASE_URL}/${endpoint}/${movie.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify(updatedMovie),
-        });
-        
-        if (response.ok) {
-          updatedCount++;
-        }
-        
-        // Small delay to avoid overwhelming the server
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.error(`Error updating movie ${movie.id}:`, error);
-      }
-    }
-    
-    console.log(`✅ Migration complete! Updated ${updatedCount} movies.`);
-    console.log('🔄 Reloading movies from database...');
-    
-    // Reload data from backend
-    await loadMovies();
-    await loadToWatchMovies();
-    
-    alert(`Migration complete!\nUpdated ${updatedCount} movies with dateAdded timestamps.`);
-    console.log('✨ Done! The "Recently Added" carousel should now work correctly.');
-  };
-
-  const handleLoadAllTrailers = async () => {
-    if (!confirm('This will automatically search and add trailers from YouTube for all movies that don\'t have trailers. No API limits! This may take a few minutes. Continue?')) {
-      return;
-    }
-    
-    setIsLoadingTrailers(true);
-    setTrailerLoadProgress('Starting trailer fetch...');
-    
-    try {
-      // Calculate how many movies need trailers
-      const moviesWithoutTrailers = movies.filter(m => !m.trailer || m.trailer.trim() === '');
-      const totalToProcess = moviesWithoutTrailers.length;
-      
-      console.log('🎬 Trailer Loading Debug:');
-      console.log('Total movies:', movies.length);
-      console.log('Movies without trailers:', totalToProcess);
-      console.log('Sample movies:', movies.slice(0, 3).map(m => ({ 
-        title: m.title, 
-        hasTrailer: !!m.trailer, 
-        trailerValue: m.trailer 
-      })));
-      
-      if (totalToProcess === 0) {
-        alert('All movies already have trailers!');
-        setIsLoadingTrailers(false);
-        setTrailerLoadProgress('');
-        return;
-      }
-      
-      let processedSoFar = 0;
-      let updatedTotal = 0;
-      
-      // Process in batches of 10 to avoid timeout
-      while (processedSoFar < totalToProcess) {
-        const remaining = totalToProcess - processedSoFar;
-        const batchSize = Math.min(10, remaining);
-        
-        setTrailerLoadProgress(`Processing ${processedSoFar + 1}-${processedSoFar + batchSize} of ${totalToProcess} movies...`);
-        
-        const response = await fetch(`${API_BASE_URL}/movies/fetch-all-trailers?limit=${batchSize}`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        
-        if (data.success) {
-          console.log('Batch completed:', data.summary);
-          console.log('Results sample:', data.results?.slice(0, 3));
-          updatedTotal += data.summary.updated;
-          processedSoFar += data.summary.processed;
-          
-          // If there are no more movies to process, break
-          if (data.summary.remaining === 0) {
-            break;
-          }
-        } else {
-          console.error('Error fetching trailers:', data.error);
-          alert(`Error: ${data.error}`);
-          break;
-        }
-        
-        // Small delay between batches
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-      
-      setTrailerLoadProgress('Reloading movies...');
-      await loadMovies();
-      
-      setTrailerLoadProgress('');
-      alert(`Trailer loading complete!\\n\\nSuccessfully added trailers to ${updatedTotal} movies.`);
-      
-    } catch (error) {
-      console.error('Error loading trailers:', error);
-      alert(`Error loading trailers: ${error}`);
-      setTrailerLoadProgress('');
-    } finally {
-      setIsLoadingTrailers(false);
-    }
-  };
-
-  const handleForceReloadAllTrailers = async () => {
-    if (!confirm('⚠️ WARNING: This will RE-FETCH trailers for ALL ' + movies.length + ' movies, even those that already have trailers. This may take several minutes. Continue?')) {
-      return;
-    }
-    
-    setIsLoadingTrailers(true);
-    setTrailerLoadProgress('Force reloading ALL trailers...');
+  const handleAddMovie = async (newMovie: NewMovie) => {
+    const endpoint = currentView === 'towatch' ? 'towatch' : 'movies';
     
     try {
-      let processedSoFar = 0;
-      let updatedTotal = 0;
-      const totalToProcess = movies.length;
+      const data = await api(endpoint === 'towatch' ? 'POST /towatch' : 'POST /movies', { body: newMovie });
       
-      // Process in batches of 10
-      while (processedSoFar < totalToProcess) {
-        const remaining = totalToProcess - processedSoFar;
-        const batchSize = Math.min(10, remaining);
-        
-        setTrailerLoadProgress(`Force reloading ${processedSoFar + 1}-${processedSoFar + batchSize} of ${totalToProcess} movies...`);
-        
-        const response = await fetch(`${API_BASE_URL}/movies/fetch-all-trailers?limit=${batchSize}&force=true`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        
-        if (data.success) {
-          console.log('Batch completed:', data.summary);
-          console.log('Results sample:', data.results?.slice(0, 3));
-          updatedTotal += data.summary.updated;
-          processedSoFar += data.summary.processed;
-          
-          // If there are no more movies to process, break
-          if (data.summary.remaining === 0) {
-            break;
-          }
-        } else {
-          console.error('Error fetching trailers:', data.error);
-          alert(`Error: ${data.error}`);
-          break;
-        }
-        
-        // Small delay between batches
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-      
-      setTrailerLoadProgress('Reloading movies...');
-      await loadMovies();
-      
-      setTrailerLoadProgress('');
-      alert(`Force reload complete!\\n\\nSuccessfully reloaded trailers for ${updatedTotal} movies.`);
-      
-    } catch (error) {
-      console.error('Error force reloading trailers:', error);
-      alert(`Error force reloading trailers: ${error}`);
-      setTrailerLoadProgress('');
-    } finally {
-      setIsLoadingTrailers(false);
-    }
-  };
-
-  const handleAddMovie = async (newMovie: Movie) => {
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    const updatedMovies = [newMovie, ...targetList];
-    
-    if (currentView === 'towatch') {
-      try {
-        const response = await fetch(`${API_BASE_URL}/towatch`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify(newMovie),
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        if (data.success) {
-          setToWatchMovies(updatedMovies);
-          localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
-        } else {
-          console.error('Error adding to watch movie to backend:', data.error);
-          setToWatchMovies(updatedMovies);
-          localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
-        }
-      } catch (error) {
-        console.error('Error saving to watch movie to backend, saving to localStorage only:', error);
+      // Keep the record the server stored, which carries the assigned id and slug
+      const savedMovie: Movie = data.movie;
+      if (endpoint === 'towatch') {
+        const updatedMovies = [savedMovie, ...toWatchMovies];
         setToWatchMovies(updatedMovies);
         localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
-      }
-      return;
-    }
-    
-    try {
-      const response = await fetch(`${API_BASE_URL}/movies`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(newMovie),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setMovies(updatedMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMovies));
       } else {
-        console.error('Error adding movie to backend:', data.error);
+        const updatedMovies = [savedMovie, ...movies];
         setMovies(updatedMovies);
         localStorage.setItem('movies', JSON.stringify(updatedMovies));
       }
+      refreshMovies();
     } catch (error) {
-      console.error('Error saving movie to backend, saving to localStorage only:', error);
-      setMovies(updatedMovies);
-      localStorage.setItem('movies', JSON.stringify(updatedMovies));
+      console.error('Error adding movie:', error);
+      alert(`Failed to add movie: ${error instanceof Error ? error.message : error}`);
     }
   };
 
+  // Reload the full list (for duplicate checks) and the grid after a bulk import
+  const handleMoviesImported = () => {
+    if (currentView === 'towatch') {
+      loadToWatchMovies();
+    } else {
+      loadMovies();
+    }
+    refreshMovies();
+  };
+
   const handleMovieClick = (movie: Movie) => {
-    navigate(`/movie/${createSlug(movie.title)}`);
+    navigate(`/movie/${movieSlug(movie)}`);
   };
 
   const handleDeleteMovie = async (movieId: number) => {
+    setPageMovies(prev => prev.filter(m => m.id !== movieId));
+    
     if (currentView === 'towatch') {
       const updatedMovies = toWatchMovies.filter(m => m.id !== movieId);
       
       try {
-        const response = await fetch(`${API_BASE_URL}/towatch/${movieId}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        if (data.success) {
-          setToWatchMovies(updatedMovies);
-          localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
-        } else {
-          console.error('Error deleting to watch movie from backend:', data.error);
-          setToWatchMovies(updatedMovies);
-          localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
-        }
+        await api('DELETE /towatch/:id', { params: { id: movieId } });
       } catch (error) {
         console.error('Error deleting to watch movie from backend, deleting from localStorage only:', error);
-        setToWatchMovies(updatedMovies);
-        localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
       }
+      setToWatchMovies(updatedMovies);
+      localStorage.setItem('toWatchMovies', JSON.stringify(updatedMovies));
+      refreshMovies();
       return;
     }
     
     const updatedMovies = movies.filter(m => m.id !== movieId);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/movies/${movieId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setMovies(updatedMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMovies));
-      } else {
-        console.error('Error deleting movie from backend:', data.error);
-        setMovies(updatedMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMovies));
-      }
+      await api('DELETE /movies/:id', { params: { id: movieId } });
     } catch (error) {
       console.error('Error deleting movie from backend, deleting from localStorage only:', error);
-      setMovies(updatedMovies);
-      localStorage.setItem('movies', JSON.stringify(updatedMovies));
     }
+    setMovies(updatedMovies);
+    localStorage.setItem('movies', JSON.stringify(updatedMovies));
+    refreshMovies();
   };
 
   const handleUpdatePoster = async (movieId: number, newImageUrl: string) => {
@@ -858,194 +496,103 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
     );
     
     try {
-      const response = await fetch(`${API_BASE_URL}/movies/${movieId}/poster`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ image: newImageUrl }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setMovies(updatedMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMovies));
-      } else {
-        console.error('Error updating poster in backend:', data.error);
-        setMovies(updatedMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMovies));
-      }
+      await api('PATCH /movies/:id/poster', { params: { id: movieId }, body: { image: newImageUrl } });
     } catch (error) {
       console.error('Error updating poster in backend, updating localStorage only:', error);
-      setMovies(updatedMovies);
-      localStorage.setItem('movies', JSON.stringify(updatedMovies));
     }
+    setMovies(updatedMovies);
+    localStorage.setItem('movies', JSON.stringify(updatedMovies));
   };
 
   const handleUpdateRating = async (movieId: number, rating: number) => {
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    const setTargetList = currentView === 'towatch' ? setToWatchMovies : setMovies;
-    const storageKey = currentView === 'towatch' ? 'toWatchMovies' : 'movies';
-    
-    const updatedMovies = targetList.map(m => 
+    setPageMovies(prev => prev.map(m => 
       m.id === movieId ? { ...m, userRating: rating } : m
-    );
-    
-    setTargetList(updatedMovies);
-    localStorage.setItem(storageKey, JSON.stringify(updatedMovies));
+    ));
     
     // Submit rating to backend
     try {
-      let userIdentifier = '';
-      if (currentUser) {
-        userIdentifier = currentUser.id;
-      } else {
-        userIdentifier = getAnonymousUserId();
-      }
+      // Signed-in users are identified by their session; only guests send their anonymous id
+      const userIdentifier = currentUser ? undefined : getAnonymousUserId();
       
-      const response = await fetch(`${API_BASE_URL}/ratings`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ movieId, rating, userIdentifier }),
-      });
-
-      if (response.ok) {
-        console.log('Rating submitted successfully');
-      }
+      await api('POST /ratings', { body: { movieId, rating, userIdentifier } });
+      console.log('Rating submitted successfully');
     } catch (error) {
       console.error('Error submitting rating to backend:', error);
     }
   };
 
   const handleUpdateTags = async (movieId: number, tags: string[]) => {
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    const setTargetList = currentView === 'towatch' ? setToWatchMovies : setMovies;
-    const storageKey = currentView === 'towatch' ? 'toWatchMovies' : 'movies';
-    
-    const updatedMovies = targetList.map(m => 
+    setPageMovies(prev => prev.map(m => 
       m.id === movieId ? { ...m, tags } : m
-    );
-    
-    setTargetList(updatedMovies);
-    localStorage.setItem(storageKey, JSON.stringify(updatedMovies));
+    ));
   };
 
   const handleUpdateRuntime = async (movieId: number, runtime: string) => {
-    const targetList = currentView === 'towatch' ? toWatchMovies : movies;
-    const setTargetList = currentView === 'towatch' ? setToWatchMovies : setMovies;
-    const storageKey = currentView === 'towatch' ? 'toWatchMovies' : 'movies';
-    
-    const updatedMovies = targetList.map(m => 
+    setPageMovies(prev => prev.map(m => 
       m.id === movieId ? { ...m, runtime } : m
-    );
-    
-    setTargetList(updatedMovies);
-    localStorage.setItem(storageKey, JSON.stringify(updatedMovies));
+    ));
     
     // Update backend
     try {
-      const endpoint = currentView === 'towatch' ? 'towatch' : 'movies';
-      const response = await fetch(`${API_BASE_URL}/${endpoint}/${movieId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ runtime }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (!data.success) {
-        console.error('Error updating runtime in backend:', data.error);
-      }
+      const route = currentView === 'towatch' ? 'PATCH /towatch/:id' : 'PATCH /movies/:id';
+      const data = await api(route, { params: { id: movieId }, body: { runtime } });
+      // Pick up the structured fields and label the server derived from the text
+      setPageMovies(prev => prev.map(m => m.id === movieId ? data.movie : m));
     } catch (error) {
       console.error('Error updating runtime in backend:', error);
     }
   };
 
   const handleMarkAsWatched = async (movie: Movie) => {
-    const maxId = movies.length > 0 ? Math.max(...movies.map(m => m.id)) : 0;
-    const movieWithNewId = { ...movie, id: maxId + 1, dateAdded: Date.now() };
-    
-    const updatedMainMovies = [movieWithNewId, ...movies];
-    const updatedToWatchMovies = toWatchMovies.filter(m => m.id !== movie.id);
-    
     try {
-      const addResponse = await fetch(`${API_BASE_URL}/movies`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(movieWithNewId),
-      });
-      
-      if (!addResponse.ok) {
-        throw new Error(`HTTP error adding to main list! status: ${addResponse.status}`);
-      }
-      
-      const deleteResponse = await fetch(`${API_BASE_URL}/towatch/${movie.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
+      // The server moves the movie (with its tags, comments and ratings) in one step
+      const data = await api('POST /towatch/:id/watched', { params: { id: movie.id } });
       
-      if (!deleteResponse.ok) {
-        throw new Error(`HTTP error removing from to watch! status: ${deleteResponse.status}`);
-      }
-      
-      const addData = await addResponse.json();
-      const deleteData = await deleteResponse.json();
-      
-      if (addData.success && deleteData.success) {
-        setMovies(updatedMainMovies);
-        setToWatchMovies(updatedToWatchMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMainMovies));
-        localStorage.setItem('toWatchMovies', JSON.stringify(updatedToWatchMovies));
-        // Navigate back to home after marking as watched
-        navigate('/');
-      } else {
-        console.error('Error marking movie as watched:', addData.error || deleteData.error);
-        setMovies(updatedMainMovies);
-        setToWatchMovies(updatedToWatchMovies);
-        localStorage.setItem('movies', JSON.stringify(updatedMainMovies));
-        localStorage.setItem('toWatchMovies', JSON.stringify(updatedToWatchMovies));
-        navigate('/');
-      }
-    } catch (error) {
-      console.error('Error marking movie as watched in backend, updating localStorage only:', error);
+      const updatedMainMovies = [data.movie, ...movies];
+      const updatedToWatchMovies = toWatchMovies.filter(m => m.id !== movie.id);
       setMovies(updatedMainMovies);
       setToWatchMovies(updatedToWatchMovies);
       localStorage.setItem('movies', JSON.stringify(updatedMainMovies));
       localStorage.setItem('toWatchMovies', JSON.stringify(updatedToWatchMovies));
+      // Navigate back to home after marking as watched
       navigate('/');
+    } catch (error) {
+      console.error('Error marking movie as watched:', error);
+      alert(`Failed to mark movie as watched: ${error instanceof Error ? error.message : error}`);
     }
+    refreshMovies();
   };
 
-  const handleTryMyLuck = () => {
-    const currentMovieList = currentView === 'towatch' ? toWatchMovies : movies;
+  const handleToggleWatchlistSharing = async () => {
+    if (!currentUser) return;
     
-    if (currentMovieList.length === 0) {
-      return;
+    try {
+      const data = await api('PATCH /watchlist/sharing', { body: { shared: !currentUser.watchlistShared } });
+      
+      saveSession(data.user);
+      setCurrentUser(data.user);
+    } catch (error) {
+      console.error('Error updating watchlist sharing:', error);
+      alert(`Failed to update watchlist sharing: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleTryMyLuck = async () => {
+    try {
+      // Ask for a single title to learn the size of the list, then fetch a random one
+      const { total } = await fetchMoviePage(currentList, { pageSize: 1 });
+      if (total === 0) {
+        return;
+      }
+      
+      const randomPage = Math.floor(Math.random() * total) + 1;
+      const { movies: [randomMovie] } = await fetchMoviePage(currentList, { pageSize: 1, page: randomPage });
+      if (randomMovie) {
+        navigate(`/movie/${movieSlug(randomMovie)}`);
+      }
+    } catch (error) {
+      console.error('Error picking a random movie:', error);
     }
-    
-    const randomIndex = Math.floor(Math.random() * currentMovieList.length);
-    const randomMovie = currentMovieList[randomIndex];
-    
-    navigate(`/movie/${createSlug(randomMovie.title)}`);
   };
 
   const handleAddComment = async (movieId: number, text: string) => {
@@ -1062,174 +609,40 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
     const updatedComments = [...comments, newComment];
     
     try {
-      const response = await fetch(`${API_BASE_URL}/comments`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(newComment),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setComments(updatedComments);
-        localStorage.setItem('comments', JSON.stringify(updatedComments));
-      } else {
-        console.error('Error adding comment to backend:', data.error);
-        setComments(updatedComments);
-        localStorage.setItem('comments', JSON.stringify(updatedComments));
-      }
+      // Signed-in users comment as themselves; the name is only used for guests
+      await api('POST /comments', { body: { movieId, text: commentText, guestName: username } });
     } catch (error) {
       console.error('Error saving comment to backend, saving to localStorage only:', error);
-      setComments(updatedComments);
-      localStorage.setItem('comments', JSON.stringify(updatedComments));
     }
+    setComments(updatedComments);
+    localStorage.setItem('comments', JSON.stringify(updatedComments));
   };
 
   const handleDeleteComment = async (movieId: number, commentId: string) => {
     const updatedComments = comments.filter(c => c.id !== commentId);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/comments/${movieId}/${commentId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        setComments(updatedComments);
-        localStorage.setItem('comments', JSON.stringify(updatedComments));
-      } else {
-        console.error('Error deleting comment from backend:', data.error);
-        setComments(updatedComments);
-        localStorage.setItem('comments', JSON.stringify(updatedComments));
-      }
+      await api('DELETE /comments/:movieId/:commentId', { params: { movieId, commentId } });
     } catch (error) {
       console.error('Error deleting comment from backend, deleting from localStorage only:', error);
-      setComments(updatedComments);
-      localStorage.setItem('comments', JSON.stringify(updatedComments));
     }
+    setComments(updatedComments);
+    localStorage.setItem('comments', JSON.stringify(updatedComments));
   };
 
-  // Get all unique tags from movies (memoized)
-  const allTags = useMemo(() => 
-    Array.from(
-      new Set(
-        (currentView === 'towatch' ? toWatchMovies : movies)
-          .flatMap(m => m.tags || [])
-      )
-    ),
-    [currentView, toWatchMovies, movies]
-  );
-
-  // Get all unique years from movies (memoized)
-  const availableYears = useMemo(() => {
-    const years = new Set(
-      (currentView === 'towatch' ? toWatchMovies : movies)
-        .map(m => m.year)
-    );
-    return Array.from(years).sort((a, b) => b - a);
-  }, [currentView, toWatchMovies, movies]);
-
-  // Helper function to parse runtime string to minutes
-  const parseRuntime = (runtime?: string): number => {
-    if (!runtime) return 0;
-    const match = runtime.match(/(\d+)/);
-    return match ? parseInt(match[1]) : 0;
-  };
-
-  // Advanced filtering (memoized)
-  const filteredMovies = useMemo(() => (currentView === 'towatch' ? toWatchMovies : movies).filter((movie) => {
-    // Split movie genres by comma and trim whitespace
-    const movieGenres = movie.genre ? movie.genre.split(',').map(g => g.trim()) : [];
-    const genreMatch = selectedGenres.length === 0 || selectedGenres.some(genre => movieGenres.includes(genre));
-    
-    const yearMatch = selectedYears.length === 0 || selectedYears.includes(movie.year);
-    const searchMatch = 
-      searchQuery === "" || 
-      movie.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      movie.description.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    // IMDb rating filter
-    const movieRating = movie.imdbRating || movie.rating;
-    const ratingMatch = movieRating >= imdbRatingRange[0] && movieRating <= imdbRatingRange[1];
-    
-    // Runtime filter
-    let runtimeMatch = true;
-    if (runtimeFilter !== 'all') {
-      const runtimeMinutes = parseRuntime(movie.runtime);
-      const isSeason = movie.runtime && movie.runtime.toLowerCase().includes('season');
-      
-      if (runtimeFilter === 'short') {
-        runtimeMatch = !isSeason && runtimeMinutes > 0 && runtimeMinutes <= 90;
-      } else if (runtimeFilter === 'medium') {
-        runtimeMatch = !isSeason && runtimeMinutes > 90 && runtimeMinutes <= 150;
-      } else if (runtimeFilter === 'long') {
-        runtimeMatch = !isSeason && runtimeMinutes > 150;
-      } else if (runtimeFilter === 'oneSeason') {
-        runtimeMatch = isSeason && (movie.runtime.includes('1 Season') || movie.runtime === '1 Seasons');
-      } else if (runtimeFilter === 'multiSeason') {
-        const seasonMatch = movie.runtime?.match(/(\d+)\s+Season/);
-        runtimeMatch = isSeason && seasonMatch && parseInt(seasonMatch[1]) > 1;
-      }
-    }
-    
-    // Tag filter
-    const tagMatch = selectedTags.length === 0 || 
-      (movie.tags && selectedTags.some(tag => movie.tags?.includes(tag)));
-    
-    return genreMatch && yearMatch && searchMatch && ratingMatch && runtimeMatch && tagMatch;
-  }), [currentView, toWatchMovies, movies, selectedGenres, selectedYears, searchQuery, imdbRatingRange, runtimeFilter, selectedTags]);
-
-  // Sorting logic (memoized)
-  const sortedMovies = useMemo(() => [...filteredMovies].sort((a, b) => {
-    switch (sortBy) {
-      case 'dateAdded':
-        return b.id - a.id; // Newest first
-      case 'dateAddedLatest':
-        return a.id - b.id; // Latest (oldest) first
-      case 'title':
-        return a.title.localeCompare(b.title);
-      case 'year':
-        return b.year - a.year;
-      case 'imdbRating':
-        return (b.imdbRating || b.rating) - (a.imdbRating || a.rating);
-      case 'userRating':
-        return (b.userRating || 0) - (a.userRating || 0);
-      case 'communityRating':
-        return (b.communityRating || 0) - (a.communityRating || 0);
-      default:
-        return 0;
-    }
-  }), [filteredMovies, sortBy]);
+  // Tags and years offered in the sidebar come from the facet counts of the current results
+  const allTags = useMemo(() => Object.keys(facets?.tags || {}).sort(), [facets]);
 
-  const displayMovies = sortedMovies;
-
-  // Pagination calculations
-  const totalPagesMobile = Math.ceil(displayMovies.length / MOVIES_PER_PAGE_MOBILE);
-  const totalPagesDesktop = Math.ceil(displayMovies.length / MOVIES_PER_PAGE_DESKTOP);
-  const startIndexMobile = (currentPage - 1) * MOVIES_PER_PAGE_MOBILE;
-  const endIndexMobile = startIndexMobile + MOVIES_PER_PAGE_MOBILE;
-  const paginatedMoviesForMobile = displayMovies.slice(startIndexMobile, endIndexMobile);
-  const startIndexDesktop = (currentPage - 1) * MOVIES_PER_PAGE_DESKTOP;
-  const endIndexDesktop = startIndexDesktop + MOVIES_PER_PAGE_DESKTOP;
-  const paginatedMoviesForDesktop = displayMovies.slice(startIndexDesktop, endIndexDesktop);
+  const availableYears = useMemo(() => 
+    Object.keys(facets?.years || {})
+      .map(Number)
+      .sort((a, b) => b - a),
+    [facets]
+  );
 
-  // Get the 12 most recently added movies (by dateAdded timestamp) (memoized)
-  const recentMovies = useMemo(() => [...movies]
-    .sort((a, b) => b.id - a.id)
-    .slice(0, 12), [movies]);
+  // Users manage their own watchlist; removing titles from the library is admin-only
+  const canDeleteInView = currentView === 'towatch' ? isOwnWatchlist || isAdmin(currentUser) : isAdmin(currentUser);
+  const canAddInView = currentView === 'towatch' ? isOwnWatchlist : canCurate(currentUser);
 
   return (
     <div className={`min-h-screen ${isDarkMode ? 'dark' : ''}`}>
@@ -1315,13 +728,13 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
               )}
               
               {/* Live Search Dropdown */}
-              {showSearchDropdown && searchQuery && displayMovies.length > 0 && (
+              {showSearchDropdown && searchQuery && pageMovies.length > 0 && (
                 <div className={`absolute top-full left-0 right-0 mt-2 border rounded-lg shadow-lg max-h-96 overflow-y-auto z-50 ${isDarkMode ? 'bg-black border-gray-800' : 'bg-white border-gray-300'}`}>
-                  {displayMovies.slice(0, 8).map((movie) => (
+                  {pageMovies.slice(0, 8).map((movie) => (
                     <div
                       key={movie.id}
                       onClick={() => {
-                        navigate(`/movie/${createSlug(movie.title)}`);
+                        navigate(`/movie/${movieSlug(movie)}`);
                         setShowSearchDropdown(false);
                       }}
                       className={`flex items-center gap-3 p-3 cursor-pointer transition-colors ${isDarkMode ? 'hover:bg-gray-900' : 'hover:bg-gray-100'} border-b last:border-b-0 ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}
@@ -1356,9 +769,9 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
                       </div>
                     </div>
                   ))}
-                  {displayMovies.length > 8 && (
+                  {totalMovies > 8 && (
                     <div className={`p-3 text-center text-sm ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-                      Showing 8 of {displayMovies.length} results
+                      Showing 8 of {totalMovies} results
                     </div>
                   )}
                 </div>
@@ -1439,7 +852,9 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
             onYearChange={handleYearChange}
             onTryMyLuck={handleTryMyLuck}
             comments={comments}
-            movies={currentView === 'towatch' ? toWatchMovies : movies}
+            movies={commentMovies}
+            topRatedMovies={topRatedMovies}
+            facets={facets}
             onCommentClick={handleMovieClick}
             imdbRatingRange={imdbRatingRange}
             onImdbRatingChange={setImdbRatingRange}
@@ -1481,7 +896,9 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
                   onYearChange={handleYearChange}
                   onTryMyLuck={handleTryMyLuck}
                   comments={comments}
-                  movies={currentView === 'towatch' ? toWatchMovies : movies}
+                  movies={commentMovies}
+                  topRatedMovies={topRatedMovies}
+                  facets={facets}
                   onCommentClick={handleMovieClick}
                   imdbRatingRange={imdbRatingRange}
                   onImdbRatingChange={setImdbRatingRange}
@@ -1533,16 +950,37 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
           <div className="hidden md:flex mb-6 items-center justify-between">
             <div className="flex items-center gap-3">
               <p className={`text-sm leading-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                Showing {displayMovies.length} {displayMovies.length === 1 ? 'movie' : 'movies'}
+                Showing {totalMovies} {totalMovies === 1 ? 'movie' : 'movies'}
+                {currentView === 'towatch' && watchlistOwner && !isOwnWatchlist && ` on ${watchlistOwner}'s watchlist`}
               </p>
+              {isOwnWatchlist && (
+                <button
+                  onClick={handleToggleWatchlistSharing}
+                  className={`text-sm hover:underline ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+                  title={currentUser.watchlistShared
+                    ? `Signed-in users can open it at ${window.location.origin}/?view=towatch&owner=${encodeURIComponent(currentUser.username)}`
+                    : 'Only you can see your watchlist'}
+                >
+                  {currentUser.watchlistShared ? 'Shared · Stop sharing' : 'Share watchlist'}
+                </button>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <SortDropdown value={sortBy} onChange={setSortBy} />
-              <AddMovieDialog 
-                onAddMovie={handleAddMovie} 
-                existingMovies={[...movies, ...toWatchMovies]}
-                currentViewMovies={currentView === 'towatch' ? toWatchMovies : movies}
-              />
+              {canAddInView && (
+                <ImportMoviesDialog
+                  list={currentList}
+                  existingMovies={currentView === 'towatch' ? toWatchMovies : movies}
+                  onImported={handleMoviesImported}
+                />
+              )}
+              {canAddInView && (
+                <AddMovieDialog 
+                  onAddMovie={handleAddMovie} 
+                  existingMovies={[...movies, ...toWatchMovies]}
+                  currentViewMovies={currentView === 'towatch' ? toWatchMovies : movies}
+                />
+              )}
             </div>
           </div>
 
@@ -1564,11 +1002,13 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
               </Button>
               
               {/* Add Movie Button for Mobile */}
-              <AddMovieDialog 
-                onAddMovie={handleAddMovie} 
-                existingMovies={[...movies, ...toWatchMovies]}
-                currentViewMovies={currentView === 'towatch' ? toWatchMovies : movies}
-              />
+              {canAddInView && (
+                <AddMovieDialog 
+                  onAddMovie={handleAddMovie} 
+                  existingMovies={[...movies, ...toWatchMovies]}
+                  currentViewMovies={currentView === 'towatch' ? toWatchMovies : movies}
+                />
+              )}
               
               {/* Reset Filters Button */}
               {(selectedGenres.length > 0 || selectedYears.length > 0 || searchQuery !== "" || selectedTags.length > 0 || imdbRatingRange[0] !== 0 || imdbRatingRange[1] !== 10 || runtimeFilter !== 'all') && (
@@ -1591,48 +1031,47 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
             </div>
           </div>
 
-          {displayMovies.length > 0 ? (
+          {!hasListToShow ? (
+            <div className="text-center py-16">
+              <User className={`size-16 mx-auto mb-4 ${isDarkMode ? 'text-gray-600' : 'text-gray-300'}`} />
+              <h3 className={`text-lg font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                Sign in to keep a watchlist
+              </h3>
+              <button
+                onClick={() => setIsLoginModalOpen(true)}
+                className={`hover:underline ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+              >
+                Sign in
+              </button>
+            </div>
+          ) : pageMovies.length > 0 ? (
             <>
               {/* Showing movies count for Mobile */}
               <div className="md:hidden mb-4">
                 <p className={`text-sm leading-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                  Showing {displayMovies.length} {displayMovies.length === 1 ? 'movie' : 'movies'}
+                  Showing {totalMovies} {totalMovies === 1 ? 'movie' : 'movies'}
                 </p>
               </div>
 
               {/* Movie Grid */}
+              {/* Page size already matches the screen (12 on mobile, 24 on desktop) */}
               <div className="grid grid-cols-3 md:grid-cols-6 gap-3 md:gap-6 max-w-[2400px]">
-                {/* Mobile: Show paginated movies */}
-                <div className="contents md:hidden">
-                  {paginatedMoviesForMobile.map((movie) => (
-                    <MovieCard 
-                      key={movie.id} 
-                      movie={movie} 
-                      onClick={() => handleMovieClick(movie)}
-                      onDelete={handleDeleteMovie}
-                    />
-                  ))}
-                </div>
-                
-                {/* Desktop: Show paginated movies */}
-                <div className="contents hidden md:contents">
-                  {paginatedMoviesForDesktop.map((movie) => (
-                    <MovieCard 
-                      key={movie.id} 
-                      movie={movie} 
-                      onClick={() => handleMovieClick(movie)}
-                      onDelete={handleDeleteMovie}
-                    />
-                  ))}
-                </div>
+                {pageMovies.map((movie) => (
+                  <MovieCard 
+                    key={movie.id} 
+                    movie={movie} 
+                    onClick={() => handleMovieClick(movie)}
+                    onDelete={canDeleteInView ? handleDeleteMovie : undefined}
+                  />
+                ))}
               </div>
 
               {/* Mobile Pagination Controls */}
-              {totalPagesMobile > 1 && (
+              {totalPages > 1 && (
                 <div className="md:hidden">
                   <PaginationControls
                     currentPage={currentPage}
-                    totalPages={totalPagesMobile}
+                    totalPages={totalPages}
                     onPageChange={setCurrentPage}
                     variant="mobile"
                   />
@@ -1640,11 +1079,11 @@ function HomePage({ currentUser, setCurrentUser, isDarkMode, setIsDarkMode }: {
               )}
 
               {/* Desktop Pagination Controls */}
-              {totalPagesDesktop > 1 && (
+              {totalPages > 1 && (
                 <div className="hidden md:block">
                   <PaginationControls
                     currentPage={currentPage}
-                    totalPages={totalPagesDesktop}
+                    totalPages={totalPages}
                     onPageChange={setCurrentPage}
                     variant="desktop"
                   />
@@ -12,15 +12,16 @@ import {
 } from "./ui/dialog";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
-import { Movie } from "./MovieCard";
+import { Movie, NewMovie } from "./MovieCard";
+import { api, ApiError } from "../utils/api";
 
 interface AddMovieDialogProps {
-  onAddMovie: (movie: Movie) => void;
+  onAddMovie: (movie: NewMovie) => void;
   existingMovies: Movie[];
   currentViewMovies?: Movie[]; // Movies from the current view only for duplicate checking
 }
 
-// Fetch movie data from OMDb
+// Fetch movie data through the server, which holds the metadata provider's API key
 const fetchMovieFromIMDb = async (imdbUrl: string): Promise<Partial<Movie> | null> => {
   const imdbIdMatch = imdbUrl.match(/tt\d{7,8}/);
   if (!imdbIdMatch) return null;
@@ -28,42 +29,10 @@ const fetchMovieFromIMDb = async (imdbUrl: string): Promise<Partial<Movie> | nul
   const imdbId = imdbIdMatch[0];
 
   try {
-    const apiKey = "f9062e1"; // Your OMDb API key
-    // Add plot=full parameter to get full plot instead of short version
-    const res = await fetch(`https://www.omdbapi.com/?i=${imdbId}&plot=full&apikey=${apiKey}`);
-    const data = await res.json();
-
-    if (data.Response === "False") return null;
-
-    // Determine runtime value based on type (series vs movie)
-    let runtimeValue = undefined;
-    if (data.Type === "series") {
-      // For series, use season count
-      if (data.totalSeasons && data.totalSeasons !== "N/A") {
-        runtimeValue = `${data.totalSeasons} Season${data.totalSeasons !== "1" ? "s" : ""}`;
-      }
-    } else {
-      // For movies, use runtime
-      if (data.Runtime && data.Runtime !== "N/A") {
-        runtimeValue = data.Runtime;
-      }
-    }
-
-    return {
-      title: data.Title,
-      year: parseInt(data.Year),
-      genre: data.Genre, // Get all genres, not just the first one
-      rating: parseFloat(data.imdbRating) || 0,
-      description: data.Plot,
-      poster: data.Poster && data.Poster !== "N/A" ? data.Poster : undefined,
-      runtime: runtimeValue,
-      imdbId: imdbId,
-      imdbRating: parseFloat(data.imdbRating) || 0,
-      director: data.Director && data.Director !== "N/A" ? data.Director : undefined,
-      cast: data.Actors && data.Actors !== "N/A" ? data.Actors.split(", ") : undefined,
-      plot: data.Plot && data.Plot !== "N/A" ? data.Plot : undefined, // This now contains the full plot
-    };
+    const data = await api("GET /metadata/:imdbId", { params: { imdbId } });
+    return data.movie;
   } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null;
     console.error("Error fetching movie:", err);
     return null;
   }
@@ -103,11 +72,7 @@ export function AddMovieDialog({ onAddMovie, existingMovies, currentViewMovies }
         return;
       }
 
-      const newId = existingMovies.length > 0
-        ? Math.max(...existingMovies.map((m) => m.id)) + 1
-        : 1;
-
-      // Fallback images if OMDb poster is missing
+      // Fallback images if the provider has no poster
       const genreImageMap: Record<string, string> = {
         Action: "https://images.unsplash.com/photo-1765510296004-614b6cc204da?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&q=80&w=1080",
         Comedy: "https://images.unsplash.com/photo-1587042285747-583b4d4d73b7?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&q=80&w=1080",
@@ -119,13 +84,13 @@ export function AddMovieDialog({ onAddMovie, existingMovies, currentViewMovies }
         Animation: "https://images.unsplash.com/photo-1759267960211-5f445be05c93?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&q=80&w=1080",
       };
 
-      const newMovie: Movie = {
-        id: newId,
+      // The server assigns the id and date added when the movie is saved
+      const newMovie: NewMovie = {
         title: movieData.title || "Unknown Title",
         year: movieData.year || 2024,
         genre: movieData.genre || "Drama",
         rating: movieData.rating || 7.0,
-        image: movieData.poster || genreImageMap[movieData.genre || "Drama"] || genreImageMap.Action,
+        image: movieData.image || genreImageMap[movieData.genre || "Drama"] || genreImageMap.Action,
         description: movieData.description || "No description available.",
         runtime: movieData.runtime,
         imdbId: movieData.imdbId,
@@ -133,7 +98,6 @@ export function AddMovieDialog({ onAddMovie, existingMovies, currentViewMovies }
         director: movieData.director,
         cast: movieData.cast,
         plot: movieData.plot,
-        dateAdded: Date.now(), // Add timestamp for recently added tracking
       };
 
       onAddMovie(newMovie);
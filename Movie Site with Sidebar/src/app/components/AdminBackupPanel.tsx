@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { api, apiFetch, type Archive, type RestoreReport } from '../utils/api';
+
+interface AdminBackupPanelProps {
+  isDarkMode: boolean;
+}
+
+// Save a response body as a file, using the name the server suggested
+const downloadResponse = async (response: Response, fallbackName: string) => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Export the library to JSON/CSV and restore it from a JSON archive (admins only)
+export function AdminBackupPanel({ isDarkMode }: AdminBackupPanelProps) {
+  const [archive, setArchive] = useState<Archive | null>(null);
+  const [archiveName, setArchiveName] = useState('');
+  const [dryRun, setDryRun] = useState(true);
+  const [overwrite, setOverwrite] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const response = await apiFetch('GET /admin/export', { query: { format } });
+      await downloadResponse(response, `library.${format}`);
+    } catch (error) {
+      console.error('Error exporting library:', error);
+      setMessage(`Export failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    setArchive(null);
+    setReport(null);
+    setMessage('');
+    if (!file) return;
+
+    try {
+      setArchive(JSON.parse(await file.text()));
+      setArchiveName(file.name);
+    } catch {
+      setMessage('That file is not a JSON archive.');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    if (!dryRun && !window.confirm(`Restore ${archiveName}${overwrite ? ', overwriting records that differ' : ''}?`)) {
+      return;
+    }
+
+    setBusy(true);
+    setMessage('');
+    try {
+      const data = await api('POST /admin/restore', { query: { dryRun, overwrite }, body: archive });
+      setReport(data);
+    } catch (error) {
+      console.error('Error restoring archive:', error);
+      setMessage(`Restore failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass = `flex items-center gap-2 px-4 py-2 text-[13px] font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const headingClass = `text-[14px] font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-black'}`;
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <h3 className={headingClass}>Export</h3>
+        <p className={`text-[13px] mb-3 ${mutedText}`}>
+          Download every movie, watchlist entry, video, comment, rating and user (without passwords).
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('json')} disabled={busy} className={buttonClass}>
+            <Download className="size-4" />
+            JSON archive
+          </button>
+          <button onClick={() => handleExport('csv')} disabled={busy} className={buttonClass}>
+            <Download className="size-4" />
+            Movies CSV
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h3 className={headingClass}>Restore</h3>
+        <p className={`text-[13px] mb-3 ${mutedText}`}>
+          Load a JSON archive. Records that differ from what is stored are reported as conflicts and skipped unless you overwrite them.
+        </p>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+          className={`text-[13px] mb-3 block ${isDarkMode ? 'text-gray-200' : ''}`}
+        />
+        <div className={`flex flex-wrap gap-4 mb-3 text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+            Dry run (don't write anything)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={overwrite} onChange={(e) => setOverwrite(e.target.checked)} />
+            Overwrite conflicting records
+          </label>
+        </div>
+        <button onClick={handleRestore} disabled={busy || !archive} className={buttonClass}>
+          <Upload className="size-4" />
+          {dryRun ? 'Check archive' : 'Restore archive'}
+        </button>
+      </section>
+
+      {message && (
+        <div className={`p-3 rounded-lg text-[13px] ${isDarkMode ? 'bg-red-900/50 text-red-200' : 'bg-red-50 text-red-800'}`}>
+          {message}
+        </div>
+      )}
+
+      {report && (
+        <section className={`text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          <h3 className={headingClass}>
+            {report.dryRun ? 'Dry run' : 'Restore'} report (archive version {report.version})
+          </h3>
+          <table className="w-full max-w-lg mb-3">
+            <thead>
+              <tr className={mutedText}>
+                <th className="text-left py-1">Section</th>
+                <th className="text-right py-1">New</th>
+                <th className="text-right py-1">Updated</th>
+                <th className="text-right py-1">Unchanged</th>
+                <th className="text-right py-1">Conflicts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(report.counts).map(([section, counts]) => (
+                <tr key={section}>
+                  <td className="py-1 capitalize">{section}</td>
+                  <td className="text-right py-1">{counts.created}</td>
+                  <td className="text-right py-1">{counts.updated}</td>
+                  <td className="text-right py-1">{counts.unchanged}</td>
+                  <td className="text-right py-1">{counts.conflicts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.conflicts.length > 0 && (
+            <ul className={`list-disc pl-5 max-h-48 overflow-y-auto ${mutedText}`}>
+              {report.conflicts.slice(0, 100).map((conflict, index) => (
+                <li key={index}>
+                  {conflict.key || conflict.section}: {conflict.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Play, X } from 'lucide-react';
+import { api, type Job, type JobType } from '../utils/api';
+
+const POLL_INTERVAL_MS = 2000;
+
+interface AdminJobsPanelProps {
+  isDarkMode: boolean;
+}
+
+const JOB_LABELS: Record<JobType, string> = {
+  'fix-plots': 'Repair plots',
+  'fetch-trailers': 'Fetch trailers',
+  'migrate-trailers': 'Convert trailer links',
+  'fix-runtimes': 'Repair runtimes',
+  'migrate-runtimes': 'Convert runtime labels',
+  reimport: 'Re-import metadata',
+  'refresh-metadata': 'Refresh ratings & posters',
+  'store-posters': 'Store hot-linked posters',
+  'check-media': 'Check for broken posters & trailers',
+};
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+// Start maintenance jobs and follow their progress. Jobs run on the server,
+// so the list is loaded from there and polling resumes after a reload.
+export function AdminJobsPanel({ isDarkMode }: AdminJobsPanelProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [type, setType] = useState<JobType>('fix-plots');
+  const [list, setList] = useState<'movies' | 'towatch'>('movies');
+  const [force, setForce] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadJobs = async () => {
+    try {
+      const data = await api('GET /jobs');
+      setJobs(data.jobs);
+    } catch (error) {
+      console.error('Error loading jobs:', error);
+      setMessage(`Could not load jobs: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const replaceJob = (job: Job) => {
+    setJobs((current) => [job, ...current.filter((j) => j.id !== job.id)]
+      .sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  // Poll running jobs until they finish
+  const activeIds = jobs.filter(isActive).map((job) => job.id).join(',');
+  useEffect(() => {
+    if (!activeIds) return;
+    const timer = setInterval(async () => {
+      for (const id of activeIds.split(',')) {
+        try {
+          const data = await api('GET /jobs/:id', { params: { id } });
+          replaceJob(data.job);
+        } catch (error) {
+          console.error('Error polling job:', error);
+        }
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeIds]);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const data = await api('POST /jobs', {
+        body: { type, list, force: type === 'fetch-trailers' && force },
+      });
+      replaceJob(data.job);
+      if (data.job.total === 0) setMessage('Nothing to do: no titles need this job.');
+    } catch (error) {
+      console.error('Error starting job:', error);
+      setMessage(`Could not start the job: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      const data = await api('POST /jobs/:id/cancel', { params: { id } });
+      replaceJob(data.job);
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      setMessage(`Could not cancel the job: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const buttonClass = `flex items-center gap-2 px-4 py-2 text-[13px] font-medium rounded-lg transition-colors disabled:opacity-50 ${
+    isDarkMode ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'
+  }`;
+  const selectClass = `h-9 rounded-lg border px-2 text-[13px] ${
+    isDarkMode ? 'bg-gray-900 border-gray-700 text-white' : 'bg-white border-gray-300 text-black'
+  }`;
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className={`space-y-6 text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={type} onChange={(e) => setType(e.target.value as JobType)} className={selectClass}>
+          {Object.entries(JOB_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={list} onChange={(e) => setList(e.target.value as 'movies' | 'towatch')} className={selectClass}>
+          <option value="movies">Library</option>
+          <option value="towatch">Watchlists</option>
+        </select>
+        {type === 'fetch-trailers' && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+            Replace existing trailers
+          </label>
+        )}
+        <button onClick={handleStart} disabled={busy} className={buttonClass}>
+          <Play className="size-4" />
+          Start job
+        </button>
+      </div>
+
+      {message && <p className={mutedText}>{message}</p>}
+
+      {jobs.length === 0 ? (
+        <p className={mutedText}>No jobs have run yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {jobs.map((job) => (
+            <li key={job.id} className={`p-3 rounded-lg border ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <span className="font-semibold">{JOB_LABELS[job.type]}</span>
+                  <span className={`ml-2 ${mutedText}`}>
+                    {job.params.list === 'towatch' ? 'watchlists' : 'library'} · {new Date(job.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="capitalize">{job.status}</span>
+                  {isActive(job) && (
+                    <button onClick={() => handleCancel(job.id)} className={mutedText} aria-label="Cancel job">
+                      <X className="size-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className={`h-1.5 mt-2 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+                <div
+                  className={isDarkMode ? 'h-full bg-white' : 'h-full bg-black'}
+                  style={{ width: `${job.total ? (job.cursor / job.total) * 100 : 100}%` }}
+                />
+              </div>
+              <p className={`mt-1 ${mutedText}`}>
+                {job.cursor} of {job.total} checked · {job.updated} updated · {job.skipped} skipped · {job.errors} errors
+              </p>
+              {job.error && <p className="mt-1 text-red-500">{job.error}</p>}
+              {job.recentErrors.length > 0 && (
+                <ul className={`mt-1 list-disc pl-5 max-h-32 overflow-y-auto ${mutedText}`}>
+                  {job.recentErrors.map((error, index) => (
+                    <li key={index}>{error.title}: {error.error}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Flag, RefreshCw } from 'lucide-react';
+import { api, type CommentModerationAction, type ModeratedComment, type ModerationLogEntry } from '../utils/api';
+
+interface CommentModerationPanelProps {
+  isDarkMode: boolean;
+}
+
+const ACTION_LABELS: Record<CommentModerationAction, string> = { hide: 'Hidden', restore: 'Restored', delete: 'Deleted' };
+
+// Reported comments waiting for a decision, comments already hidden, and the
+// log of every moderation action taken
+export function CommentModerationPanel({ isDarkMode }: CommentModerationPanelProps) {
+  const [comments, setComments] = useState<ModeratedComment[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    setMessage('');
+    try {
+      const [queue, history] = await Promise.all([api('GET /moderation/comments'), api('GET /moderation/log')]);
+      setComments(queue.comments);
+      setLog(history.entries);
+    } catch (error) {
+      console.error('Error loading moderation queue:', error);
+      setMessage(`Could not load the moderation queue: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const moderate = async (comment: ModeratedComment, action: CommentModerationAction) => {
+    if (action === 'delete' && !window.confirm('Delete this comment for good?')) return;
+    const note = window.prompt('Note for the moderation log (optional)') ?? undefined;
+
+    try {
+      await api('POST /moderation/comments/:movieId/:commentId', {
+        params: { movieId: comment.movieId, commentId: comment.id },
+        body: { action, note },
+      });
+      await loadQueue();
+    } catch (error) {
+      console.error('Error moderating comment:', error);
+      setMessage(`Could not ${action} the comment: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const border = isDarkMode ? 'border-gray-800' : 'border-gray-200';
+
+  return (
+    <div className={`space-y-4 text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <p className={mutedText}>Comments signed-in users reported, and comments you've hidden.</p>
+        <button onClick={loadQueue} disabled={isLoading} className={`flex items-center gap-1 ${mutedText}`}>
+          <RefreshCw className={`size-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Reload
+        </button>
+      </div>
+
+      {message && <p className="text-red-500">{message}</p>}
+
+      {!isLoading && comments.length === 0 && !message && (
+        <p className={mutedText}>No comments need attention.</p>
+      )}
+
+      <ul className="space-y-3">
+        {comments.map((comment) => (
+          <li key={comment.id} className={`p-3 rounded-lg border ${border}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <span className="font-semibold">{comment.username}</span>
+                {comment.guest && <span className={`ml-2 ${mutedText}`}>guest</span>}
+                <span className={`ml-2 ${mutedText}`}>
+                  on movie #{comment.movieId} · {new Date(comment.timestamp).toLocaleDateString()}
+                </span>
+                {comment.hiddenAt && (
+                  <span className={`ml-2 ${mutedText}`}>
+                    · hidden by {comment.hiddenBy} on {new Date(comment.hiddenAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-3 shrink-0">
+                {comment.hiddenAt ? (
+                  <button onClick={() => moderate(comment, 'restore')} className="font-medium hover:underline">
+                    Restore
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => moderate(comment, 'restore')} className="font-medium hover:underline">
+                      Dismiss reports
+                    </button>
+                    <button onClick={() => moderate(comment, 'hide')} className="font-medium hover:underline">
+                      Hide
+                    </button>
+                  </>
+                )}
+                <button onClick={() => moderate(comment, 'delete')} className="font-medium text-red-500 hover:underline">
+                  Delete
+                </button>
+              </div>
+            </div>
+            <p className="mt-1 whitespace-pre-wrap">{comment.text}</p>
+            {comment.reports.length > 0 && (
+              <ul className={`mt-2 space-y-1 ${mutedText}`}>
+                {comment.reports.map((report) => (
+                  <li key={report.userId} className="flex items-start gap-1">
+                    <Flag className="size-3 mt-0.5 shrink-0" />
+                    <span>
+                      {report.username}: {report.reason}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {log.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Moderation log</h3>
+          <ul className={`divide-y ${isDarkMode ? 'divide-gray-800' : 'divide-gray-200'}`}>
+            {log.map((entry) => (
+              <li key={entry.id} className="py-2">
+                <span className="font-medium">{ACTION_LABELS[entry.action]}</span> a comment by {entry.author}
+                <span className={mutedText}>
+                  {' '}· {entry.moderator}, {new Date(entry.at).toLocaleString()}
+                  {entry.reports.length > 0 && ` · ${entry.reports.length} report${entry.reports.length !== 1 ? 's' : ''}`}
+                </span>
+                {entry.note && <p className={mutedText}>Note: {entry.note}</p>}
+                <p className={`truncate ${mutedText}`}>“{entry.text}”</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
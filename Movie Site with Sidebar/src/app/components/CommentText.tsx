@@ -0,0 +1,98 @@
+import { useState, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { parseComment, type CommentToken } from '../utils/commentMarkup';
+import type { Comment } from '../utils/api';
+
+interface CommentTextProps {
+  text: string;
+  // What the comment's mentions and [[title]]s point at, as the server sent them
+  mentions?: Comment['mentions'];
+  movieLinks?: Comment['movieLinks'];
+  className?: string;
+}
+
+type Links = Pick<CommentTextProps, 'mentions' | 'movieLinks'>;
+
+const linkClass = 'font-medium text-blue-600 dark:text-blue-400 hover:underline';
+
+// Blurred until clicked, and clicking again hides it
+function Spoiler({ children }: { children: ReactNode }) {
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title={isRevealed ? 'Hide spoiler' : 'Spoiler: click to reveal'}
+      onClick={() => setIsRevealed(!isRevealed)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          setIsRevealed(!isRevealed);
+        }
+      }}
+      className={`rounded px-0.5 cursor-pointer transition-[filter] bg-gray-200 dark:bg-gray-600 ${
+        isRevealed ? '' : 'blur-sm select-none'
+      }`}
+    >
+      {/* Links inside a hidden spoiler can't be clicked */}
+      <span className={isRevealed ? '' : 'pointer-events-none'} aria-hidden={!isRevealed}>
+        {children}
+      </span>
+    </span>
+  );
+}
+
+const renderTokens = (tokens: CommentToken[], links: Links): ReactNode[] =>
+  tokens.map((token, index) => {
+    switch (token.type) {
+      case 'text':
+        return token.text;
+      case 'bold':
+        return <strong key={index}>{renderTokens(token.children, links)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderTokens(token.children, links)}</em>;
+      case 'spoiler':
+        return <Spoiler key={index}>{renderTokens(token.children, links)}</Spoiler>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={token.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 dark:text-blue-400 underline break-all"
+          >
+            {token.label}
+          </a>
+        );
+      case 'mention':
+        // Only names of existing accounts are links
+        return links.mentions?.includes(token.username.toLowerCase()) ? (
+          <Link key={index} to={`/user/${encodeURIComponent(token.username)}`} className={linkClass}>
+            @{token.username}
+          </Link>
+        ) : (
+          `@${token.username}`
+        );
+      case 'movie': {
+        // A title in the library links to it; one that several movies share
+        // links to a search for it, and one that matches nothing isn't a link
+        const slug = links.movieLinks?.[token.title.toLowerCase()];
+        if (slug === undefined) return token.title;
+        const to = slug === null ? `/?search=${encodeURIComponent(token.title)}` : `/movie/${slug}`;
+        return (
+          <Link key={index} to={to} className={linkClass}>
+            {token.title}
+          </Link>
+        );
+      }
+    }
+  });
+
+// A comment's text with its markup applied; see utils/commentMarkup
+export function CommentText({ text, mentions, movieLinks, className = '' }: CommentTextProps) {
+  return (
+    <p className={`whitespace-pre-wrap break-words ${className}`}>{renderTokens(parseComment(text), { mentions, movieLinks })}</p>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Flag, MessageSquare, Pencil, Trash2, User } from 'lucide-react';
+import { Button } from './ui/button';
+import { CommentText } from './CommentText';
+import { COMMENT_REACTIONS, type Comment, type CommentReaction } from '../utils/api';
+import { canDeleteComment, canEditComment, isCommentAuthor } from '../utils/permissions';
+
+// Replies deeper than this are shown at this depth rather than indented further
+const MAX_INDENT = 3;
+
+interface CommentThreadProps {
+  comment: Comment;
+  repliesByParent: Map<string, Comment[]>;
+  currentUser: any;
+  isDarkMode: boolean;
+  depth?: number;
+  // The handlers resolve to whether the change was saved, so the form can close
+  onReply: (parentId: string, text: string) => Promise<boolean>;
+  onEdit: (commentId: string, text: string) => Promise<boolean>;
+  onReport: (commentId: string) => void;
+  onDelete: (commentId: string) => void;
+  onReact: (comment: Comment, emoji: CommentReaction) => void;
+}
+
+// A comment with its reactions, actions and, nested below it, its replies
+export function CommentThread(props: CommentThreadProps) {
+  const { comment, repliesByParent, currentUser, isDarkMode, depth = 0, onReply, onEdit, onReport, onDelete, onReact } = props;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedText, setEditedText] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+
+  const replies = repliesByParent.get(comment.id) || [];
+  // What's left of a comment its author deleted, kept for its replies
+  const isDeleted = !!comment.deletedAt;
+  const textareaClass =
+    'w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none';
+  const iconButtonClass =
+    'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors';
+
+  const startEditing = () => {
+    setEditedText(comment.text);
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!editedText.trim()) return;
+    if (await onEdit(comment.id, editedText.trim())) setIsEditing(false);
+  };
+
+  const sendReply = async () => {
+    if (!replyText.trim()) return;
+    if (await onReply(comment.id, replyText.trim())) {
+      setReplyText('');
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="border dark:border-gray-700 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+        <div className="flex items-start gap-3">
+          {/* Profile Picture */}
+          <div className={`w-10 h-10 rounded-full flex items-center justify-center overflow-hidden shrink-0 ${isDarkMode ? 'bg-gray-600' : 'bg-gray-200'}`}>
+            {comment.profilePicture ? (
+              <img src={comment.profilePicture} alt={comment.username} className="w-full h-full object-cover" />
+            ) : (
+              <User className={`size-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+            )}
+          </div>
+
+          {/* Comment Content */}
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between items-start mb-1">
+              <div>
+                <span className={`text-[13px] ${isDeleted ? 'italic text-gray-500 dark:text-gray-400' : 'font-semibold dark:text-white'}`}>
+                  {comment.username}
+                </span>
+                {comment.guest && (
+                  <span className="text-[10px] uppercase tracking-wide text-gray-500 dark:text-gray-400 border dark:border-gray-600 rounded px-1 ml-2">
+                    Guest
+                  </span>
+                )}
+                <span className="text-[11px] text-gray-500 dark:text-gray-400 ml-2">
+                  {new Date(comment.timestamp).toLocaleDateString()}
+                  {comment.editedAt && ' · edited'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                {canEditComment(currentUser, comment) && !isEditing && (
+                  <button onClick={startEditing} title="Edit comment" className={iconButtonClass}>
+                    <Pencil className="size-4" />
+                  </button>
+                )}
+                {currentUser && !isDeleted && !isCommentAuthor(currentUser, comment) && (
+                  <button onClick={() => onReport(comment.id)} title="Report comment" className={iconButtonClass}>
+                    <Flag className="size-4" />
+                  </button>
+                )}
+                {/* Only the author or an admin can delete; an admin's delete takes the replies too */}
+                {canDeleteComment(currentUser, comment) && (
+                  <button
+                    onClick={() => onDelete(comment.id)}
+                    title={
+                      replies.length > 0 && !isCommentAuthor(currentUser, comment)
+                        ? 'Delete comment and its replies'
+                        : 'Delete comment'
+                    }
+                    className="text-red-600 hover:text-red-700 dark:text-red-500 dark:hover:text-red-400 transition-colors"
+                  >
+                    <Trash2 className="size-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isDeleted ? (
+              <p className="italic text-gray-500 dark:text-gray-400 text-[13px]">{comment.text}</p>
+            ) : isEditing ? (
+              <div className="space-y-2">
+                <textarea value={editedText} onChange={(e) => setEditedText(e.target.value)} rows={3} className={textareaClass} />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={saveEdit}>Save</Button>
+                  <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+                </div>
+              </div>
+            ) : (
+              <CommentText
+                text={comment.text}
+                mentions={comment.mentions}
+                movieLinks={comment.movieLinks}
+                className="text-gray-700 dark:text-gray-300 text-[13px] leading-relaxed" />
+            )}
+
+            {/* Reactions: every emoji someone used, and for signed-in users the rest to pick from */}
+            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+              {!isDeleted && COMMENT_REACTIONS.map((emoji) => {
+                const count = comment.reactions?.[emoji] ?? 0;
+                const reacted = comment.myReactions?.includes(emoji) ?? false;
+                if (!count && !currentUser) return null;
+                return (
+                  <button
+                    key={emoji}
+                    onClick={() => currentUser && onReact(comment, emoji)}
+                    disabled={!currentUser}
+                    title={currentUser ? (reacted ? 'Remove your reaction' : 'React') : 'Sign in to react'}
+                    className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[12px] transition-colors ${
+                      reacted
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                        : count
+                        ? 'border-gray-300 dark:border-gray-600'
+                        : 'border-transparent opacity-50 hover:opacity-100'
+                    }`}
+                  >
+                    <span>{emoji}</span>
+                    {count > 0 && <span className="text-gray-600 dark:text-gray-300">{count}</span>}
+                  </button>
+                );
+              })}
+              <button
+                onClick={() => setIsReplying(!isReplying)}
+                className={`flex items-center gap-1 ml-1 text-[12px] ${iconButtonClass}`}
+              >
+                <MessageSquare className="size-3.5" />
+                Reply
+              </button>
+            </div>
+
+            {isReplying && (
+              <div className="space-y-2 mt-3">
+                <textarea
+                  placeholder={`Reply to ${comment.username}...`}
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  rows={2}
+                  className={textareaClass}
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={sendReply}>Reply</Button>
+                  <Button size="sm" variant="outline" onClick={() => setIsReplying(false)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {replies.length > 0 && (
+        <div className={`space-y-3 mt-3 ${depth < MAX_INDENT ? 'ml-6 pl-3 border-l-2 dark:border-gray-700' : ''}`}>
+          {replies.map((reply) => (
+            <CommentThread key={reply.id} {...props} comment={reply} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
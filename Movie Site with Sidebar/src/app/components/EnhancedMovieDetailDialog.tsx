@@ -9,6 +9,7 @@ import {
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Movie } from "./MovieCard";
+import { trailerEmbedUrl } from "../utils/trailers";
 import { useState, useEffect } from "react";
 import type { Comment } from "./MovieDetailDialog";
 
@@ -156,16 +157,7 @@ export function EnhancedMovieDetailDialog({
     setPendingAction(null);
   };
 
-  const getYouTubeEmbedUrl = (url?: string) => {
-    if (!url) return null;
-    const videoIdMatch = url.match(/(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/);
-    if (videoIdMatch && videoIdMatch[1]) {
-      return `https://www.youtube.com/embed/${videoIdMatch[1]}`;
-    }
-    return null;
-  };
-
-  const embedUrl = getYouTubeEmbedUrl(movie.trailer);
+  const embedUrl = trailerEmbedUrl(movie.trailer);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -561,10 +553,7 @@ export function EnhancedMovieDetailDialog({
               >
                 Cancel
               </Button>
-              <Button
-                onClick={handlePasswordSubmit}
-                variant="primary"
-              >
+              <Button onClick={handlePasswordSubmit}>
                 Submit
               </Button>
             </div>
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { Button } from "./ui/button";
 import type { Movie } from "./MovieCard";
 import type { Comment } from "./MovieDetailDialog";
+import type { MovieFacets } from "../utils/movieQuery";
+import { commentPreview } from "../utils/commentMarkup";
 
 interface FilterSidebarProps {
   selectedGenres: string[];
@@ -13,7 +15,9 @@ interface FilterSidebarProps {
   onYearChange: (year: number, checked: boolean) => void;
   onTryMyLuck?: () => void;
   comments?: Comment[];
-  movies?: Movie[];
+  movies?: Movie[]; // Movies referenced by `comments`
+  topRatedMovies?: Movie[];
+  facets?: MovieFacets | null;
   onCommentClick?: (movie: Movie) => void;
   imdbRatingRange?: [number, number];
   onImdbRatingChange?: (range: [number, number]) => void;
@@ -60,6 +64,8 @@ export function FilterSidebar({
   onTryMyLuck,
   comments,
   movies,
+  topRatedMovies,
+  facets,
   onCommentClick,
   imdbRatingRange,
   onImdbRatingChange,
@@ -75,6 +81,16 @@ export function FilterSidebar({
   // Use availableYears if provided, otherwise use the default range
   const displayYears = availableYears && availableYears.length > 0 ? availableYears : years;
 
+  // Prefer the dedicated top rated list; otherwise rank whatever movies we were given
+  const ratedMovies = (topRatedMovies ?? movies ?? [])
+    .filter(m => m.userRating && m.userRating > 0)
+    .sort((a, b) => (b.userRating || 0) - (a.userRating || 0))
+    .slice(0, 5);
+
+  // Number of results a filter value would match, shown next to it when known
+  const renderCount = (count?: number) =>
+    facets ? <span className="ml-1 opacity-50">{count || 0}</span> : null;
+
   return (
     <aside className="w-full md:w-64 md:border-r p-6" style={{ background: 'transparent' }}>
       <h2 className="text-sm font-bold tracking-tight mb-6 hidden md:block dark:text-white">Navigation panel</h2>
@@ -156,6 +172,7 @@ export function FilterSidebar({
               }`}
             >
               {genre}
+              {renderCount(facets?.genres[genre])}
             </button>
           ))}
         </div>
@@ -200,6 +217,7 @@ export function FilterSidebar({
                   }`}
                 >
                   Short (≤ 90 min)
+                  {renderCount(facets?.runtime.short)}
                 </button>
                 {runtimeFilter === 'short' && (
                   <button
@@ -218,6 +236,7 @@ export function FilterSidebar({
                   }`}
                 >
                   Medium (90-150 min)
+                  {renderCount(facets?.runtime.medium)}
                 </button>
                 {runtimeFilter === 'medium' && (
                   <button
@@ -236,6 +255,7 @@ export function FilterSidebar({
                   }`}
                 >
                   Long (≥ 150 min)
+                  {renderCount(facets?.runtime.long)}
                 </button>
                 {runtimeFilter === 'long' && (
                   <button
@@ -254,6 +274,7 @@ export function FilterSidebar({
                   }`}
                 >
                   1 Season
+                  {renderCount(facets?.runtime.oneSeason)}
                 </button>
                 {runtimeFilter === 'oneSeason' && (
                   <button
@@ -272,6 +293,7 @@ export function FilterSidebar({
                   }`}
                 >
                   More than 1 Season
+                  {renderCount(facets?.runtime.multiSeason)}
                 </button>
                 {runtimeFilter === 'multiSeason' && (
                   <button
@@ -305,6 +327,7 @@ export function FilterSidebar({
                   }`}
                 >
                   {tag}
+                  {renderCount(facets?.tags[tag])}
                 </button>
               ))}
             </div>
@@ -313,32 +336,28 @@ export function FilterSidebar({
       )}
 
       {/* Top Rated Section */}
-      {movies && movies.length > 0 && (
+      {(topRatedMovies || (movies && movies.length > 0)) && (
         <>
           <Separator className="my-6 dark:bg-gray-600" />
           <div className="mb-6">
             <h3 className="text-[10px] font-semibold uppercase tracking-wide mb-3 dark:text-white opacity-60">Top Rated (Your Ratings)</h3>
             <div className="space-y-2">
-              {movies
-                .filter(m => m.userRating && m.userRating > 0)
-                .sort((a, b) => (b.userRating || 0) - (a.userRating || 0))
-                .slice(0, 5)
-                .map((movie) => (
-                  <button
-                    key={movie.id}
-                    onClick={() => onCommentClick && onCommentClick(movie)}
-                    className="w-full text-left bg-blue-50 dark:bg-gray-700 hover:bg-blue-100 dark:hover:bg-gray-600 p-2 rounded-lg border dark:border-gray-600 transition-colors"
-                  >
-                    <p className="text-xs font-semibold text-gray-900 dark:text-white line-clamp-1">
-                      {movie.title}
-                    </p>
-                    <div className="flex items-center gap-1 mt-1">
-                      <span className="text-xs text-blue-600 dark:text-blue-400 font-bold">★ {movie.userRating}</span>
-                      <span className="text-xs text-gray-500 dark:text-gray-400">({movie.year})</span>
-                    </div>
-                  </button>
-                ))}
-              {movies.filter(m => m.userRating && m.userRating > 0).length === 0 && (
+              {ratedMovies.map((movie) => (
+                <button
+                  key={movie.id}
+                  onClick={() => onCommentClick && onCommentClick(movie)}
+                  className="w-full text-left bg-blue-50 dark:bg-gray-700 hover:bg-blue-100 dark:hover:bg-gray-600 p-2 rounded-lg border dark:border-gray-600 transition-colors"
+                >
+                  <p className="text-xs font-semibold text-gray-900 dark:text-white line-clamp-1">
+                    {movie.title}
+                  </p>
+                  <div className="flex items-center gap-1 mt-1">
+                    <span className="text-xs text-blue-600 dark:text-blue-400 font-bold">★ {movie.userRating}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">({movie.year})</span>
+                  </div>
+                </button>
+              ))}
+              {ratedMovies.length === 0 && (
                 <p className="text-xs text-gray-500 dark:text-gray-400 italic">No rated movies yet</p>
               )}
             </div>
@@ -360,11 +379,12 @@ export function FilterSidebar({
                   const movie = movies.find(m => m.id === comment.movieId);
                   if (!movie) return null;
                   
-                  // Truncate comment to first 6 words if longer
-                  const words = comment.text.split(' ');
+                  // Truncate comment to first 6 words if longer, with spoilers and markup left out
+                  const preview = commentPreview(comment.text);
+                  const words = preview.split(' ');
                   const displayText = words.length > 6 
                     ? words.slice(0, 6).join(' ') + '...'
-                    : comment.text;
+                    : preview;
                   
                   return (
                     <button
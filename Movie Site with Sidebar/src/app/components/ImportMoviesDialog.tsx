@@ -0,0 +1,299 @@
+import { useMemo, useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Movie } from "./MovieCard";
+import {
+  IMPORT_FIELDS,
+  commitImport,
+  defaultTableName,
+  guessMapping,
+  previewImport,
+  readImportFile,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportSource,
+  type ImportSummary,
+} from "../utils/movieImport";
+
+interface ImportMoviesDialogProps {
+  list: "movies" | "towatch";
+  existingMovies: Movie[]; // Movies already in the target list, for duplicate checking
+  onImported: () => void;
+}
+
+const PREVIEW_ROWS = 50;
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  imdb: "IMDb export",
+  letterboxd: "Letterboxd export",
+  csv: "CSV file",
+};
+
+const STATUS_STYLES = {
+  new: "text-green-600 dark:text-green-400",
+  duplicate: "text-gray-500 dark:text-gray-400",
+  invalid: "text-red-600 dark:text-red-400",
+};
+
+const selectClassName = "h-9 w-full rounded-md border px-2 text-sm bg-background dark:bg-gray-700 dark:text-white dark:border-gray-600";
+
+export function ImportMoviesDialog({ list, existingMovies, onImported }: ImportMoviesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [tableName, setTableName] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState("");
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const table = source?.tables.find((t) => t.name === tableName)?.table ?? null;
+
+  const rows = useMemo(
+    () => (table ? previewImport(table, mapping, existingMovies) : []),
+    [table, mapping, existingMovies]
+  );
+  const newRows = rows.filter((row) => row.status === "new");
+  const duplicateCount = rows.filter((row) => row.status === "duplicate").length;
+  const invalidCount = rows.filter((row) => row.status === "invalid").length;
+
+  const reset = () => {
+    setSource(null);
+    setTableName("");
+    setMapping({});
+    setError("");
+    setProgress({ done: 0, total: 0 });
+    setSummary(null);
+  };
+
+  const selectTable = (importSource: ImportSource, name: string) => {
+    const selected = importSource.tables.find((t) => t.name === name);
+    setTableName(name);
+    setMapping(selected ? guessMapping(selected.table.headers) : {});
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const importSource = await readImportFile(file);
+      setSource(importSource);
+      selectTable(importSource, defaultTableName(importSource, list));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the file.");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const movies = newRows.map((row) => row.movie!);
+    setImporting(true);
+    setError("");
+    setProgress({ done: 0, total: movies.length });
+
+    try {
+      const result = await commitImport(list, movies, (done, total) => setProgress({ done, total }));
+      setSummary(result);
+      onImported();
+    } catch (err) {
+      setError(`Import stopped: ${err instanceof Error ? err.message : err}`);
+      onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (importing) return; // Keep the dialog open until the last batch is sent
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline" className="flex items-center gap-2 text-sm font-medium border-2 dark:bg-black dark:text-white dark:border-gray-700">
+          <Upload className="size-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto bg-background dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">
+            Import into {list === "towatch" ? "your watchlist" : "the library"}
+          </DialogTitle>
+          <DialogDescription className="dark:text-gray-300">
+            Upload an IMDb ratings or watchlist CSV, a Letterboxd export ZIP or any CSV with a title column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="import-file" className="dark:text-gray-200">File</Label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.zip,text/csv,application/zip"
+              disabled={importing}
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              className="text-sm dark:text-gray-200"
+            />
+            {reading && <p className="text-sm text-gray-500 dark:text-gray-400">Reading file...</p>}
+          </div>
+
+          {source && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-sm dark:text-gray-200">
+                <span className="font-medium">{FORMAT_LABELS[source.format]}</span>
+                {source.tables.length > 1 && (
+                  <select
+                    value={tableName}
+                    onChange={(e) => selectTable(source, e.target.value)}
+                    disabled={importing}
+                    className={`${selectClassName} w-auto`}
+                  >
+                    {source.tables.map((t) => (
+                      <option key={t.name} value={t.name}>
+                        {t.name} ({t.table.rows.length})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {/* Column mapping */}
+              {table && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {IMPORT_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="grid gap-1">
+                      <Label className="text-xs dark:text-gray-300">{label}</Label>
+                      <select
+                        value={mapping[key] ?? ""}
+                        disabled={importing}
+                        onChange={(e) =>
+                          setMapping({ ...mapping, [key as ImportField]: e.target.value || undefined })
+                        }
+                        className={selectClassName}
+                      >
+                        <option value="">Not imported</option>
+                        {table.headers.map((header) => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="text-sm dark:text-gray-200">
+                <span className="text-green-600 dark:text-green-400">{newRows.length} new</span>
+                {" · "}
+                <span>{duplicateCount} already in the list</span>
+                {" · "}
+                <span className="text-red-600 dark:text-red-400">{invalidCount} invalid</span>
+              </div>
+              {rows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border rounded-md dark:border-gray-600">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 dark:text-gray-200">
+                      <tr>
+                        <th className="text-left px-2 py-1">Line</th>
+                        <th className="text-left px-2 py-1">Title</th>
+                        <th className="text-left px-2 py-1">Year</th>
+                        <th className="text-left px-2 py-1">IMDb</th>
+                        <th className="text-left px-2 py-1">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="dark:text-gray-300">
+                      {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                        <tr key={row.line} className="border-t dark:border-gray-700">
+                          <td className="px-2 py-1">{row.line}</td>
+                          <td className="px-2 py-1">{row.movie?.title || "—"}</td>
+                          <td className="px-2 py-1">{row.movie?.year || ""}</td>
+                          <td className="px-2 py-1">{row.movie?.imdbId || ""}</td>
+                          <td className={`px-2 py-1 ${STATUS_STYLES[row.status]}`}>
+                            {row.reason || "New"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {rows.length > PREVIEW_ROWS && (
+                    <p className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+                      and {rows.length - PREVIEW_ROWS} more rows
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {(importing || summary) && progress.total > 0 && (
+            <div className="grid gap-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Imported {progress.done} of {progress.total}
+              </p>
+            </div>
+          )}
+
+          {summary && (
+            <div className="text-sm dark:text-gray-200">
+              <p>
+                Added {summary.created}, skipped {summary.duplicates} already in the list
+                {summary.failed > 0 && `, ${summary.failed} failed`}.
+              </p>
+              {summary.errors.length > 0 && (
+                <ul className="mt-1 list-disc pl-5 text-xs text-red-600 dark:text-red-400">
+                  {summary.errors.slice(0, 10).map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={importing}
+            onClick={() => {
+              setOpen(false);
+              reset();
+            }}
+            className="dark:bg-gray-700 dark:text-white dark:border-gray-600 dark:hover:bg-gray-600"
+          >
+            {summary ? "Close" : "Cancel"}
+          </Button>
+          {!summary && (
+            <Button onClick={handleImport} disabled={importing || newRows.length === 0 || !mapping.title}>
+              {importing ? "Importing..." : `Import ${newRows.length} ${newRows.length === 1 ? "title" : "titles"}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import { X } from 'lucide-react';
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
+import { saveSession } from '../utils/session';
+import { api, ApiError } from '../utils/api';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -12,8 +13,6 @@ interface LoginModalProps {
 
 type ModalView = 'login' | 'create-account' | 'forgot-password';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-ea58c774`;
-
 export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: LoginModalProps) {
   const navigate = useNavigate();
   const [view, setView] = useState<ModalView>('login');
@@ -42,25 +41,10 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
     setLoading(true);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ username, password }),
-      });
-      
-      const data = await response.json();
+      const data = await api('POST /auth/login', { body: { username, password } });
       
-      if (!data.success) {
-        setError(data.error || 'Login failed');
-        setLoading(false);
-        return;
-      }
-      
-      // Store user data in localStorage
-      localStorage.setItem('currentUser', JSON.stringify(data.user));
+      // Store user data and session token in localStorage
+      saveSession(data.user, data.token);
       
       if (setCurrentUser) {
         setCurrentUser(data.user);
@@ -69,7 +53,7 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
       navigate('/profile');
     } catch (err) {
       console.error('Login error:', err);
-      setError('An error occurred during login. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'An error occurred during login. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -81,25 +65,10 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
     setLoading(true);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/signup`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ username, email, password }),
-      });
-      
-      const data = await response.json();
+      const data = await api('POST /auth/signup', { body: { username, email, password } });
       
-      if (!data.success) {
-        setError(data.error || 'Account creation failed');
-        setLoading(false);
-        return;
-      }
-      
-      // Store user data in localStorage
-      localStorage.setItem('currentUser', JSON.stringify(data.user));
+      // Store user data and session token in localStorage
+      saveSession(data.user, data.token);
       
       if (setCurrentUser) {
         setCurrentUser(data.user);
@@ -108,7 +77,7 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
       navigate('/profile');
     } catch (err) {
       console.error('Signup error:', err);
-      setError('An error occurred during account creation. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'An error occurred during account creation. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -121,22 +90,7 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
     setLoading(true);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/forgot-password`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ email }),
-      });
-      
-      const data = await response.json();
-      
-      if (!data.success) {
-        setError(data.error || 'Password reset failed');
-        setLoading(false);
-        return;
-      }
+      const data = await api('POST /auth/forgot-password', { body: { email } });
       
       setSuccessMessage(data.message);
       setTimeout(() => {
@@ -144,7 +98,7 @@ export function LoginModal({ isOpen, onClose, isDarkMode, setCurrentUser }: Logi
       }, 2000);
     } catch (err) {
       console.error('Forgot password error:', err);
-      setError('An error occurred. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { api, type BrokenTitle } from '../utils/api';
+import { movieSlug } from '../utils/slugify';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+
+interface MediaReportPanelProps {
+  isDarkMode: boolean;
+}
+
+const MEDIA_LABELS = { poster: 'Poster', trailer: 'Trailer' };
+
+// Posters and trailers the "check-media" job found broken and couldn't
+// replace. Fixing one by hand on the title's page clears it from the report.
+export function MediaReportPanel({ isDarkMode }: MediaReportPanelProps) {
+  const navigate = useNavigate();
+  const [titles, setTitles] = useState<BrokenTitle[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    setMessage('');
+    try {
+      const data = await api('GET /media/report');
+      setTitles(data.titles);
+    } catch (error) {
+      console.error('Error loading broken media report:', error);
+      setMessage(`Could not load the report: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className={`space-y-4 text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <p className={mutedText}>
+          Run "Check for broken posters &amp; trailers" above to update this list.
+        </p>
+        <button onClick={loadReport} disabled={isLoading} className={`flex items-center gap-1 ${mutedText}`}>
+          <RefreshCw className={`size-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Reload
+        </button>
+      </div>
+
+      {message && <p className="text-red-500">{message}</p>}
+
+      {!isLoading && titles.length === 0 && !message && (
+        <p className={mutedText}>No broken posters or trailers need attention.</p>
+      )}
+
+      <ul className="space-y-3">
+        {titles.map((movie) => (
+          <li
+            key={`${movie.list}:${movie.id}`}
+            className={`flex gap-3 p-3 rounded-lg border ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}
+          >
+            <ImageWithFallback src={movie.image} alt={movie.title} className="w-10 h-15 object-cover rounded shrink-0" />
+            <div className="min-w-0">
+              <button
+                onClick={() => navigate(`/movie/${movieSlug(movie)}`)}
+                className="font-semibold text-left hover:underline"
+              >
+                {movie.title} ({movie.year})
+              </button>
+              {movie.list === 'towatch' && <span className={`ml-2 ${mutedText}`}>watchlist</span>}
+              <ul className="mt-1 space-y-1">
+                {(Object.keys(MEDIA_LABELS) as (keyof typeof MEDIA_LABELS)[]).map((kind) => {
+                  const issue = movie.brokenMedia[kind];
+                  if (!issue) return null;
+                  return (
+                    <li key={kind}>
+                      <span className="font-medium">{MEDIA_LABELS[kind]}:</span> {issue.reason}
+                      <span className={mutedText}>
+                        {' '}· broken since {new Date(issue.detectedAt).toLocaleDateString()}
+                      </span>
+                      <a
+                        href={issue.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className={`block truncate ${mutedText} hover:underline`}
+                      >
+                        {issue.url}
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -378,10 +378,7 @@ export function MovieDetailDialog({ movie, open, onOpenChange, onDelete, onUpdat
               >
                 Cancel
               </Button>
-              <Button
-                onClick={handlePasswordSubmit}
-                variant="primary"
-              >
+              <Button onClick={handlePasswordSubmit}>
                 Submit
               </Button>
             </div>
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import type { Movie } from './MovieCard';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { blurhashDataUrl, posterSrcSet } from '../utils/posters';
+
+interface PosterImageProps {
+  movie: Pick<Movie, 'title' | 'image' | 'poster'>;
+  // How wide the poster is displayed, so the browser can pick a variant
+  sizes: string;
+  className?: string;
+}
+
+// A movie poster. Stored posters are served as responsive WebP/JPEG variants
+// with their blurhash shown until the image has loaded; older titles fall back
+// to the plain image URL.
+export function PosterImage({ movie, sizes, className }: PosterImageProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const poster = movie.poster;
+
+  if (!poster || poster.url !== movie.image) {
+    return <ImageWithFallback src={movie.image} alt={movie.title} className={className} loading="lazy" />;
+  }
+
+  const placeholder = !isLoaded ? blurhashDataUrl(poster.blurhash) : null;
+
+  return (
+    <picture>
+      <source type="image/webp" srcSet={posterSrcSet(poster, 'webp')} sizes={sizes} />
+      <ImageWithFallback
+        src={poster.url}
+        srcSet={posterSrcSet(poster, 'jpeg')}
+        sizes={sizes}
+        alt={movie.title}
+        width={poster.width}
+        height={poster.height}
+        className={className}
+        loading="lazy"
+        onLoad={() => setIsLoaded(true)}
+        style={placeholder ? { backgroundImage: `url(${placeholder})`, backgroundSize: 'cover' } : undefined}
+      />
+    </picture>
+  );
+}
@@ -1,6 +1,7 @@
 import { Movie } from "./MovieCard";
 import { Star } from "lucide-react";
 import { useState, useEffect } from "react";
+import { PosterImage } from "./PosterImage";
 
 interface RecentMoviesCarouselProps {
   movies: Movie[];
@@ -76,11 +77,10 @@ export function RecentMoviesCarousel({ movies, onMovieClick }: RecentMoviesCarou
                   className="flex-shrink-0 w-[180px] rounded-lg shadow overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
                   onClick={() => onMovieClick?.(movie)}
                 >
-                  <img
-                    src={movie.image}
-                    alt={movie.title}
+                  <PosterImage
+                    movie={movie}
+                    sizes="180px"
                     className="w-full h-[270px] object-cover"
-                    loading="lazy"
                   />
                 </div>
               ))}
@@ -105,11 +105,10 @@ export function RecentMoviesCarousel({ movies, onMovieClick }: RecentMoviesCarou
                 style={{ width: 'calc(25% - 9px)' }}
                 onClick={() => onMovieClick?.(movie)}
               >
-                <img
-                  src={movie.image}
-                  alt={movie.title}
+                <PosterImage
+                  movie={movie}
+                  sizes="25vw"
                   className="w-full h-[140px] object-cover"
-                  loading="lazy"
                 />
               </div>
             ))}
@@ -1,18 +1,17 @@
 import { ArrowUpDown, ChevronDown } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
-
-export type SortOption = 'dateAdded' | 'dateAddedLatest' | 'title' | 'year' | 'imdbRating' | 'userRating' | 'communityRating';
+import type { MovieSort } from "../utils/api";
 
 interface SortDropdownProps {
-  value: SortOption;
-  onChange: (value: SortOption) => void;
+  value: MovieSort;
+  onChange: (value: MovieSort) => void;
 }
 
 export function SortDropdown({ value, onChange }: SortDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const sortOptions: { value: SortOption; label: string }[] = [
+  const sortOptions: { value: MovieSort; label: string }[] = [
     { value: 'dateAdded', label: 'Date Added (Newest)' },
     { value: 'dateAddedLatest', label: 'Date Added (Latest)' },
     { value: 'title', label: 'Title (A-Z)' },
@@ -20,6 +19,7 @@ export function SortDropdown({ value, onChange }: SortDropdownProps) {
     { value: 'imdbRating', label: 'IMDb Rating' },
     { value: 'communityRating', label: 'Community Rating' },
     { value: 'userRating', label: 'Your Rating' },
+    { value: 'runtime', label: 'Runtime (Shortest)' },
   ];
 
   const currentLabel = sortOptions.find(opt => opt.value === value)?.label || 'Sort by';
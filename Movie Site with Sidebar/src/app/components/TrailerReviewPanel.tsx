@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { api, type PendingTrailer } from '../utils/api';
+import { movieSlug } from '../utils/slugify';
+import { trailerEmbedUrl } from '../utils/trailers';
+
+interface TrailerReviewPanelProps {
+  isDarkMode: boolean;
+}
+
+// Trailers the resolvers weren't sure about. Curators watch each one and
+// approve it, or reject it so the title can be resolved again.
+export function TrailerReviewPanel({ isDarkMode }: TrailerReviewPanelProps) {
+  const navigate = useNavigate();
+  const [queue, setQueue] = useState<PendingTrailer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const loadQueue = async () => {
+    setIsLoading(true);
+    try {
+      const data = await api('GET /trailers/review');
+      setQueue(data.movies);
+    } catch (error) {
+      console.error('Error loading trailer review queue:', error);
+      setMessage(`Could not load the review queue: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const handleReview = async (movie: PendingTrailer, action: 'approve' | 'reject') => {
+    try {
+      await api('POST /trailers/review/:id', { params: { id: movie.id }, body: { action } });
+      setQueue((current) => current.filter((m) => m.id !== movie.id));
+    } catch (error) {
+      console.error('Error reviewing trailer:', error);
+      setMessage(`Could not ${action} the trailer: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  if (isLoading) {
+    return <p className={`text-[13px] ${mutedText}`}>Loading...</p>;
+  }
+
+  return (
+    <div className={`space-y-4 text-[13px] ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+      {message && <p className="text-red-500">{message}</p>}
+      {queue.length === 0 ? (
+        <p className={mutedText}>No trailers are waiting for review.</p>
+      ) : (
+        queue.map((movie) => (
+          <div key={movie.id} className={`p-3 rounded-lg border ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <button
+                onClick={() => navigate(`/movie/${movieSlug(movie)}`)}
+                className="font-semibold text-left hover:underline"
+              >
+                {movie.title} ({movie.year})
+              </button>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleReview(movie, 'approve')}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-white"
+                >
+                  <Check className="size-4" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReview(movie, 'reject')}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white"
+                >
+                  <X className="size-4" />
+                  Reject
+                </button>
+              </div>
+            </div>
+            <p className={`mb-2 ${mutedText}`}>
+              {movie.trailer.title || movie.trailer.videoId} · found by {movie.trailer.resolver} ·{' '}
+              {Math.round(movie.trailer.confidence * 100)}% confidence
+              {movie.trailer.language && ` · ${movie.trailer.language}`}
+            </p>
+            <div className="aspect-video max-w-md rounded-lg overflow-hidden bg-black">
+              <iframe
+                src={trailerEmbedUrl(movie.trailer) || ''}
+                className="w-full h-full"
+                allowFullScreen
+                loading="lazy"
+                title={`${movie.title} trailer candidate`}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -3,27 +3,21 @@ import { useState, useEffect } from 'react';
 import { ArrowLeft, Star, Calendar, Clock, Film, Users, ExternalLink, Trash2, Search, X, User, Check, Tag, ChevronRight, ChevronLeft, Play, FileText, Pencil } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
-import { Movie } from '../components/MovieCard';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
+import { Movie, NewMovie } from '../components/MovieCard';
 import { DarkModeToggle } from '../components/DarkModeToggle';
 import { LoginModal } from '../components/LoginModal';
 import { AddMovieDialog } from '../components/AddMovieDialog';
 import { RecentMoviesCarousel } from '../components/RecentMoviesCarousel';
 import { ImageWithFallback } from '../components/figma/ImageWithFallback';
-import { createSlug, decodeSlug } from '../utils/slugify';
+import { PosterImage } from '../components/PosterImage';
+import { movieSlug } from '../utils/slugify';
+import { fetchMoviePage, type MovieQueryParams } from '../utils/movieQuery';
+import { CommentThread } from '../components/CommentThread';
+import { ApiError, api, type Comment, type CommentReaction, type CommentSort } from '../utils/api';
+import { canCurate, canEditWatchlistEntry, isAdmin, isCommentAuthor } from '../utils/permissions';
+import { VIDEO_LABELS, asTrailer, trailerEmbedUrl, trailerThumbnail, type Video } from '../utils/trailers';
 const logoImage = 'https://i.imgur.com/vUiVqow.png?direct';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-ea58c774`;
-
-interface Comment {
-  id: number;
-  movieId: number;
-  username: string;
-  text: string;
-  timestamp: number;
-  profilePicture?: string;
-}
-
 interface MovieDetailPageProps {
   currentUser: any;
   setCurrentUser: (user: any) => void;
@@ -36,7 +30,9 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
   const [isLoading, setIsLoading] = useState(true);
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
-  const [username, setUsername] = useState('');
+  const [guestName, setGuestName] = useState('');
+  const [commentError, setCommentError] = useState('');
+  const [commentSort, setCommentSort] = useState<CommentSort>('newest');
   const [userRating, setUserRating] = useState<number>(0);
   const [hoverRating, setHoverRating] = useState<number>(0);
   const [similarMovies, setSimilarMovies] = useState<Movie[]>([]);
@@ -51,50 +47,31 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
   const [ratingCount, setRatingCount] = useState<number>(0);
   const [recentMovies, setRecentMovies] = useState<Movie[]>([]);
   
-  // Password prompt state for deleting comments
-  const [showDeletePrompt, setShowDeletePrompt] = useState(false);
-  const [deletePassword, setDeletePassword] = useState('');
-  const [deletePasswordError, setDeletePasswordError] = useState('');
-  const [pendingDeleteCommentId, setPendingDeleteCommentId] = useState<number | null>(null);
-  const [pendingDeleteUsername, setPendingDeleteUsername] = useState('');
-  
-  // Password prompt state for updating poster
-  const [showPosterPrompt, setShowPosterPrompt] = useState(false);
-  const [posterPassword, setPosterPassword] = useState('');
-  const [posterPasswordError, setPosterPasswordError] = useState('');
+  // Poster update state
   const [newPosterUrl, setNewPosterUrl] = useState('');
   
   // Trailer state
   const [newTrailerUrl, setNewTrailerUrl] = useState('');
   
-  // Carousel state (poster/trailer toggle)
-  const [carouselView, setCarouselView] = useState<'poster' | 'trailer'>('poster');
+  // Carousel state: slide 0 is the poster with the title's details, the
+  // rest are the trailer and the title's other videos
+  const [carouselIndex, setCarouselIndex] = useState(0);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [newVideoUrl, setNewVideoUrl] = useState('');
+  const [newVideoType, setNewVideoType] = useState<Video['type']>('clip');
   
   // Trailer playing state - only load iframe when user clicks play
   const [isTrailerPlaying, setIsTrailerPlaying] = useState(false);
   
-  // Password prompt state for updating trailer
-  const [showTrailerPrompt, setShowTrailerPrompt] = useState(false);
-  const [trailerPassword, setTrailerPassword] = useState('');
-  const [trailerPasswordError, setTrailerPasswordError] = useState('');
-  
-  // Password prompt state for deleting movie
-  const [showDeleteMoviePrompt, setShowDeleteMoviePrompt] = useState(false);
-  const [deleteMoviePassword, setDeleteMoviePassword] = useState('');
-  const [deleteMoviePasswordError, setDeleteMoviePasswordError] = useState('');
-
   // Tags state
   const [newTag, setNewTag] = useState('');
   
   // Runtime update state
-  const [showRuntimePrompt, setShowRuntimePrompt] = useState(false);
-  const [runtimePassword, setRuntimePassword] = useState('');
-  const [runtimePasswordError, setRuntimePasswordError] = useState('');
   const [newRuntime, setNewRuntime] = useState('');
   const [isEditingRuntime, setIsEditingRuntime] = useState(false);
 
-  // For AddMovieDialog
-  const [allMovies, setAllMovies] = useState<Movie[]>([]);
+  // Search dropdown results
+  const [searchResults, setSearchResults] = useState<Movie[]>([]);
   
   // Track if this movie is from the "to watch" list
   const [isFromToWatch, setIsFromToWatch] = useState(false);
@@ -132,6 +109,39 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     }
   }, [titleSlug]);
 
+  // Titles from the library and the user's watchlist. Watchlists need a
+  // session, so guests only get the library.
+  const findInBothLists = async (params: MovieQueryParams, signal?: AbortSignal) => {
+    const [moviesPage, toWatchPage] = await Promise.all([
+      fetchMoviePage('movies', params, signal),
+      currentUser ? fetchMoviePage('towatch', params, signal) : null,
+    ]);
+    return [...moviesPage.movies, ...(toWatchPage?.movies ?? [])];
+  };
+
+  // Search both lists once typing pauses
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      return;
+    }
+    
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        setSearchResults(await findInBothLists({ q: query, pageSize: 8 }, controller.signal));
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Error searching movies:', error);
+      }
+    }, 250);
+    
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchQuery, currentUser]);
+
   // Load comments and rating after movie is loaded
   useEffect(() => {
     if (movie) {
@@ -140,20 +150,15 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     }
   }, [movie?.id, currentUser]);
 
+  useEffect(() => {
+    if (movie) loadComments();
+  }, [commentSort]);
+
   const loadRecentMovies = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/movies`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const data = await response.json();
-      
-      if (data.success) {
-        // Get 12 most recent movies
-        const recent = [...data.movies]
-          .sort((a, b) => b.id - a.id)
-          .slice(0, 12);
-        setRecentMovies(recent);
-      }
+      // Get 12 most recent movies
+      const page = await fetchMoviePage('movies', { sort: 'dateAdded', pageSize: 12 });
+      setRecentMovies(page.movies);
     } catch (error) {
       console.error('Error loading recent movies:', error);
     }
@@ -163,77 +168,72 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     try {
       setIsLoading(true);
       
-      // Load from main movies
-      const moviesResponse = await fetch(`${API_BASE_URL}/movies`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const moviesData = await moviesResponse.json();
+      // Look the movie up by its slug in either list
+      const data = await api('GET /movies/by-slug/:slug', { params: { slug: titleSlug! } });
+      const foundMovie = data.movie;
       
-      // Load from to watch
-      const toWatchResponse = await fetch(`${API_BASE_URL}/towatch`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const toWatchData = await toWatchResponse.json();
+      // The URL used an old slug (the title was edited), so switch to the current one
+      if (data.redirected && foundMovie.slug) {
+        navigate(`/movie/${foundMovie.slug}`, { replace: true });
+      }
       
-      // Combine and find the movie
-      const allMoviesData = [...moviesData.movies, ...toWatchData.movies];
-      setAllMovies(allMoviesData);
-      // Decode the slug and find movie by matching title
-      const decodedTitle = decodeSlug(titleSlug!);
-      const foundMovie = allMoviesData.find((m: Movie) => 
-        createSlug(m.title) === titleSlug || 
-        m.title.toLowerCase() === decodedTitle
-      );
+      setMovie(foundMovie);
+      // Don't set userRating here - let loadUserRating handle it
       
-      if (foundMovie) {
-        setMovie(foundMovie);
-        // Don't set userRating here - let loadUserRating handle it
-        
-        // Set the poster URL input to current poster by default
-        setNewPosterUrl(foundMovie.image);
-        
-        // Find recommended movies based on the first genre (randomly ordered)
-        if (foundMovie.genre) {
-          // Get the first genre from the current movie
-          const firstGenre = foundMovie.genre.split(',')[0].trim().toLowerCase();
-          
-          // Filter movies that have the same first genre
-          const filtered = allMoviesData.filter((m: Movie) => 
-            m.id !== foundMovie.id && // Exclude current movie
-            m.genre && 
-            m.genre.split(',').some((g: string) => 
-              g.trim().toLowerCase() === firstGenre
-            )
-          );
-          
-          // Randomize and take 5
-          const shuffled = filtered.sort(() => Math.random() - 0.5);
-          const similar = shuffled.slice(0, 5);
-          
-          setSimilarMovies(similar);
-        }
-        
-        // Check if this movie is from the "to watch" list
-        setIsFromToWatch(toWatchData.movies.some((m: Movie) => m.id === foundMovie.id));
-      }
+      // Set the poster URL input to where the current poster came from
+      setNewPosterUrl(foundMovie.poster?.source ?? foundMovie.image);
       
-      setIsLoading(false);
+      // Check if this movie is from the "to watch" list
+      setIsFromToWatch(data.list === 'towatch');
+      
+      loadSimilarMovies(foundMovie);
+      loadVideos(foundMovie.id);
+      setCarouselIndex(0);
+      setIsTrailerPlaying(false);
     } catch (error) {
       console.error('Error loading movie:', error);
+      setMovie(null);
+    } finally {
       setIsLoading(false);
     }
   };
 
+  const loadVideos = async (movieId: number) => {
+    try {
+      const data = await api('GET /movies/:id/videos', { params: { id: movieId } });
+      setVideos(data.videos);
+    } catch (error) {
+      console.error('Error loading videos:', error);
+      setVideos([]);
+    }
+  };
+
+  // Find recommended movies sharing the first genre (randomly ordered)
+  const loadSimilarMovies = async (foundMovie: Movie) => {
+    if (!foundMovie.genre) {
+      setSimilarMovies([]);
+      return;
+    }
+    
+    try {
+      const firstGenre = foundMovie.genre.split(',')[0].trim();
+      const filtered = (await findInBothLists({ genres: [firstGenre], pageSize: 50 }))
+        .filter((m) => m.id !== foundMovie.id); // Exclude current movie
+      
+      // Randomize and take 5
+      const shuffled = filtered.sort(() => Math.random() - 0.5);
+      setSimilarMovies(shuffled.slice(0, 5));
+    } catch (error) {
+      console.error('Error loading similar movies:', error);
+    }
+  };
+
   const loadComments = async () => {
     if (!movie) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/comments`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const data = await response.json();
-      
-      const movieComments = data.comments.filter((c: Comment) => c.movieId === movie.id);
-      setComments(movieComments.sort((a: Comment, b: Comment) => b.timestamp - a.timestamp));
+      // The server orders threads by `sort` and lists replies after them, oldest first
+      const data = await api('GET /comments/:movieId', { params: { movieId: movie.id }, query: { sort: commentSort } });
+      setComments(data.comments);
     } catch (error) {
       console.error('Error loading comments:', error);
     }
@@ -246,23 +246,18 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
 
     try {
       // Load community rating for this movie
-      const ratingsResponse = await fetch(`${API_BASE_URL}/ratings/${movie.id}`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const ratingsData = await ratingsResponse.json();
+      const ratingsData = await api('GET /ratings/:movieId', { params: { movieId: movie.id } });
       console.log('Community ratings data:', ratingsData);
       
-      if (ratingsData.success) {
-        setCommunityRating(ratingsData.average || 0);
-        setRatingCount(ratingsData.count || 0);
-        
-        // Update movie object with community rating
-        setMovie({
-          ...movie,
-          communityRating: ratingsData.average,
-          ratingCount: ratingsData.count
-        });
-      }
+      setCommunityRating(ratingsData.average || 0);
+      setRatingCount(ratingsData.count || 0);
+      
+      // Update movie object with community rating
+      setMovie({
+        ...movie,
+        communityRating: ratingsData.average,
+        ratingCount: ratingsData.count
+      });
 
       // Determine user identifier
       let userIdentifier = '';
@@ -275,248 +270,240 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
       console.log('Fetching ratings for user identifier:', userIdentifier);
 
       // Load user's personal rating
-      const userRatingsResponse = await fetch(`${API_BASE_URL}/user-ratings/${userIdentifier}`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const userData = await userRatingsResponse.json();
+      const userData = await api('GET /user-ratings/:userIdentifier', { params: { userIdentifier } });
       console.log('User ratings data:', userData);
       
-      if (userData.success && userData.userRatings) {
-        const rating = userData.userRatings[movie.id] || 0;
-        console.log(`User's rating for movie ${movie.id}:`, rating);
-        setUserRating(rating);
-      }
+      const rating = userData.userRatings[movie.id] || 0;
+      console.log(`User's rating for movie ${movie.id}:`, rating);
+      setUserRating(rating);
     } catch (error) {
       console.error('Error loading ratings:', error);
     }
   };
 
   const handleAddComment = async () => {
-    // For logged-in users, use their username automatically
-    const finalUsername = currentUser ? currentUser.username : username.trim();
-    
-    if (!newComment.trim() || !finalUsername) {
-      alert('Please fill in all fields (username and comment)');
+    if (!newComment.trim() || (!currentUser && !guestName.trim())) {
+      alert(currentUser ? 'Please write a comment' : 'Please fill in all fields (name and comment)');
       return;
     }
     
     if (!movie) return;
 
+    setCommentError('');
     try {
-      const comment = {
-        id: Date.now(),
-        movieId: movie.id,
-        username: finalUsername,
-        text: newComment.trim(),
-        timestamp: Date.now(),
-        profilePicture: currentUser?.profilePicture || ''
-      };
-
-      await fetch(`${API_BASE_URL}/comments`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(comment),
+      // Signed-in users always comment as themselves; guests give a name
+      await api('POST /comments', {
+        body: { movieId: movie.id, text: newComment.trim(), ...(currentUser ? {} : { guestName: guestName.trim() }) },
       });
 
       setNewComment('');
-      if (!currentUser) {
-        setUsername('');
-      }
       loadComments();
     } catch (error) {
       console.error('Error adding comment:', error);
+      setCommentError(error instanceof ApiError ? error.message : 'Could not post your comment. Please try again.');
     }
   };
 
-  const handleDeleteComment = async (commentId: number, commentUsername: string) => {
-    // If user is logged in and owns the comment, delete without password
-    if (currentUser && currentUser.username === commentUsername) {
-      const confirm = window.confirm('Are you sure you want to delete this comment?');
-      if (!confirm) return;
-      
-      try {
-        await fetch(`${API_BASE_URL}/comments/${commentId}`, {
-          method: 'DELETE',
-          headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-        });
-        loadComments();
-      } catch (error) {
-        console.error('Error deleting comment:', error);
-      }
-      return;
+  // Curators edit titles; deleting from the watched library is admin-only.
+  // Watchlist entries can be removed by the user whose list they're on.
+  const canEdit = canCurate(currentUser);
+  const trailer = asTrailer(movie?.trailer);
+  const canDeleteMovie = isFromToWatch ? canEditWatchlistEntry(currentUser, movie) : isAdmin(currentUser);
+  const canMarkAsWatched = isFromToWatch && canEdit && canEditWatchlistEntry(currentUser, movie);
+  // Extra videos follow the same rule as editing the title itself
+  const canEditVideos = isFromToWatch ? canEditWatchlistEntry(currentUser, movie) : canEdit;
+
+  // The primary trailer leads the video slides; attached videos that repeat it are skipped
+  const videoSlides = [
+    ...(trailer ? [{ key: 'trailer', ...trailer, label: 'Trailer', video: null as Video | null }] : []),
+    ...videos
+      .filter((video) => !(trailer && video.provider === trailer.provider && video.videoId === trailer.videoId))
+      .map((video) => ({ key: video.id, provider: video.provider, videoId: video.videoId, label: VIDEO_LABELS[video.type], video })),
+  ];
+  // Even without videos there is a second slide, where curators can add a trailer
+  const slideCount = Math.max(videoSlides.length, 1) + 1;
+  const isPosterView = carouselIndex === 0;
+  const currentSlide = isPosterView ? null : videoSlides[carouselIndex - 1] ?? null;
+
+  const showSlide = (index: number) => {
+    setCarouselIndex(index);
+    setIsTrailerPlaying(false);
+  };
+
+  // Replies hang off the comment they answer. The server leaves out replies
+  // under hidden comments, and any reply whose parent isn't listed goes with it.
+  const topLevelComments = comments.filter((comment) => !comment.parentId);
+  const repliesByParent = new Map<string, Comment[]>();
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    repliesByParent.set(comment.parentId, [...(repliesByParent.get(comment.parentId) || []), comment]);
+  }
+
+  const replaceComment = (updated: Comment) =>
+    setComments((current) => current.map((comment) => (comment.id === updated.id ? updated : comment)));
+
+  const handleReplyToComment = async (parentId: string, text: string) => {
+    if (!movie) return false;
+    if (!currentUser && !guestName.trim()) {
+      alert('Please enter your name above the comment box first');
+      return false;
     }
 
-    // For other cases, prompt for master password
-    setShowDeletePrompt(true);
-    setPendingDeleteCommentId(commentId);
-    setPendingDeleteUsername(commentUsername);
+    try {
+      await api('POST /comments', {
+        body: { movieId: movie.id, text, parentId, ...(currentUser ? {} : { guestName: guestName.trim() }) },
+      });
+      loadComments();
+      return true;
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      alert(`Failed to post reply: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
   };
 
-  const handleDeletePasswordSubmit = async () => {
-    if (!pendingDeleteCommentId) return;
+  const handleSaveComment = async (commentId: string, text: string) => {
+    if (!movie) return false;
 
-    // Check master password "hassle"
-    if (deletePassword !== 'hassle') {
-      setDeletePasswordError('Incorrect password');
-      return;
+    try {
+      const data = await api('PATCH /comments/:movieId/:commentId', {
+        params: { movieId: movie.id, commentId },
+        body: { text },
+      });
+      replaceComment(data.comment);
+      return true;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      alert(`Failed to edit comment: ${error instanceof Error ? error.message : error}`);
+      return false;
     }
+  };
+
+  // Clicking an emoji you've already given takes it back
+  const handleReactToComment = async (comment: Comment, emoji: CommentReaction) => {
+    if (!movie) return;
 
     try {
-      await fetch(`${API_BASE_URL}/comments/${pendingDeleteCommentId}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
+      const data = await api('POST /comments/:movieId/:commentId/reactions', {
+        params: { movieId: movie.id, commentId: comment.id },
+        body: { emoji, active: !comment.myReactions?.includes(emoji) },
       });
-      loadComments();
-      setShowDeletePrompt(false);
-      setDeletePassword('');
-      setDeletePasswordError('');
+      replaceComment(data.comment);
     } catch (error) {
-      console.error('Error deleting comment:', error);
-      setShowDeletePrompt(false);
-      setDeletePassword('');
-      setDeletePasswordError('');
+      console.error('Error reacting to comment:', error);
+      alert(`Failed to react: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  const handleRatingChange = async (rating: number) => {
+  const handleReportComment = async (commentId: string) => {
     if (!movie) return;
 
-    let userIdentifier = '';
+    const reason = window.prompt('Why should a moderator look at this comment?');
+    if (!reason?.trim()) return;
 
-    // If logged in, use their username
-    if (currentUser) {
-      userIdentifier = currentUser.username;
-    } else {
-      // For non-logged-in users, use anonymous ID
-      userIdentifier = getAnonymousUserId();
+    try {
+      await api('POST /comments/:movieId/:commentId/report', {
+        params: { movieId: movie.id, commentId },
+        body: { reason: reason.trim() },
+      });
+      alert('Thanks, a moderator will review this comment.');
+    } catch (error) {
+      console.error('Error reporting comment:', error);
+      alert(`Failed to report comment: ${error instanceof Error ? error.message : error}`);
     }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!movie) return;
+
+    // Authors leave the replies in place; a moderator's delete takes them too
+    const comment = comments.find((other) => other.id === commentId);
+    const takesReplies =
+      !!comment && !isCommentAuthor(currentUser, comment) && comments.some((other) => other.parentId === commentId);
+    const confirm = window.confirm(
+      takesReplies
+        ? 'Are you sure you want to delete this comment and its replies?'
+        : 'Are you sure you want to delete this comment?',
+    );
+    if (!confirm) return;
+
+    try {
+      await api('DELETE /comments/:movieId/:commentId', { params: { movieId: movie.id, commentId } });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      alert(`Failed to delete comment: ${error instanceof Error ? error.message : error}`);
+    }
+    loadComments();
+  };
+
+  const handleRatingChange = async (rating: number) => {
+    if (!movie) return;
+
+    // Signed-in users rate as themselves; guests send their anonymous ID
+    const userIdentifier = currentUser ? undefined : getAnonymousUserId();
 
     console.log('Submitting rating:', { movieId: movie.id, rating, userIdentifier });
 
     try {
       // Submit rating to the ratings API
-      const response = await fetch(`${API_BASE_URL}/ratings`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const data = await api('POST /ratings', {
+        body: {
           movieId: movie.id,
           rating: rating,
           userIdentifier: userIdentifier,
-        }),
+        },
       });
-
-      const data = await response.json();
       console.log('Rating submission response:', data);
       
-      if (data.success) {
-        setUserRating(rating);
-        console.log('Rating submitted successfully, reloading ratings...');
-        // Reload ratings to update community rating
-        await loadUserRating();
-      } else {
-        console.error('Failed to submit rating:', data.error);
-        alert(`Failed to submit rating: ${data.error}`);
-      }
+      setUserRating(rating);
+      console.log('Rating submitted successfully, reloading ratings...');
+      // Reload ratings to update community rating
+      await loadUserRating();
     } catch (error) {
       console.error('Error submitting rating:', error);
-      alert('Failed to submit rating. Please try again.');
-    }
-  };
-
-  const handleUpdatePoster = () => {
-    if (newPosterUrl.trim() !== '') {
-      setShowPosterPrompt(true);
-      setPosterPassword('');
-      setPosterPasswordError('');
+      alert(`Failed to submit rating: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  const handlePosterPasswordSubmit = async () => {
-    if (!movie) return;
-
-    // Check master password "hassle"
-    if (posterPassword !== 'hassle') {
-      setPosterPasswordError('Incorrect password');
-      return;
-    }
+  const handleUpdatePoster = async () => {
+    if (!movie || newPosterUrl.trim() === '') return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/movies/${movie.id}/poster`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ image: newPosterUrl }), // Changed from imageUrl to image
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to update poster');
-      }
+      const data = await api('PATCH /movies/:id/poster', { params: { id: movie.id }, body: { image: newPosterUrl } });
 
-      const data = await response.json();
       console.log('Poster updated successfully:', data);
       
-      // Update the movie state
-      setMovie({ ...movie, image: newPosterUrl });
+      // The server stores its own copy, so the image URL changes
+      setMovie(data.movie);
       setNewPosterUrl('');
-      setShowPosterPrompt(false);
-      setPosterPassword('');
-      setPosterPasswordError('');
       
       alert('Poster updated successfully!');
     } catch (error) {
       console.error('Error updating poster:', error);
-      setPosterPasswordError('Failed to update poster');
+      alert(`Failed to update poster: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  const handleDeleteMovie = () => {
-    setShowDeleteMoviePrompt(true);
-    setDeleteMoviePassword('');
-    setDeleteMoviePasswordError('');
-  };
-
-  const handleDeleteMoviePasswordSubmit = async () => {
+  const handleDeleteMovie = async () => {
     if (!movie) return;
 
-    // Check master password "hassle"
-    if (deleteMoviePassword !== 'hassle') {
-      setDeleteMoviePasswordError('Incorrect password');
-      return;
-    }
+    if (!window.confirm(`Are you sure you want to delete "${movie.title}"?`)) return;
 
     try {
-      await fetch(`${API_BASE_URL}/movies/${movie.id}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
+      await api(isFromToWatch ? 'DELETE /towatch/:id' : 'DELETE /movies/:id', { params: { id: movie.id } });
       
       // Navigate back to home after deleting
       navigate('/');
     } catch (error) {
       console.error('Error deleting movie:', error);
-      setDeleteMoviePasswordError('Failed to delete movie');
+      alert(`Failed to delete movie: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  const handleAddMovie = async (newMovie: Movie) => {
+  const handleAddMovie = async (newMovie: NewMovie) => {
     try {
       // Add to main movies collection
-      await fetch(`${API_BASE_URL}/movies`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(newMovie),
-      });
+      await api('POST /movies', { body: newMovie });
       
       // Reload movies list
       await loadMovieData();
@@ -532,41 +519,14 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     if (!confirmed) return;
 
     try {
-      // Get current movies to find max ID
-      const moviesRes = await fetch(`${API_BASE_URL}/movies`, {
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-      const moviesData = await moviesRes.json();
-      const currentMovies = moviesData.movies || [];
-      const maxId = currentMovies.length > 0 ? Math.max(...currentMovies.map((m: any) => m.id)) : 0;
-
-      // Delete from to-watch
-      await fetch(`${API_BASE_URL}/towatch/${movie.id}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-      });
-
-      // Add to main movies with updated timestamp and new ID
-      const movieToAdd = {
-        ...movie,
-        id: maxId + 1,
-        dateAdded: Date.now(), // Update the timestamp so it appears in recently added
-      };
-
-      await fetch(`${API_BASE_URL}/movies`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(movieToAdd),
-      });
+      // The server moves the movie (with its tags, comments and ratings) in one step
+      await api('POST /towatch/:id/watched', { params: { id: movie.id } });
 
       // Navigate back to home
       navigate('/');
     } catch (error) {
       console.error('Error marking movie as watched:', error);
-      alert('Failed to mark movie as watched. Please try again.');
+      alert(`Failed to mark movie as watched: ${error instanceof Error ? error.message : error}`);
     }
   };
 
@@ -577,20 +537,12 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     const updatedTags = [...currentTags, newTag.trim()];
 
     try {
-      const endpoint = isFromToWatch ? 'towatch' : 'movies';
-      const response = await fetch(`${API_BASE_URL}/${endpoint}/${movie.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ tags: updatedTags }),
+      await api(isFromToWatch ? 'PATCH /towatch/:id' : 'PATCH /movies/:id', {
+        params: { id: movie.id },
+        body: { tags: updatedTags },
       });
-
-      if (response.ok) {
-        setMovie({ ...movie, tags: updatedTags });
-        setNewTag('');
-      }
+      setMovie({ ...movie, tags: updatedTags });
+      setNewTag('');
     } catch (error) {
       console.error('Error adding tag:', error);
     }
@@ -603,197 +555,117 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
     const updatedTags = currentTags.filter(tag => tag !== tagToRemove);
 
     try {
-      const endpoint = isFromToWatch ? 'towatch' : 'movies';
-      const response = await fetch(`${API_BASE_URL}/${endpoint}/${movie.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({ tags: updatedTags }),
+      await api(isFromToWatch ? 'PATCH /towatch/:id' : 'PATCH /movies/:id', {
+        params: { id: movie.id },
+        body: { tags: updatedTags },
       });
-
-      if (response.ok) {
-        setMovie({ ...movie, tags: updatedTags });
-      }
+      setMovie({ ...movie, tags: updatedTags });
     } catch (error) {
       console.error('Error removing tag:', error);
     }
   };
 
-  const handleUpdateTrailer = () => {
-    console.log('=== handleUpdateTrailer CALLED ===');
-    console.log('newTrailerUrl:', newTrailerUrl);
-    
+  const handleUpdateTrailer = async () => {
     if (!movie || !newTrailerUrl.trim()) {
-      console.log('EARLY RETURN: No movie or empty URL');
       alert('Please enter a trailer URL');
       return;
     }
 
-    console.log('Opening trailer password modal...');
-    setShowTrailerPrompt(true);
-    setTrailerPassword('');
-    setTrailerPasswordError('');
+    try {
+      const data = await api('PATCH /movies/:id/trailer', { params: { id: movie.id }, body: { url: newTrailerUrl } });
+
+      setMovie({ ...movie, trailer: data.movie.trailer });
+      setNewTrailerUrl('');
+      setIsTrailerPlaying(false);
+      
+      alert('Trailer updated successfully!');
+    } catch (error) {
+      console.error('Error updating trailer:', error);
+      alert(`Failed to update trailer: ${error instanceof Error ? error.message : error}`);
+    }
   };
 
-  const handleTrailerPasswordSubmit = async () => {
-    if (!movie) return;
+  const handleAddVideo = async () => {
+    if (!movie || !newVideoUrl.trim()) return;
 
-    if (trailerPassword !== 'hassle') {
-      setTrailerPasswordError('Incorrect password');
-      return;
+    try {
+      const data = await api('POST /movies/:id/videos', {
+        params: { id: movie.id },
+        body: { url: newVideoUrl, type: newVideoType },
+      });
+
+      setVideos([...videos, data.video]);
+      setNewVideoUrl('');
+    } catch (error) {
+      console.error('Error adding video:', error);
+      alert(`Failed to add video: ${error instanceof Error ? error.message : error}`);
     }
+  };
+
+  const handleDeleteVideo = async (video: Video) => {
+    if (!movie || !confirm('Remove this video?')) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/movies/${movie.id}/trailer`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ trailer: newTrailerUrl }),
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update trailer');
-      }
+      await api('DELETE /movies/:id/videos/:videoId', { params: { id: movie.id, videoId: video.id } });
 
-      setMovie({ ...movie, trailer: newTrailerUrl });
-      setNewTrailerUrl('');
-      setShowTrailerPrompt(false);
-      setTrailerPassword('');
-      setTrailerPasswordError('');
-      
-      alert('Trailer updated successfully!');
-      window.location.reload();
+      setVideos(videos.filter((v) => v.id !== video.id));
+      showSlide(Math.max(1, carouselIndex - 1));
     } catch (error) {
-      console.error('Error updating trailer:', error);
-      setTrailerPasswordError(`Failed to update trailer: ${error}`);
+      console.error('Error removing video:', error);
+      alert(`Failed to remove video: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  const handleUpdateRuntime = () => {
-    if (!newRuntime.trim()) {
-      alert('Please enter a runtime');
-      return;
+  // Swap a video with its neighbour and save the new order
+  const handleMoveVideo = async (video: Video, direction: -1 | 1) => {
+    if (!movie) return;
+    const index = videos.findIndex((v) => v.id === video.id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= videos.length) return;
+
+    const reordered = [...videos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setVideos(reordered);
+    showSlide(carouselIndex + direction);
+
+    try {
+      const data = await api('PUT /movies/:id/videos/order', {
+        params: { id: movie.id },
+        body: { ids: reordered.map((v) => v.id) },
+      });
+      setVideos(data.videos);
+    } catch (error) {
+      console.error('Error reordering videos:', error);
+      loadVideos(movie.id);
     }
-    setShowRuntimePrompt(true);
-    setRuntimePassword('');
-    setRuntimePasswordError('');
   };
 
-  const handleRuntimePasswordSubmit = async () => {
+  const handleUpdateRuntime = async () => {
     if (!movie) return;
 
-    if (runtimePassword !== 'hassle') {
-      setRuntimePasswordError('Incorrect password');
+    if (!newRuntime.trim()) {
+      alert('Please enter a runtime');
       return;
     }
 
     try {
-      const endpoint = isFromToWatch ? 'towatch' : 'movies';
-      const response = await fetch(`${API_BASE_URL}/${endpoint}/${movie.id}`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ runtime: newRuntime }),
+      const data = await api(isFromToWatch ? 'PATCH /towatch/:id' : 'PATCH /movies/:id', {
+        params: { id: movie.id },
+        body: { runtime: newRuntime },
       });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update runtime');
-      }
 
-      setMovie({ ...movie, runtime: newRuntime });
+      // The server reads the text into structured fields and returns the new label
+      setMovie(data.movie);
       setNewRuntime('');
       setIsEditingRuntime(false);
-      setShowRuntimePrompt(false);
-      setRuntimePassword('');
-      setRuntimePasswordError('');
       
       alert('Runtime updated successfully!');
     } catch (error) {
       console.error('Error updating runtime:', error);
-      setRuntimePasswordError(`Failed to update runtime: ${error}`);
+      alert(`Failed to update runtime: ${error instanceof Error ? error.message : error}`);
     }
   };
 
-  // Helper function to extract YouTube video ID
-  const getYouTubeVideoId = (url: string | undefined) => {
-    if (!url) return null;
-    
-    try {
-      // Handle youtube.com/watch?v= format
-      if (url.includes('youtube.com/watch')) {
-        const urlObj = new URL(url);
-        const videoId = urlObj.searchParams.get('v');
-        if (videoId) return videoId;
-      }
-      
-      // Handle youtu.be/ format
-      if (url.includes('youtu.be/')) {
-        const videoId = url.split('youtu.be/')[1]?.split('?')[0];
-        if (videoId) return videoId;
-      }
-      
-      // Handle youtube.com/embed/ format (but NOT embed search)
-      if (url.includes('youtube.com/embed/') && !url.includes('listType=search')) {
-        const videoId = url.split('youtube.com/embed/')[1]?.split('?')[0];
-        if (videoId) return videoId;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error parsing YouTube URL:', error);
-      return null;
-    }
-  };
-
-  // Helper function to convert YouTube URLs to embed format
-  const getYouTubeEmbedUrl = (url: string | undefined) => {
-    if (!url) return null;
-    
-    // If it's already an embed search URL, return as-is
-    if (url.includes('youtube.com/embed') && url.includes('listType=search')) {
-      return url;
-    }
-    
-    // Otherwise, try to extract video ID and convert
-    const videoId = getYouTubeVideoId(url);
-    return videoId ? `https://www.youtube.com/embed/${videoId}` : null;
-  };
-  
-  // Helper function to get YouTube thumbnail
-  const getYouTubeThumbnail = (url: string | undefined) => {
-    if (!url) return null;
-    
-    // For embed search URLs, we can't get a thumbnail - return a placeholder
-    if (url.includes('listType=search')) {
-      return 'https://i.ytimg.com/vi//maxresdefault.jpg'; // YouTube's default placeholder
-    }
-    
-    const videoId = getYouTubeVideoId(url);
-    return videoId ? `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg` : null;
-  };
-
-  // Filter movies for search dropdown
-  const searchResults = searchQuery
-    ? allMovies.filter((movie) => {
-        const query = searchQuery.toLowerCase();
-        return (
-          movie.title.toLowerCase().includes(query) ||
-          movie.genre.toLowerCase().includes(query) ||
-          movie.year.toString().includes(query)
-        );
-      })
-    : [];
-
   if (isLoading) {
     return (
       <div className={`min-h-screen flex flex-col items-center justify-center ${isDarkMode ? 'bg-black' : 'bg-background'}`}>
@@ -882,7 +754,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     <div
                       key={movie.id}
                       onClick={() => {
-                        navigate(`/movie/${createSlug(movie.title)}`);
+                        navigate(`/movie/${movieSlug(movie)}`);
                         setShowSearchDropdown(false);
                         setSearchQuery('');
                       }}
@@ -973,7 +845,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
       {/* Recent Movies Navigation - Full Width */}
       <header className="border-b w-full">
         <div className="w-full">
-          <RecentMoviesCarousel movies={recentMovies} onMovieClick={(movie) => navigate(`/movie/${createSlug(movie.title)}`)} />
+          <RecentMoviesCarousel movies={recentMovies} onMovieClick={(movie) => navigate(`/movie/${movieSlug(movie)}`)} />
         </div>
       </header>
 
@@ -996,14 +868,14 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
             <div className="lg:w-80 shrink-0">
               {/* Poster Container */}
               <div className="bg-background dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden max-w-xs mx-auto lg:max-w-none">
-                <img 
-                  src={movie.image} 
-                  alt={movie.title}
-                  className="w-full object-cover"
-                  loading="lazy"
+                <PosterImage
+                  movie={movie}
+                  sizes="(min-width: 1024px) 320px, 100vw"
+                  className="w-full h-auto object-cover"
                 />
                 
                 {/* Update Poster - directly under poster */}
+                {canEdit && (
                 <div className="p-4 bg-gray-50 dark:bg-gray-900">
                   <div className="mb-3">
                     <input
@@ -1021,6 +893,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     Update Poster
                   </button>
                 </div>
+                )}
               </div>
             </div>
 
@@ -1039,12 +912,19 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                       <span>{movie.year}</span>
                     </div>
                   )}
+                  {movie.watchedAt && (
+                    <div className="flex items-center gap-2" title="Watched on">
+                      <Check className="size-4" />
+                      <span>{new Date(movie.watchedAt).toLocaleDateString()}</span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2">
                     <Clock className="size-4" />
                     {!isEditingRuntime ? (
                       movie.runtime ? (
                         <div className="flex items-center gap-2 group">
                           <span>{movie.runtime}</span>
+                          {canEdit && (
                           <button
                             onClick={() => {
                               setNewRuntime(movie.runtime || '');
@@ -1055,14 +935,17 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                           >
                             <Pencil className="size-3" />
                           </button>
+                          )}
                         </div>
-                      ) : (
+                      ) : canEdit ? (
                         <button 
                           onClick={() => setIsEditingRuntime(true)}
                           className="text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
                         >
                           <span>+ Add Time</span>
                         </button>
+                      ) : (
+                        <span>Unknown</span>
                       )
                     ) : (
                       <div className="flex items-center gap-2">
@@ -1105,7 +988,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                 </div>
 
                 {/* Ratings Row: IMDb (left) + User Rating (right) - Only show in poster view */}
-                {carouselView === 'poster' && (
+                {isPosterView && (
                   <>
                     <div className="flex flex-wrap items-start justify-between gap-8 mb-4">
                       {/* IMDb Rating (Left) */}
@@ -1163,7 +1046,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                 )}
 
                 {/* Show these details only in poster view */}
-                {carouselView === 'poster' && (
+                {isPosterView && (
                   <>
                     {/* Director */}
                     {movie.director && (
@@ -1214,7 +1097,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     )}
 
                     {/* Mark as Watched Section - Only show if this is from "to watch" list */}
-                    {isFromToWatch && (
+                    {canMarkAsWatched && (
                       <div className="mb-4">
                         <h2 className="font-semibold mb-3 dark:text-white text-[13px]" style={{ fontFamily: 'system-ui, -apple-system, sans-serif' }}>
                           Mark as Watched
@@ -1231,13 +1114,21 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                   </>
                 )}
 
-                {/* Show trailer in trailer view */}
-                {carouselView === 'trailer' && (
+                {/* Show the current video in video view */}
+                {!isPosterView && (
                   <div className="mb-4">
-                    <h3 className="font-semibold mb-3 dark:text-white text-lg">Trailer</h3>
+                    <h3 className="font-semibold mb-3 dark:text-white text-lg">
+                      {currentSlide ? currentSlide.label : 'Trailer'}
+                      {currentSlide?.video?.title && (
+                        <span className="ml-2 font-normal text-[13px] text-gray-600 dark:text-gray-400">{currentSlide.video.title}</span>
+                      )}
+                      {currentSlide?.video?.language && (
+                        <span className="ml-2 font-normal text-[11px] uppercase text-gray-500">{currentSlide.video.language}</span>
+                      )}
+                    </h3>
                     
-                    {/* Show trailer player or message */}
-                    {movie.trailer && getYouTubeEmbedUrl(movie.trailer) ? (
+                    {/* Show video player or message */}
+                    {currentSlide ? (
                       <div className="mb-4">
                         {!isTrailerPlaying ? (
                           <div 
@@ -1245,8 +1136,8 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                             onClick={() => setIsTrailerPlaying(true)}
                           >
                             <img 
-                              src={getYouTubeThumbnail(movie.trailer) || ''}
-                              alt="Trailer thumbnail"
+                              src={trailerThumbnail(currentSlide) || ''}
+                              alt={`${currentSlide.label} thumbnail`}
                               className="w-full h-full object-cover"
                               loading="lazy"
                               onError={(e) => {
@@ -1262,11 +1153,11 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                         ) : (
                           <div className="aspect-video rounded-lg overflow-hidden bg-black">
                             <iframe
-                              src={getYouTubeEmbedUrl(movie.trailer) || ''}
+                              src={trailerEmbedUrl(currentSlide) || ''}
                               className="w-full h-full"
                               allowFullScreen
                               allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                              title="Movie Trailer"
+                              title={`${movie.title} ${currentSlide.label}`}
                             />
                           </div>
                         )}
@@ -1279,6 +1170,70 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                       </div>
                     )}
 
+                    {/* Thumbnail strip: the poster, then each video */}
+                    {videoSlides.length > 1 && (
+                      <div className="mb-4 flex gap-2 overflow-x-auto pb-1">
+                        <button
+                          onClick={() => showSlide(0)}
+                          className="shrink-0 w-12 aspect-[2/3] rounded overflow-hidden border-2 border-transparent hover:border-gray-400"
+                          title="Poster and details"
+                        >
+                          <ImageWithFallback src={movie.image} alt={movie.title} className="w-full h-full object-cover" />
+                        </button>
+                        {videoSlides.map((slide, index) => (
+                          <button
+                            key={slide.key}
+                            onClick={() => showSlide(index + 1)}
+                            className={`shrink-0 w-28 aspect-video rounded overflow-hidden bg-black border-2 ${
+                              carouselIndex === index + 1 ? 'border-red-600' : 'border-transparent hover:border-gray-400'
+                            }`}
+                            title={slide.video?.title || slide.label}
+                          >
+                            {trailerThumbnail(slide) ? (
+                              <img src={trailerThumbnail(slide) || ''} alt={slide.label} className="w-full h-full object-cover" loading="lazy" />
+                            ) : (
+                              <span className="text-[11px] text-white">{slide.label}</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {canEdit && currentSlide?.key === 'trailer' && typeof movie.trailer === 'object' && movie.trailer.status === 'pending' && (
+                      <p className="mb-4 text-[12px] text-amber-700 dark:text-amber-400">
+                        Awaiting review: found by {movie.trailer.resolver} with {Math.round(movie.trailer.confidence * 100)}% confidence.
+                        Only curators can see it until it is approved.
+                      </p>
+                    )}
+
+                    {canEditVideos && currentSlide?.video && (
+                      <div className="mb-4 flex gap-2">
+                        <button
+                          onClick={() => handleMoveVideo(currentSlide.video!, -1)}
+                          disabled={videos[0]?.id === currentSlide.video.id}
+                          className="px-3 py-1.5 text-[12px] rounded-lg border dark:border-gray-600 dark:text-white disabled:opacity-40"
+                        >
+                          Move earlier
+                        </button>
+                        <button
+                          onClick={() => handleMoveVideo(currentSlide.video!, 1)}
+                          disabled={videos[videos.length - 1]?.id === currentSlide.video.id}
+                          className="px-3 py-1.5 text-[12px] rounded-lg border dark:border-gray-600 dark:text-white disabled:opacity-40"
+                        >
+                          Move later
+                        </button>
+                        <button
+                          onClick={() => handleDeleteVideo(currentSlide.video!)}
+                          className="ml-auto flex items-center gap-1 px-3 py-1.5 text-[12px] rounded-lg bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          <Trash2 className="size-3.5" />
+                          Remove
+                        </button>
+                      </div>
+                    )}
+
+                    {canEdit && (
+                    <>
                     <div className="mb-3">
                       <h2 className="font-semibold mb-3 dark:text-white text-[13px]">Update Trailer URL</h2>
                       <input
@@ -1286,7 +1241,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                         value={newTrailerUrl}
                         onChange={(e) => setNewTrailerUrl(e.target.value)}
                         className="w-full px-3 py-2 text-[13px] border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder="YouTube URL (e.g., https://www.youtube.com/watch?v=...)"
+                        placeholder="YouTube or Vimeo URL (e.g., https://www.youtube.com/watch?v=...)"
                       />
                     </div>
                     <button
@@ -1295,6 +1250,39 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     >
                       Update Trailer
                     </button>
+                    </>
+                    )}
+
+                    {canEditVideos && (
+                    <div className="mt-4">
+                      <h2 className="font-semibold mb-3 dark:text-white text-[13px]">Add Video</h2>
+                      <div className="flex gap-2 mb-3">
+                        <select
+                          value={newVideoType}
+                          onChange={(e) => setNewVideoType(e.target.value as Video['type'])}
+                          className="px-2 py-2 text-[13px] border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        >
+                          {Object.entries(VIDEO_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={newVideoUrl}
+                          onChange={(e) => setNewVideoUrl(e.target.value)}
+                          className="flex-1 px-3 py-2 text-[13px] border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="YouTube or Vimeo URL"
+                        />
+                      </div>
+                      <button
+                        onClick={handleAddVideo}
+                        disabled={!newVideoUrl.trim()}
+                        className="w-full px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-[13px] font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Add Video
+                      </button>
+                    </div>
+                    )}
                   </div>
                 )}
 
@@ -1316,6 +1304,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                 )}
 
                 {/* Delete Movie Button */}
+                {canDeleteMovie && (
                 <div className="mb-4">
                   <h2 className="font-semibold mb-3 dark:text-white text-[13px]">Delete Movie</h2>
                   <button
@@ -1326,27 +1315,25 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     Delete
                   </button>
                 </div>
+                )}
 
-                {/* Right Arrow to go to Trailer - Only show in poster view */}
-                {carouselView === 'poster' && (
+                {/* Right Arrow to the next video */}
+                {carouselIndex < slideCount - 1 && (
                   <button
-                    onClick={() => setCarouselView('trailer')}
+                    onClick={() => showSlide(carouselIndex + 1)}
                     className="absolute top-1/2 right-4 -translate-y-1/2 bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors z-10"
-                    title="View Trailer"
+                    title={isPosterView ? 'View Trailer' : 'Next Video'}
                   >
                     <ChevronRight className="size-6" />
                   </button>
                 )}
 
-                {/* Left Arrow to go back to Description - Only show in trailer view */}
-                {carouselView === 'trailer' && (
+                {/* Left Arrow back towards the description */}
+                {!isPosterView && (
                   <button
-                    onClick={() => {
-                      setCarouselView('poster');
-                      setIsTrailerPlaying(false);
-                    }}
+                    onClick={() => showSlide(carouselIndex - 1)}
                     className="absolute top-1/2 left-4 -translate-y-1/2 bg-black/50 hover:bg-black/70 text-white rounded-full p-2 transition-colors z-10"
-                    title="Back to Description"
+                    title={carouselIndex === 1 ? 'Back to Description' : 'Previous Video'}
                   >
                     <ChevronLeft className="size-6" />
                   </button>
@@ -1355,19 +1342,36 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
 
               {/* Comments Section */}
               <div className="mt-8 bg-background dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-8">
-                <h2 className="text-lg font-bold mb-4 dark:text-white">Comments</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold dark:text-white">Comments</h2>
+                  <select
+                    value={commentSort}
+                    onChange={(e) => setCommentSort(e.target.value as CommentSort)}
+                    className="px-2 py-1 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="newest">Newest</option>
+                    <option value="top">Top</option>
+                  </select>
+                </div>
 
                 {/* Add Comment Form */}
                 <div className="mb-6 space-y-3">
-                  {/* Show username field only if not logged in */}
+                  {/* Guests give a name; their comments are marked as guest comments */}
                   {!currentUser && (
-                    <input
-                      type="text"
-                      placeholder="Your username"
-                      value={username}
-                      onChange={(e) => setUsername(e.target.value)}
-                      className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                    <div className="space-y-1">
+                      <input
+                        type="text"
+                        placeholder="Your name"
+                        value={guestName}
+                        onChange={(e) => setGuestName(e.target.value)}
+                        className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                        Commenting as a guest.{' '}
+                        <button onClick={() => setIsLoginModalOpen(true)} className="underline">Sign in</button>
+                        {' '}to comment under your account and edit your comments.
+                      </p>
+                    </div>
                   )}
                   {/* Show logged-in user info */}
                   {currentUser && (
@@ -1391,12 +1395,16 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     rows={3}
                     className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
                   />
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                    **bold**, *italic*, ||spoiler||, @username, [[Movie title]] and links work in comments.
+                  </p>
                   <button 
                     onClick={handleAddComment} 
                     className="w-full px-4 py-2.5 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 text-white text-[13px] font-medium rounded-lg transition-colors"
                   >
                     Add Comment
                   </button>
+                  {commentError && <p className="text-[12px] text-red-600 dark:text-red-400">{commentError}</p>}
                 </div>
 
                 {/* Comments List */}
@@ -1406,42 +1414,19 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                       No comments yet. Be the first to comment!
                     </p>
                   ) : (
-                    comments.map((comment) => (
-                      <div
+                    topLevelComments.map((comment) => (
+                      <CommentThread
                         key={comment.id}
-                        className="border dark:border-gray-700 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
-                      >
-                        <div className="flex items-start gap-3 mb-2">
-                          {/* Profile Picture */}
-                          <div className={`w-10 h-10 rounded-full flex items-center justify-center overflow-hidden shrink-0 ${isDarkMode ? 'bg-gray-600' : 'bg-gray-200'}`}>
-                            {comment.profilePicture ? (
-                              <img src={comment.profilePicture} alt={comment.username} className="w-full h-full object-cover" />
-                            ) : (
-                              <User className={`size-5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
-                            )}
-                          </div>
-                          
-                          {/* Comment Content */}
-                          <div className="flex-1 min-w-0">
-                            <div className="flex justify-between items-start mb-1">
-                              <div>
-                                <span className="font-semibold dark:text-white text-[13px]">{comment.username}</span>
-                                <span className="text-[11px] text-gray-500 dark:text-gray-400 ml-2">
-                                  {new Date(comment.timestamp).toLocaleDateString()}
-                                </span>
-                              </div>
-                              {/* Show delete button for everyone */}
-                              <button
-                                onClick={() => handleDeleteComment(comment.id, comment.username)}
-                                className="text-red-600 hover:text-red-700 dark:text-red-500 dark:hover:text-red-400 transition-colors"
-                              >
-                                <Trash2 className="size-4" />
-                              </button>
-                            </div>
-                            <p className="text-gray-700 dark:text-gray-300 text-[13px] leading-relaxed">{comment.text}</p>
-                          </div>
-                        </div>
-                      </div>
+                        comment={comment}
+                        repliesByParent={repliesByParent}
+                        currentUser={currentUser}
+                        isDarkMode={isDarkMode}
+                        onReply={handleReplyToComment}
+                        onEdit={handleSaveComment}
+                        onReport={handleReportComment}
+                        onDelete={handleDeleteComment}
+                        onReact={handleReactToComment}
+                      />
                     ))
                   )}
                 </div>
@@ -1466,12 +1451,14 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                         className="flex items-center gap-1 px-3 py-1.5 bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 rounded-full text-[11px]"
                       >
                         <span>{tag}</span>
-                        <button
-                          onClick={() => handleRemoveTag(tag)}
-                          className="hover:opacity-70 transition-opacity"
-                        >
-                          <X className="size-3" />
-                        </button>
+                        {canEdit && (
+                          <button
+                            onClick={() => handleRemoveTag(tag)}
+                            className="hover:opacity-70 transition-opacity"
+                          >
+                            <X className="size-3" />
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1482,6 +1469,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                 )}
 
                 {/* Add Tag Input */}
+                {canEdit && (
                 <div className="flex gap-2">
                   <input
                     type="text"
@@ -1498,6 +1486,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     Add
                   </button>
                 </div>
+                )}
               </div>
 
               {/* Recommended Section */}
@@ -1513,7 +1502,7 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
                     {similarMovies.map((similarMovie) => (
                       <div
                         key={similarMovie.id}
-                        onClick={() => navigate(`/movie/${createSlug(similarMovie.title)}`)}
+                        onClick={() => navigate(`/movie/${movieSlug(similarMovie)}`)}
                         className="cursor-pointer group"
                       >
                         <div className="flex gap-3">
@@ -1563,183 +1552,6 @@ export function MovieDetailPage({ currentUser, setCurrentUser }: MovieDetailPage
           </span>
         </div>
       </footer>
-
-      {/* Delete Comment Password Prompt */}
-      {showDeletePrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-background dark:bg-gray-800 p-6 rounded-lg shadow-lg w-80">
-            <h2 className="text-lg font-bold mb-4 dark:text-white">Delete Comment</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Enter the password to delete this comment:
-            </p>
-            <input
-              type="password"
-              value={deletePassword}
-              onChange={(e) => setDeletePassword(e.target.value)}
-              className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            {deletePasswordError && (
-              <p className="text-red-500 text-[13px] mt-2">{deletePasswordError}</p>
-            )}
-            <div className="flex justify-end mt-4">
-              <button
-                onClick={() => setShowDeletePrompt(false)}
-                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-400 transition-colors mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleDeletePasswordSubmit}
-                className="px-4 py-2 bg-red-500 text-white text-[13px] font-medium rounded-lg hover:opacity-90 transition-opacity"
-              >
-                Delete
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Update Poster Password Prompt */}
-      {showPosterPrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-background dark:bg-gray-800 p-6 rounded-lg shadow-lg w-80">
-            <h2 className="text-lg font-bold mb-4 dark:text-white">Update Poster</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Enter the password to update the poster:
-            </p>
-            <input
-              type="password"
-              value={posterPassword}
-              onChange={(e) => setPosterPassword(e.target.value)}
-              className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            {posterPasswordError && (
-              <p className="text-red-500 text-[13px] mt-2">{posterPasswordError}</p>
-            )}
-            <div className="flex justify-end mt-4">
-              <button
-                onClick={() => setShowPosterPrompt(false)}
-                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-400 transition-colors mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handlePosterPasswordSubmit}
-                className="px-4 py-2 bg-blue-500 text-white text-[13px] font-medium rounded-lg hover:opacity-90 transition-opacity"
-              >
-                Update
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Update Trailer Password Prompt */}
-      {showTrailerPrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-background dark:bg-gray-800 p-6 rounded-lg shadow-lg w-80">
-            <h2 className="text-lg font-bold mb-4 dark:text-white">Update Trailer</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Enter the password to update the trailer:
-            </p>
-            <input
-              type="password"
-              value={trailerPassword}
-              onChange={(e) => setTrailerPassword(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleTrailerPasswordSubmit()}
-              className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            {trailerPasswordError && (
-              <p className="text-red-500 text-[13px] mt-2">{trailerPasswordError}</p>
-            )}
-            <div className="flex justify-end mt-4">
-              <button
-                onClick={() => setShowTrailerPrompt(false)}
-                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-400 transition-colors mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleTrailerPasswordSubmit}
-                className="px-4 py-2 bg-blue-500 text-white text-[13px] font-medium rounded-lg hover:opacity-90 transition-opacity"
-              >
-                Update
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Update Runtime Password Prompt */}
-      {showRuntimePrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-background dark:bg-gray-800 p-6 rounded-lg shadow-lg w-80">
-            <h2 className="text-lg font-bold mb-4 dark:text-white">Update Runtime</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Enter the password to update the runtime:
-            </p>
-            <input
-              type="password"
-              value={runtimePassword}
-              onChange={(e) => setRuntimePassword(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleRuntimePasswordSubmit()}
-              className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            {runtimePasswordError && (
-              <p className="text-red-500 text-[13px] mt-2">{runtimePasswordError}</p>
-            )}
-            <div className="flex justify-end mt-4">
-              <button
-                onClick={() => setShowRuntimePrompt(false)}
-                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-400 transition-colors mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleRuntimePasswordSubmit}
-                className="px-4 py-2 bg-blue-500 text-white text-[13px] font-medium rounded-lg hover:opacity-90 transition-opacity"
-              >
-                Update
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Delete Movie Password Prompt */}
-      {showDeleteMoviePrompt && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-background dark:bg-gray-800 p-6 rounded-lg shadow-lg w-80">
-            <h2 className="text-lg font-bold mb-4 dark:text-white">Delete Movie</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              Enter the password to delete this movie:
-            </p>
-            <input
-              type="password"
-              value={deleteMoviePassword}
-              onChange={(e) => setDeleteMoviePassword(e.target.value)}
-              className="w-full px-3 py-2 text-[13px] border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            {deleteMoviePasswordError && (
-              <p className="text-red-500 text-[13px] mt-2">{deleteMoviePasswordError}</p>
-            )}
-            <div className="flex justify-end mt-4">
-              <button
-                onClick={() => setShowDeleteMoviePrompt(false)}
-                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-400 transition-colors mr-2"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleDeleteMoviePasswordSubmit}
-                className="px-4 py-2 bg-red-500 text-white text-[13px] font-medium rounded-lg hover:opacity-90 transition-opacity"
-              >
-                Delete
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
\ No newline at end of file
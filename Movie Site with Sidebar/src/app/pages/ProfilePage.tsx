@@ -1,15 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Moon, Sun, User, Search, X } from 'lucide-react';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
 import { DarkModeToggle } from '../components/DarkModeToggle';
 import { RecentMoviesCarousel } from '../components/RecentMoviesCarousel';
 import { Input } from '../components/ui/input';
-import { createSlug } from '../utils/slugify';
+import { movieSlug } from '../utils/slugify';
+import { clearSession, saveSession } from '../utils/session';
+import { api, ApiError, PROFILE_PICTURE_MAX_BYTES } from '../utils/api';
+import { fetchMoviePage } from '../utils/movieQuery';
+import { canCurate, isAdmin } from '../utils/permissions';
+import { commentPreview } from '../utils/commentMarkup';
+import { AdminBackupPanel } from '../components/AdminBackupPanel';
+import { AdminJobsPanel } from '../components/AdminJobsPanel';
+import { MediaReportPanel } from '../components/MediaReportPanel';
+import { CommentModerationPanel } from '../components/CommentModerationPanel';
+import { TrailerReviewPanel } from '../components/TrailerReviewPanel';
 const logoImage = 'https://i.imgur.com/vUiVqow.png?direct';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-ea58c774`;
-
 interface ProfilePageProps {
   isDarkMode: boolean;
   setIsDarkMode: (value: boolean) => void;
@@ -17,7 +24,7 @@ interface ProfilePageProps {
   setCurrentUser: (user: any) => void;
 }
 
-type ProfileSection = 'profile' | 'comments' | 'ratings' | 'logout';
+type ProfileSection = 'profile' | 'comments' | 'ratings' | 'trailers' | 'admin' | 'logout';
 
 export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrentUser }: ProfilePageProps) {
   const navigate = useNavigate();
@@ -52,20 +59,13 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
 
   const loadRecentMovies = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/movies`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      const data = await response.json();
-      if (data.success) {
-        setAllMovies(data.movies);
-        // Get 12 most recent movies (sorted by ID descending, matching main page)
-        const recent = [...data.movies]
-          .sort((a, b) => b.id - a.id)
-          .slice(0, 12);
-        setRecentMovies(recent);
-      }
+      const data = await api('GET /movies');
+      setAllMovies(data.movies);
+      // Get 12 most recent movies (sorted by ID descending, matching main page)
+      const recent = [...data.movies]
+        .sort((a, b) => b.id - a.id)
+        .slice(0, 12);
+      setRecentMovies(recent);
     } catch (error) {
       console.error('Error loading recent movies:', error);
     }
@@ -74,18 +74,18 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
   const handleMovieClick = (movieId: string) => {
     const movie = allMovies.find(m => m.id === parseInt(movieId));
     if (movie) {
-      navigate(`/movie/${createSlug(movie.title)}`);
+      navigate(`/movie/${movieSlug(movie)}`);
     }
   };
 
   const handleMovieClickFromCarousel = (movie: any) => {
-    navigate(`/movie/${createSlug(movie.title)}`);
+    navigate(`/movie/${movieSlug(movie)}`);
   };
 
   const handleTryMyLuck = () => {
     if (movies.length > 0) {
       const randomMovie = movies[Math.floor(Math.random() * movies.length)];
-      navigate(`/movie/${createSlug(randomMovie.title)}`);
+      navigate(`/movie/${movieSlug(randomMovie)}`);
     }
   };
 
@@ -106,28 +106,14 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
   const fetchUserComments = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/comments`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      const data = await response.json();
+      const data = await api('GET /user-comments/:username', { params: { username: currentUser.username } });
+      setUserComments(data.comments);
       
-      if (data.success) {
-        // Filter comments by this user
-        const filtered = data.comments.filter((c: any) => c.username === currentUser.username);
-        setUserComments(filtered);
-        
-        // Fetch movies to get titles
-        const moviesResponse = await fetch(`${API_BASE_URL}/movies`, {
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        });
-        const moviesData = await moviesResponse.json();
-        if (moviesData.success) {
-          setMovies(moviesData.movies);
-        }
+      // Fetch just the commented movies to get titles
+      const ids = Array.from(new Set<number>(data.comments.map((c) => Number(c.movieId))));
+      if (ids.length > 0) {
+        const page = await fetchMoviePage('movies', { ids, pageSize: ids.length });
+        setMovies(page.movies);
       }
     } catch (error) {
       console.error('Error fetching user comments:', error);
@@ -139,48 +125,28 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
   const fetchUserRatings = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/user-ratings/${currentUser.username}`, {
-        headers: {
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-      });
-      const data = await response.json();
+      const data = await api('GET /user-ratings/:userIdentifier', { params: { userIdentifier: currentUser.username } });
       
       console.log('User ratings response:', data);
       
-      if (data.success) {
-        // Convert userRatings object to array
-        const ratingsArray = Object.entries(data.userRatings).map(([movieId, rating]) => ({
-          movieId,
-          rating: Number(rating),
-        }));
-        
-        console.log('Ratings array:', ratingsArray);
-        
-        setUserRatings(ratingsArray);
-        
-        // Fetch both regular movies and "to watch" movies
-        const [moviesResponse, toWatchResponse] = await Promise.all([
-          fetch(`${API_BASE_URL}/movies`, {
-            headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-          }),
-          fetch(`${API_BASE_URL}/towatch`, {
-            headers: { 'Authorization': `Bearer ${publicAnonKey}` },
-          }),
+      // Convert userRatings object to array
+      const ratingsArray = Object.entries(data.userRatings).map(([movieId, rating]) => ({
+        movieId,
+        rating: Number(rating),
+      }));
+      
+      console.log('Ratings array:', ratingsArray);
+      
+      setUserRatings(ratingsArray);
+      
+      // Fetch the rated titles from both regular movies and "to watch" movies
+      const ids = ratingsArray.map(r => Number(r.movieId));
+      if (ids.length > 0) {
+        const [moviesPage, toWatchPage] = await Promise.all([
+          fetchMoviePage('movies', { ids, pageSize: ids.length }),
+          fetchMoviePage('towatch', { ids, pageSize: ids.length }),
         ]);
-        
-        const moviesData = await moviesResponse.json();
-        const toWatchData = await toWatchResponse.json();
-        
-        // Combine both movie lists
-        const allMovies = [
-          ...(moviesData.success ? moviesData.movies : []),
-          ...(toWatchData.success ? toWatchData.movies : []),
-        ];
-        
-        console.log('All movies:', allMovies);
-        
-        setMovies(allMovies);
+        setMovies([...moviesPage.movies, ...toWatchPage.movies]);
       }
     } catch (error) {
       console.error('Error fetching user ratings:', error);
@@ -189,8 +155,14 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('currentUser');
+  const handleLogout = async () => {
+    try {
+      // End the session on the server so the token can't be reused
+      await api('POST /auth/logout');
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
+    clearSession();
     setCurrentUser(null);
     navigate('/');
   };
@@ -203,6 +175,11 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
       setUpdateMessage('Passwords do not match');
       return;
     }
+
+    if (newPassword && newPassword.length < 6) {
+      setUpdateMessage('Password must be at least 6 characters long');
+      return;
+    }
     
     // Update user data in the backend
     updateProfileInBackend();
@@ -210,8 +187,7 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
 
   const updateProfileInBackend = async () => {
     try {
-      const updateData: any = {
-        userId: currentUser.id,
+      const updateData: { email: string; profilePicture: string; password?: string } = {
         email: newEmail,
         profilePicture: profilePicture,
       };
@@ -221,37 +197,20 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
         updateData.password = newPassword;
       }
       
-      const response = await fetch(`${API_BASE_URL}/auth/profile`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify(updateData),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      const data = await api('PATCH /auth/profile', { body: updateData });
       
-      const data = await response.json();
+      // Update local state with the returned user data
+      const updatedUser = data.user;
+      saveSession(updatedUser);
+      setCurrentUser(updatedUser);
+      setUpdateMessage('Profile updated successfully!');
       
-      if (data.success) {
-        // Update local state with the returned user data
-        const updatedUser = data.user;
-        localStorage.setItem('currentUser', JSON.stringify(updatedUser));
-        setCurrentUser(updatedUser);
-        setUpdateMessage('Profile updated successfully!');
-        
-        // Clear password fields
-        setNewPassword('');
-        setConfirmPassword('');
-      } else {
-        setUpdateMessage(`Error: ${data.error}`);
-      }
+      // Clear password fields
+      setNewPassword('');
+      setConfirmPassword('');
     } catch (error) {
       console.error('Error updating profile:', error);
-      setUpdateMessage('Failed to update profile. Please try again.');
+      setUpdateMessage(error instanceof ApiError ? `Error: ${error.message}` : 'Failed to update profile. Please try again.');
     }
   };
 
@@ -265,9 +224,9 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
       return;
     }
 
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      setUpdateMessage('Image size must be less than 5MB');
+    // Check file size
+    if (file.size > PROFILE_PICTURE_MAX_BYTES) {
+      setUpdateMessage(`Image size must be at most ${PROFILE_PICTURE_MAX_BYTES / 1024} KB`);
       return;
     }
 
@@ -279,37 +238,21 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
       
       // Update profile picture in backend
       try {
-        const response = await fetch(`${API_BASE_URL}/auth/profile`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-          body: JSON.stringify({
-            userId: currentUser.id,
+        const data = await api('PATCH /auth/profile', {
+          body: {
             profilePicture: base64String,
-          }),
+          },
         });
         
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        
-        if (data.success) {
-          // Update local state with the returned user data
-          const updatedUser = data.user;
-          localStorage.setItem('currentUser', JSON.stringify(updatedUser));
-          setCurrentUser(updatedUser);
-          setShowImageUpload(false);
-          setUpdateMessage('Profile picture updated successfully!');
-        } else {
-          setUpdateMessage(`Error: ${data.error}`);
-        }
+        // Update local state with the returned user data
+        const updatedUser = data.user;
+        saveSession(updatedUser);
+        setCurrentUser(updatedUser);
+        setShowImageUpload(false);
+        setUpdateMessage('Profile picture updated successfully!');
       } catch (error) {
         console.error('Error updating profile picture:', error);
-        setUpdateMessage('Failed to update profile picture. Please try again.');
+        setUpdateMessage(error instanceof ApiError ? `Error: ${error.message}` : 'Failed to update profile picture. Please try again.');
       }
     };
     reader.readAsDataURL(file);
@@ -482,6 +425,40 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
                   My Ratings
                 </button>
                 
+                {canCurate(currentUser) && (
+                  <button
+                    onClick={() => setActiveSection('trailers')}
+                    className={`w-full text-left px-3 md:px-4 py-2 md:py-2.5 rounded-lg text-[11px] md:text-[13px] font-medium transition-colors ${
+                      activeSection === 'trailers'
+                        ? isDarkMode
+                          ? 'bg-white text-black'
+                          : 'bg-black text-white'
+                        : isDarkMode
+                        ? 'text-gray-300 hover:bg-gray-700'
+                        : 'text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Trailer Review
+                  </button>
+                )}
+                
+                {isAdmin(currentUser) && (
+                  <button
+                    onClick={() => setActiveSection('admin')}
+                    className={`w-full text-left px-3 md:px-4 py-2 md:py-2.5 rounded-lg text-[11px] md:text-[13px] font-medium transition-colors ${
+                      activeSection === 'admin'
+                        ? isDarkMode
+                          ? 'bg-white text-black'
+                          : 'bg-black text-white'
+                        : isDarkMode
+                        ? 'text-gray-300 hover:bg-gray-700'
+                        : 'text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Admin
+                  </button>
+                )}
+                
                 <button
                   onClick={handleLogout}
                   className={`w-full text-left px-3 md:px-4 py-2 md:py-2.5 rounded-lg text-[11px] md:text-[13px] font-medium transition-colors ${
@@ -634,7 +611,7 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
                             </span>
                           </div>
                           <p className={`text-[14px] ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                            {comment.text}
+                            {commentPreview(comment.text)}
                           </p>
                         </button>
                       ))}
@@ -689,6 +666,38 @@ export function ProfilePage({ isDarkMode, setIsDarkMode, currentUser, setCurrent
                   )}
                 </div>
               )}
+
+              {/* Trailer Review Section */}
+              {activeSection === 'trailers' && canCurate(currentUser) && (
+                <div>
+                  <h2 className={`text-[16px] font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-black'}`}>
+                    Trailer Review
+                  </h2>
+                  <TrailerReviewPanel isDarkMode={isDarkMode} />
+                </div>
+              )}
+
+              {/* Admin Section */}
+              {activeSection === 'admin' && isAdmin(currentUser) && (
+                <div>
+                  <h2 className={`text-[16px] font-bold mb-6 ${isDarkMode ? 'text-white' : 'text-black'}`}>
+                    Backup &amp; Restore
+                  </h2>
+                  <AdminBackupPanel isDarkMode={isDarkMode} />
+                  <h2 className={`text-[16px] font-bold mt-10 mb-6 ${isDarkMode ? 'text-white' : 'text-black'}`}>
+                    Maintenance Jobs
+                  </h2>
+                  <AdminJobsPanel isDarkMode={isDarkMode} />
+                  <h2 className={`text-[16px] font-bold mt-10 mb-6 ${isDarkMode ? 'text-white' : 'text-black'}`}>
+                    Broken Media
+                  </h2>
+                  <MediaReportPanel isDarkMode={isDarkMode} />
+                  <h2 className={`text-[16px] font-bold mt-10 mb-6 ${isDarkMode ? 'text-white' : 'text-black'}`}>
+                    Comment Moderation
+                  </h2>
+                  <CommentModerationPanel isDarkMode={isDarkMode} />
+                </div>
+              )}
             </div>
           </main>
         </div>
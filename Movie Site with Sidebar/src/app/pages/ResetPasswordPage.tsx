@@ -1,10 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { projectId, publicAnonKey } from '/utils/supabase/info';
+import { api, ApiError } from '../utils/api';
 const logoImage = 'https://i.imgur.com/vUiVqow.png?direct';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-ea58c774`;
-
 interface ResetPasswordPageProps {
   isDarkMode: boolean;
 }
@@ -17,30 +15,14 @@ export function ResetPasswordPage({ isDarkMode }: ResetPasswordPageProps) {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [email, setEmail] = useState('');
 
-  useEffect(() => {
-    // Extract email from URL hash or query params (Supabase auth redirects with hash)
-    const hash = window.location.hash;
-    const hashParams = new URLSearchParams(hash.substring(1));
-    const accessToken = hashParams.get('access_token');
-    
-    // If there's an access token, we can extract the user email
-    // For now, we'll ask the user to enter their email
-    // In a production setup, you'd verify the token with Supabase
-    
-    console.log('Reset password page loaded', { hash, accessToken });
-  }, []);
+  // Single-use token from the link in the reset email
+  const token = searchParams.get('token') || '';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     
-    if (!email.trim()) {
-      setError('Please enter your email address');
-      return;
-    }
-    
     if (!newPassword || !confirmPassword) {
       setError('Please fill in all fields');
       return;
@@ -59,33 +41,20 @@ export function ResetPasswordPage({ isDarkMode }: ResetPasswordPageProps) {
     setLoading(true);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/reset-password`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${publicAnonKey}`,
-        },
-        body: JSON.stringify({
-          email: email.trim(),
+      await api('POST /auth/reset-password', {
+        body: {
+          token,
           newPassword,
-        }),
+        },
       });
       
-      const data = await response.json();
-      
-      if (!data.success) {
-        setError(data.error || 'Failed to reset password');
-        setLoading(false);
-        return;
-      }
-      
       setSuccess(true);
       setTimeout(() => {
         navigate('/');
       }, 2000);
     } catch (err) {
       console.error('Reset password error:', err);
-      setError('An error occurred. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -104,10 +73,23 @@ export function ResetPasswordPage({ isDarkMode }: ResetPasswordPageProps) {
         </h1>
         
         <p className={`text-center mb-6 text-[13px] ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-          Enter your email and new password below
+          {token ? 'Choose a new password below' : 'This reset link is missing its token'}
         </p>
         
-        {success ? (
+        {!token ? (
+          <div className="space-y-4">
+            <div className={`p-3 rounded-lg text-[13px] ${isDarkMode ? 'bg-red-900/50 text-red-200' : 'bg-red-50 text-red-800'}`}>
+              Please use the link from your password reset email, or request a new one from the login screen.
+            </div>
+            <button
+              type="button"
+              onClick={() => navigate('/')}
+              className={`w-full text-[13px] hover:underline ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+            >
+              Back to home
+            </button>
+          </div>
+        ) : success ? (
           <div className={`p-4 rounded-lg text-center ${isDarkMode ? 'bg-green-900/50 text-green-200' : 'bg-green-50 text-green-800'}`}>
             <p className="font-medium mb-1">Password reset successful!</p>
             <p className="text-[13px]">Redirecting to login...</p>
@@ -120,28 +102,6 @@ export function ResetPasswordPage({ isDarkMode }: ResetPasswordPageProps) {
               </div>
             )}
             
-            <div>
-              <label 
-                htmlFor="email" 
-                className={`block mb-2 text-[13px] font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
-              >
-                Email Address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="Enter your email"
-                required
-                className={`w-full px-3 py-2 text-[13px] border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                  isDarkMode 
-                    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
-                    : 'bg-white border-gray-300 text-black placeholder-gray-500'
-                }`}
-              />
-            </div>
-            
             <div>
               <label 
                 htmlFor="new-password" 
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { User } from 'lucide-react';
+import { api, ApiError, type Comment, type PublicProfile } from '../utils/api';
+import { commentPreview } from '../utils/commentMarkup';
+const logoImage = 'https://i.imgur.com/vUiVqow.png?direct';
+
+interface UserPageProps {
+  isDarkMode: boolean;
+}
+
+// Someone's account as other users see it, where comment mentions link to
+export function UserPage({ isDarkMode }: UserPageProps) {
+  const navigate = useNavigate();
+  const { username = '' } = useParams();
+  const [user, setUser] = useState<PublicProfile | null>(null);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError('');
+
+    Promise.all([
+      api('GET /users/:username', { params: { username }, signal: controller.signal }),
+      api('GET /user-comments/:username', { params: { username }, signal: controller.signal }),
+    ])
+      .then(([userData, commentsData]) => {
+        setUser(userData.user);
+        setComments([...commentsData.comments].sort((a, b) => b.timestamp - a.timestamp));
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading user:', err);
+        setUser(null);
+        setError(err instanceof ApiError && err.status === 404 ? 'There is no user with that name.' : 'Could not load this user.');
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [username]);
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-4 ${isDarkMode ? 'bg-gray-900' : 'bg-gray-50'}`}>
+      <div className={`w-full max-w-md rounded-lg shadow-xl p-8 ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+        {/* Logo */}
+        <div className="flex justify-center mb-6">
+          <img src={logoImage} alt="Trash Bin Logo" className="size-12" />
+        </div>
+
+        {loading ? (
+          <p className={`text-center text-[13px] ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Loading...</p>
+        ) : !user ? (
+          <div className={`p-3 rounded-lg text-[13px] ${isDarkMode ? 'bg-red-900/50 text-red-200' : 'bg-red-50 text-red-800'}`}>
+            {error}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-col items-center gap-2">
+              <div className={`w-16 h-16 rounded-full flex items-center justify-center overflow-hidden ${isDarkMode ? 'bg-gray-600' : 'bg-gray-200'}`}>
+                {user.profilePicture ? (
+                  <img src={user.profilePicture} alt={user.username} className="w-full h-full object-cover" />
+                ) : (
+                  <User className={`size-8 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`} />
+                )}
+              </div>
+              <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-black'}`}>{user.username}</h1>
+              <p className={`text-[13px] ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Member since {new Date(user.createdAt).toLocaleDateString()}
+              </p>
+              {user.watchlistShared && (
+                <button
+                  type="button"
+                  onClick={() => navigate(`/?view=towatch&owner=${encodeURIComponent(user.username)}`)}
+                  className={`text-[13px] hover:underline ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+                >
+                  View watchlist
+                </button>
+              )}
+            </div>
+
+            <div>
+              <h2 className={`text-[16px] font-bold mb-3 ${isDarkMode ? 'text-white' : 'text-black'}`}>Comments</h2>
+              {comments.length === 0 ? (
+                <p className={`text-[13px] ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>No comments yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {comments.map((comment) => (
+                    <button
+                      key={comment.id}
+                      onClick={() => navigate(`/movie/${comment.movieId}`)}
+                      className={`w-full text-left p-3 rounded-lg transition-colors ${
+                        isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-50 hover:bg-gray-100'
+                      }`}
+                    >
+                      <span className={`block text-[11px] mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {new Date(comment.timestamp).toLocaleDateString()}
+                      </span>
+                      <span className={`block text-[13px] ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {commentPreview(comment.text)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => navigate('/')}
+          className={`w-full mt-6 text-[13px] hover:underline ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`}
+        >
+          Back to home
+        </button>
+      </div>
+    </div>
+  );
+}
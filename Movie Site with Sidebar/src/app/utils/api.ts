@@ -0,0 +1,140 @@
+import { projectId } from '/utils/supabase/info';
+import {
+  API_PREFIX,
+  splitRoute,
+  type ApiBody,
+  type ApiParams,
+  type ApiQuery,
+  type ApiResponse,
+  type ApiRoute,
+} from '/supabase/functions/_shared/api';
+import type { FieldError } from '/supabase/functions/_shared/validation';
+import { authHeaders } from './session';
+
+export type {
+  ApiResponse,
+  ApiRoute,
+  Archive,
+  BrokenMedia,
+  BrokenTitle,
+  Comment,
+  CommentModerationAction,
+  CommentReaction,
+  CommentReport,
+  CommentSort,
+  ImportResult,
+  Job,
+  JobType,
+  Movie,
+  MovieFacets,
+  MovieList,
+  MovieListQuery,
+  MoviePage,
+  MovieSort,
+  MovieUpdate,
+  ModeratedComment,
+  ModerationLogEntry,
+  NewComment,
+  NewMovie,
+  PendingTrailer,
+  Poster,
+  PublicProfile,
+  Rating,
+  RestoreReport,
+  Role,
+  Trailer,
+  User,
+  Video,
+  VideoKind,
+} from '/supabase/functions/_shared/api';
+export type { FieldError };
+export { COMMENT_REACTIONS, PROFILE_PICTURE_MAX_BYTES, ROLES } from '/supabase/functions/_shared/api';
+
+export const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1${API_PREFIX}`;
+
+// A request the server answered with an error. `data` is the parsed body,
+// which carries the `existing` record of a 409 conflict.
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public data: any = {}) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // The fields a 400 answer found wrong with the request body
+  get fields(): FieldError[] {
+    return Array.isArray(this.data.fields) ? this.data.fields : [];
+  }
+}
+
+interface RequestOptions {
+  params?: Record<string, string | number>;
+  query?: object; // Values are strings, numbers, booleans or arrays of them
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+// Params are required when the path has any; query and body only where the route takes them
+type RouteOptions<R extends ApiRoute> = { signal?: AbortSignal } &
+  ([keyof ApiParams<R>] extends [never] ? {} : { params: ApiParams<R> }) &
+  ([ApiQuery<R>] extends [never] ? {} : { query?: ApiQuery<R> }) &
+  ([ApiBody<R>] extends [never] ? {} : { body: ApiBody<R> });
+
+type RouteArgs<R extends ApiRoute> = {} extends RouteOptions<R>
+  ? [options?: RouteOptions<R>]
+  : [options: RouteOptions<R>];
+
+// The overloads below check options against the route; these take them unchecked
+function buildUrl(route: ApiRoute, { params = {}, query = {} }: RequestOptions): string {
+  const path = splitRoute(route).path.replace(/:(\w+)/g, (_, name) => encodeURIComponent(String(params[name])));
+
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+    (Array.isArray(value) ? value : [value]).forEach((item) => search.append(key, String(item)));
+  });
+  const queryString = search.toString();
+
+  return `${API_BASE_URL}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+async function send(route: ApiRoute, options: RequestOptions): Promise<Response> {
+  const { body, signal } = options;
+  const response = await fetch(buildUrl(route, options), {
+    method: splitRoute(route).method,
+    headers: authHeaders(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data);
+  }
+  return response;
+}
+
+// The full URL of a route, with its params and query filled in
+export function apiUrl<R extends ApiRoute>(route: R, ...args: RouteArgs<R>): string;
+export function apiUrl(route: ApiRoute, options: RequestOptions = {}): string {
+  return buildUrl(route, options);
+}
+
+// Send a request to a make-server route and return the raw response, for
+// answers that aren't JSON (downloads). Error statuses throw an ApiError.
+export function apiFetch<R extends ApiRoute>(route: R, ...args: RouteArgs<R>): Promise<Response>;
+export function apiFetch(route: ApiRoute, options: RequestOptions = {}): Promise<Response> {
+  return send(route, options);
+}
+
+// Call a make-server route and return its JSON answer. Every failure (an
+// error status, `success: false` or a body that isn't JSON) throws an ApiError.
+export function api<R extends ApiRoute>(route: R, ...args: RouteArgs<R>): Promise<ApiResponse<R>>;
+export async function api(route: ApiRoute, options: RequestOptions = {}): Promise<any> {
+  const response = await send(route, options);
+  const data = await response.json().catch(() => null);
+
+  if (!data || data.success === false) {
+    throw new ApiError(data?.error || 'The server sent an invalid response', response.status, data ?? {});
+  }
+  return data;
+}
@@ -0,0 +1 @@
+export { commentPreview, parseComment, type CommentToken } from '/supabase/functions/_shared/markup';
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvTable } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"')).toEqual([['a', 'b, c', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('accepts CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,x')).toEqual([
+      ['a', '', 'c'],
+      ['', '', 'x'],
+    ]);
+  });
+});
+
+describe('parseCsvTable', () => {
+  it('keys rows by the trimmed header, filling missing values with blanks', () => {
+    expect(parseCsvTable(' Title ,Year\nHeat , 1995\nAlien')).toEqual({
+      headers: ['Title', 'Year'],
+      rows: [
+        { Title: 'Heat', Year: '1995' },
+        { Title: 'Alien', Year: '' },
+      ],
+    });
+  });
+
+  it('returns no headers for an empty file', () => {
+    expect(parseCsvTable('')).toEqual({ headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,72 @@
+// Minimal RFC 4180 CSV parsing: quoted fields, escaped quotes ("") and line
+// breaks inside quotes. Good enough for IMDb and Letterboxd exports.
+
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Exports saved by Excel often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Parse a CSV whose first line holds the column names
+export function parseCsvTable(text: string): CsvTable {
+  const [headerRow = [], ...dataRows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+
+  const rows = dataRows.map((values) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+
+  return { headers, rows };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvTable } from './csv';
+import { guessMapping, previewImport } from './movieImport';
+import type { Movie } from '../components/MovieCard';
+
+const IMDB_HEADERS = ['Const', 'Your Rating', 'Title', 'Year', 'Genres', 'IMDb Rating', 'Runtime (mins)', 'Directors'];
+const LETTERBOXD_HEADERS = ['Date', 'Name', 'Year', 'Letterboxd URI', 'Rating'];
+
+describe('guessMapping', () => {
+  it('maps IMDb export columns, leaving out the personal rating', () => {
+    expect(guessMapping(IMDB_HEADERS)).toEqual({
+      title: 'Title',
+      year: 'Year',
+      imdbId: 'Const',
+      genre: 'Genres',
+      imdbRating: 'IMDb Rating',
+      runtime: 'Runtime (mins)',
+      director: 'Directors',
+    });
+  });
+
+  it('maps Letterboxd export columns', () => {
+    expect(guessMapping(LETTERBOXD_HEADERS)).toEqual({ title: 'Name', year: 'Year' });
+  });
+
+  it('matches column names case-insensitively', () => {
+    expect(guessMapping(['MOVIE', 'tags'])).toEqual({ title: 'MOVIE', tags: 'tags' });
+  });
+});
+
+describe('previewImport', () => {
+  const table = parseCsvTable(
+    [
+      IMDB_HEADERS.join(','),
+      'tt0113277,9,Heat,1995,"Crime, Drama",8.3,170,Michael Mann',
+      'tt0078748,10,Alien,1979,Horror,8.5,117,Ridley Scott',
+      ',,,2000,,,,',
+      'https://www.imdb.com/title/tt0078748/,,Alien again,1979,,,,',
+      ',,Thief,1981,,,2h 2m,',
+      ',,thief ,1981,,,,',
+    ].join('\n')
+  );
+  const existing = [{ id: 1, title: 'Heat', year: 1995, imdbId: 'tt0113277' }] as Movie[];
+
+  const rows = previewImport(table, guessMapping(table.headers), existing);
+
+  it('builds movies from mapped columns', () => {
+    expect(rows[1]).toEqual({
+      line: 3,
+      status: 'new',
+      movie: {
+        title: 'Alien',
+        year: 1979,
+        genre: 'Horror',
+        rating: 8.5,
+        image: '',
+        description: '',
+        imdbId: 'tt0078748',
+        imdbRating: 8.5,
+        runtime: '117 min',
+        director: 'Ridley Scott',
+      },
+    });
+    expect(rows[4].movie?.runtime).toBe('2h 2m');
+  });
+
+  it('flags rows without a title', () => {
+    expect(rows[2]).toEqual({ line: 4, movie: null, status: 'invalid', reason: 'Missing title' });
+  });
+
+  it('flags titles already in the list or earlier in the file', () => {
+    expect(rows.map((row) => row.status)).toEqual(['duplicate', 'new', 'invalid', 'duplicate', 'new', 'duplicate']);
+    // Matched on the IMDb id in the URL, not the title
+    expect(rows[3].movie?.imdbId).toBe('tt0078748');
+  });
+});
@@ -0,0 +1,199 @@
+import { api } from './api';
+import { parseCsvTable, type CsvTable } from './csv';
+import { readZip } from './zip';
+import type { Movie, NewMovie } from '../components/MovieCard';
+
+// Movies sent per import request (the server accepts up to 50)
+export const IMPORT_BATCH_SIZE = 25;
+
+export type ImportFormat = 'imdb' | 'letterboxd' | 'csv';
+
+// Movie fields a column can be mapped to
+export const IMPORT_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'year', label: 'Year' },
+  { key: 'imdbId', label: 'IMDb ID / URL' },
+  { key: 'genre', label: 'Genres' },
+  { key: 'imdbRating', label: 'IMDb rating' },
+  { key: 'runtime', label: 'Runtime' },
+  { key: 'director', label: 'Director' },
+  { key: 'description', label: 'Description' },
+  { key: 'image', label: 'Poster URL' },
+  { key: 'tags', label: 'Tags' },
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number]['key'];
+
+// Field -> column name; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportSource {
+  format: ImportFormat;
+  // A Letterboxd export holds several CSVs (watched, watchlist, ratings, ...)
+  tables: { name: string; table: CsvTable }[];
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  line: number; // Line in the source file, counting the header as line 1
+  movie: NewMovie | null;
+  status: ImportStatus;
+  reason?: string;
+}
+
+export interface ImportSummary {
+  created: number;
+  duplicates: number;
+  failed: number;
+  errors: string[];
+}
+
+// Column names each field is recognised by, compared case-insensitively. IMDb's
+// "Your Rating" and Letterboxd's "Rating" are personal ratings, not IMDb's.
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'film', 'movie'],
+  year: ['year', 'release year'],
+  imdbId: ['const', 'imdb id', 'imdbid', 'imdb', 'tconst', 'imdb url'],
+  genre: ['genres', 'genre'],
+  imdbRating: ['imdb rating', 'imdbrating'],
+  runtime: ['runtime (mins)', 'runtime', 'duration', 'length'],
+  director: ['directors', 'director'],
+  description: ['description', 'plot', 'overview'],
+  image: ['poster', 'poster url', 'image'],
+  tags: ['tags'],
+};
+
+const detectFormat = (headers: string[]): ImportFormat => {
+  if (headers.includes('Const')) return 'imdb';
+  if (headers.includes('Letterboxd URI')) return 'letterboxd';
+  return 'csv';
+};
+
+// Read a CSV export, or the CSVs inside a Letterboxd ZIP
+export async function readImportFile(file: File): Promise<ImportSource> {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    const entries = (await readZip(file))
+      // Letterboxd keeps removed entries in subfolders; only the top-level files are current
+      .filter((entry) => entry.name.toLowerCase().endsWith('.csv') && !entry.name.includes('/'));
+
+    const tables = await Promise.all(
+      entries.map(async (entry) => ({ name: entry.name, table: parseCsvTable(await entry.text()) }))
+    );
+    if (tables.length === 0) {
+      throw new Error('The ZIP file does not contain any CSV files');
+    }
+    return { format: 'letterboxd', tables };
+  }
+
+  const table = parseCsvTable(await file.text());
+  if (table.headers.length === 0) {
+    throw new Error('The file is empty');
+  }
+  return { format: detectFormat(table.headers), tables: [{ name: file.name, table }] };
+}
+
+// The table to import by default: a Letterboxd export's watchlist for the
+// watchlist, its watched films for the library
+export function defaultTableName(source: ImportSource, list: 'movies' | 'towatch'): string {
+  const preferred = list === 'towatch' ? 'watchlist.csv' : 'watched.csv';
+  return (source.tables.find((t) => t.name.toLowerCase() === preferred) ?? source.tables[0]).name;
+}
+
+// Map every field whose column can be recognised by name
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const column = headers.find((header) => COLUMN_ALIASES[key].includes(header.toLowerCase()));
+    if (column) mapping[key] = column;
+  });
+  return mapping;
+}
+
+const toNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// IMDb ids can be given bare or as part of a title URL
+const toImdbId = (value: string): string | undefined => value.match(/tt\d{7,}/)?.[0];
+
+// IMDb exports give runtime in minutes; stored runtimes read like "142 min"
+const toRuntime = (value: string): string | undefined => {
+  if (!value) return undefined;
+  return /^\d+$/.test(value) ? `${value} min` : value;
+};
+
+const buildMovie = (record: Record<string, string>, mapping: ColumnMapping): NewMovie => {
+  const value = (field: ImportField) => (mapping[field] ? record[mapping[field]!] ?? '' : '');
+  const imdbRating = toNumber(value('imdbRating'));
+  const tags = value('tags').split(',').map((tag) => tag.trim()).filter(Boolean);
+
+  return {
+    title: value('title'),
+    year: Math.trunc(toNumber(value('year')) ?? 0),
+    genre: value('genre'),
+    rating: imdbRating ?? 0,
+    image: value('image'),
+    description: value('description'),
+    imdbId: toImdbId(value('imdbId')),
+    imdbRating,
+    runtime: toRuntime(value('runtime')),
+    director: value('director') || undefined,
+    ...(tags.length > 0 ? { tags } : {}),
+  };
+};
+
+const titleKey = (movie: { title: string; year: number }): string =>
+  `${movie.title.trim().toLowerCase()}|${movie.year}`;
+
+// Turn the rows of a table into movies, flagging rows that can't be imported
+// and titles that are already in the list (or earlier in the same file).
+// Titles are matched on IMDb id, or on title and year when the row has none.
+export function previewImport(table: CsvTable, mapping: ColumnMapping, existingMovies: Movie[]): ImportRow[] {
+  const imdbIds = new Set(existingMovies.map((m) => m.imdbId).filter(Boolean));
+  const titles = new Set(existingMovies.map(titleKey));
+
+  return table.rows.map((record, index) => {
+    const line = index + 2;
+    const movie = buildMovie(record, mapping);
+
+    if (!movie.title) {
+      return { line, movie: null, status: 'invalid', reason: 'Missing title' };
+    }
+
+    const duplicate = movie.imdbId ? imdbIds.has(movie.imdbId) : titles.has(titleKey(movie));
+    if (duplicate) {
+      return { line, movie, status: 'duplicate', reason: 'Already in the list' };
+    }
+    if (movie.imdbId) imdbIds.add(movie.imdbId);
+    titles.add(titleKey(movie));
+
+    return { line, movie, status: 'new' };
+  });
+}
+
+// Send movies to the server in batches, reporting progress after each one
+export async function commitImport(
+  list: 'movies' | 'towatch',
+  movies: NewMovie[],
+  onProgress: (done: number, total: number) => void,
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { created: 0, duplicates: 0, failed: 0, errors: [] };
+
+  for (let start = 0; start < movies.length; start += IMPORT_BATCH_SIZE) {
+    const batch = movies.slice(start, start + IMPORT_BATCH_SIZE);
+    const data = await api('POST /import', { body: { list, movies: batch } });
+
+    summary.created += data.summary.created;
+    summary.duplicates += data.summary.duplicates;
+    summary.failed += data.summary.failed;
+    data.results
+      .filter((result) => result.status === 'failed')
+      .forEach((result) => summary.errors.push(`${batch[result.index]?.title}: ${result.error}`));
+
+    onProgress(Math.min(start + batch.length, movies.length), movies.length);
+  }
+
+  return summary;
+}
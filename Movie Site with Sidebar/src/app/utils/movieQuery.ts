@@ -0,0 +1,54 @@
+import { api, type MovieListQuery, type MoviePage, type MovieSort } from './api';
+
+export type { MovieFacets, MoviePage } from './api';
+
+// Parameters understood by GET /movies and GET /towatch
+export interface MovieQueryParams {
+  q?: string;
+  genres?: string[];
+  years?: number[];
+  minRating?: number;
+  maxRating?: number;
+  runtime?: string;
+  tags?: string[];
+  ids?: number[];
+  sort?: MovieSort;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+  user?: string; // Anonymous id, so guests get their own ratings merged in
+  owner?: string; // Username of a shared watchlist to read instead of your own (towatch only)
+}
+
+// The query string of GET /movies and GET /towatch for these parameters
+export function buildMovieQuery(params: MovieQueryParams): MovieListQuery & { owner?: string } {
+  return {
+    q: params.q || undefined,
+    genre: params.genres,
+    year: params.years,
+    minRating: params.minRating || undefined,
+    maxRating: params.maxRating !== undefined && params.maxRating < 10 ? params.maxRating : undefined,
+    runtime: params.runtime && params.runtime !== 'all' ? params.runtime as MovieListQuery['runtime'] : undefined,
+    tag: params.tags,
+    id: params.ids,
+    sort: params.sort,
+    page: params.page || undefined,
+    pageSize: params.pageSize || undefined,
+    cursor: params.cursor || undefined,
+    user: params.user || undefined,
+    owner: params.owner || undefined,
+  };
+}
+
+// Fetch one page of the watched library ('movies') or a watchlist ('towatch').
+// Watchlists belong to users, so 'towatch' needs a signed-in session.
+export async function fetchMoviePage(
+  list: 'movies' | 'towatch',
+  params: MovieQueryParams,
+  signal?: AbortSignal,
+): Promise<MoviePage> {
+  const query = buildMovieQuery(params);
+  return list === 'towatch'
+    ? api('GET /towatch', { query, signal })
+    : api('GET /movies', { query, signal });
+}
@@ -0,0 +1,40 @@
+// Mirrors the role checks in the server's auth module so controls a user
+// can't use are never rendered. The server remains the source of truth.
+import { ROLES, type Role } from './api';
+
+export function hasRole(user: any, role: Role): boolean {
+  if (!user) return false;
+  const userRole: Role = ROLES.includes(user.role) ? user.role : 'viewer';
+  return ROLES.indexOf(userRole) >= ROLES.indexOf(role);
+}
+
+// Curators can add and edit titles
+export function canCurate(user: any): boolean {
+  return hasRole(user, 'curator');
+}
+
+// Watchlist entries can be changed by the user whose list they're on, and by admins
+export function canEditWatchlistEntry(user: any, movie: { ownerId?: string } | null): boolean {
+  if (!user || !movie) return false;
+  return movie.ownerId === user.id || isAdmin(user);
+}
+
+// Admins can delete titles, moderate comments and run maintenance tasks
+export function isAdmin(user: any): boolean {
+  return hasRole(user, 'admin');
+}
+
+// Whether the user wrote a comment. Guest comments have no author account.
+export function isCommentAuthor(user: any, comment: { userId?: string }): boolean {
+  return !!user && !!comment.userId && comment.userId === user.id;
+}
+
+// Authors can edit a comment until its edit window closes
+export function canEditComment(user: any, comment: { userId?: string; editableUntil?: number }): boolean {
+  return isCommentAuthor(user, comment) && Date.now() < (comment.editableUntil ?? 0);
+}
+
+// Authors can delete their own comments; admins can delete any comment
+export function canDeleteComment(user: any, comment: { userId?: string }): boolean {
+  return isCommentAuthor(user, comment) || isAdmin(user);
+}
@@ -0,0 +1,37 @@
+import { decode } from 'blurhash';
+import type { Poster } from './api';
+
+export type { Poster };
+
+export function posterSrcSet(poster: Poster, format: 'jpeg' | 'webp'): string {
+  return poster.variants
+    .filter((variant) => variant.format === format)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+const placeholders = new Map<string, string>();
+
+// Render a blurhash into a small data URL to show while the poster loads.
+// Decoded placeholders are cached, since the same titles show up repeatedly.
+export function blurhashDataUrl(hash: string, width = 24, height = 36): string | null {
+  const cached = placeholders.get(hash);
+  if (cached) return cached;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    const imageData = context.createImageData(width, height);
+    imageData.data.set(decode(hash, width, height));
+    context.putImageData(imageData, 0, 0);
+    const url = canvas.toDataURL();
+    placeholders.set(hash, url);
+    return url;
+  } catch (error) {
+    console.error('Invalid poster blurhash:', error);
+    return null;
+  }
+}
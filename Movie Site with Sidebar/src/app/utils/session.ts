@@ -0,0 +1,38 @@
+import { publicAnonKey } from '/utils/supabase/info';
+
+// Header the server reads the session token from. The Authorization header is
+// reserved for the Supabase anon key required by the functions gateway.
+export const SESSION_HEADER = 'X-Session-Token';
+
+const USER_KEY = 'currentUser';
+const TOKEN_KEY = 'sessionToken';
+
+export function getSessionToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+// Persist the signed-in user and the session token issued by /auth/login or /auth/signup
+export function saveSession(user: any, token?: string) {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+// Request headers for the make-server API, including the session token when signed in
+export function authHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${publicAnonKey}`,
+    ...extra,
+  };
+  const token = getSessionToken();
+  if (token) {
+    headers[SESSION_HEADER] = token;
+  }
+  return headers;
+}
@@ -8,6 +8,12 @@ export function createSlug(title: string): string {
     .trim();
 }
 
+// URL path segment for a movie's detail page. Prefers the unique slug stored
+// by the server and falls back to the title for records that predate it.
+export function movieSlug(movie: { title: string; slug?: string }): string {
+  return movie.slug || createSlug(movie.title);
+}
+
 // Decode slug back to search for movie (not exact reverse, used for finding)
 export function decodeSlug(slug: string): string {
   return slug
@@ -0,0 +1,43 @@
+import type { Trailer } from './api';
+
+export type { Trailer, Video } from './api';
+
+// Pull the video id out of a legacy YouTube URL. Search embeds aren't a video.
+const youtubeIdFromUrl = (url: string): string | null => {
+  if (url.includes('listType=search')) return null;
+  const match = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
+  return match ? match[1] : null;
+};
+
+// A stored trailer, a legacy URL, or just the video it points at
+type TrailerValue = Pick<Trailer, 'provider' | 'videoId'> | string | null | undefined;
+
+// The video a trailer points at. Pending trailers only reach curators; the
+// server leaves them out for everyone else.
+export function asTrailer(trailer: TrailerValue): Pick<Trailer, 'provider' | 'videoId'> | null {
+  if (!trailer) return null;
+  if (typeof trailer !== 'string') return trailer;
+  const videoId = youtubeIdFromUrl(trailer);
+  return videoId ? { provider: 'youtube', videoId } : null;
+}
+
+export function trailerEmbedUrl(trailer: TrailerValue): string | null {
+  const video = asTrailer(trailer);
+  if (!video) return null;
+  return video.provider === 'vimeo'
+    ? `https://player.vimeo.com/video/${video.videoId}`
+    : `https://www.youtube.com/embed/${video.videoId}`;
+}
+
+// Vimeo thumbnails need an API call, so only YouTube ones are shown
+export function trailerThumbnail(trailer: TrailerValue): string | null {
+  const video = asTrailer(trailer);
+  return video?.provider === 'youtube' ? `https://img.youtube.com/vi/${video.videoId}/hqdefault.jpg` : null;
+}
+
+export const VIDEO_LABELS: Record<Trailer['kind'], string> = {
+  trailer: 'Trailer',
+  teaser: 'Teaser',
+  clip: 'Clip',
+  featurette: 'Featurette',
+};
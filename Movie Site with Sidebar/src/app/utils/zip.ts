@@ -0,0 +1,79 @@
+// Reads the files out of a ZIP archive in the browser, e.g. a Letterboxd
+// export. Supports stored and deflated entries, which is what exports use;
+// decompression is done by the browser's DecompressionStream.
+
+export interface ZipEntry {
+  name: string;
+  text: () => Promise<string>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP file');
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories have no content
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      text: async () => {
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        // The local header's name and extra field lengths can differ from the central directory's
+        const dataStart = localHeaderOffset + 30 +
+          view.getUint16(localHeaderOffset + 26, true) +
+          view.getUint16(localHeaderOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === STORED) return decoder.decode(data);
+        if (method === DEFLATED) return decoder.decode(await inflate(data));
+        throw new Error(`Unsupported compression in ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,524 @@
+// The contract between the make-server function and the web client: every
+// route, what it accepts and what it answers with. The server registers its
+// routes by these keys and the client's api() only accepts them, so a route
+// that is renamed or removed on one side fails to compile on the other.
+//
+// Responses are described without the `success: true` every JSON answer
+// carries. Failures answer `{ success: false, error }` with a 4xx/5xx status;
+// conflicts (409) also send the `existing` record, and bodies that don't match
+// the route's schema (400, see schemas.ts) list the problems in `fields`.
+//
+// This file is shared with the browser, so it must stay free of Deno and npm
+// imports.
+
+export const API_PREFIX = "/make-server-ea58c774";
+
+// Roles in increasing order of privilege. Users without a role are viewers.
+export const ROLES = ["viewer", "curator", "admin"] as const;
+export type Role = typeof ROLES[number];
+
+// A user as the server sends it, without the password hash
+export interface User {
+  id: string;
+  username: string;
+  email: string;
+  role: Role;
+  createdAt: number;
+  profilePicture?: string; // An http(s) URL or an uploaded image as a data: URL
+  watchlistShared?: boolean;
+}
+
+// Largest image a profile picture can be uploaded as. It's stored on the user
+// and sent with every comment of theirs, so it has to stay small.
+export const PROFILE_PICTURE_MAX_BYTES = 512 * 1024;
+
+// What anyone can see of a user, on the page comment mentions link to
+export type PublicProfile = Pick<User, "username" | "createdAt" | "profilePicture" | "watchlistShared">;
+
+// A poster the server downloaded and stored in several widths. Titles added
+// before posters were stored only have `image`.
+export interface PosterVariant {
+  width: number;
+  format: "jpeg" | "webp";
+  url: string;
+}
+
+export interface Poster {
+  source: string; // The URL the poster was downloaded from
+  hash: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  url: string; // Largest JPEG variant, also stored in movie.image
+  variants: PosterVariant[];
+  storedAt: number;
+}
+
+export const VIDEO_KINDS = ["trailer", "teaser", "clip", "featurette"] as const;
+export type VideoKind = typeof VIDEO_KINDS[number];
+
+// Trailers as the server stores them. Movies saved before trailers were
+// structured may still hold a plain YouTube URL until the migration job runs.
+export interface Trailer {
+  provider: "youtube" | "vimeo"; // Where the video is hosted
+  videoId: string;
+  language?: string; // ISO 639-1
+  kind: VideoKind;
+  title?: string;
+  resolver: "tmdb" | "youtube" | "imdb" | "manual";
+  confidence: number; // 0 to 1
+  status: "approved" | "pending";
+  resolvedAt: number;
+  reviewedBy?: string;
+  reviewedAt?: number;
+}
+
+// Extra videos attached to a title, in the order curators gave them
+export interface Video {
+  id: string;
+  movieId: number;
+  provider: Trailer["provider"];
+  videoId: string;
+  type: VideoKind;
+  language?: string; // ISO 639-1
+  title?: string;
+  order: number;
+  addedBy?: string;
+  addedAt?: number;
+}
+
+export interface BrokenMedia {
+  url: string;
+  reason: string;
+  detectedAt: number; // When the problem was first seen
+  checkedAt: number; // When it was last confirmed
+}
+
+export const TITLE_KINDS = ["movie", "series", "miniseries", "short"] as const;
+export type TitleKind = typeof TITLE_KINDS[number];
+
+export interface Movie {
+  id: number;
+  title: string;
+  year: number;
+  genre: string;
+  rating: number;
+  image: string;
+  // Set once the server has stored the poster; `image` is then its largest variant
+  poster?: Poster;
+  // "manual" once a user picked the poster, which the metadata refresh then
+  // leaves alone. Titles without it show the provider's poster.
+  posterOrigin?: "provider" | "manual";
+  description: string;
+  // Enhanced details
+  imdbRating?: number;
+  imdbVotes?: number;
+  director?: string;
+  cast?: string[];
+  // Display label like "142 min" or "3 Seasons", derived by the server from the fields below
+  runtime?: string;
+  kind?: TitleKind;
+  runtimeMinutes?: number; // Per episode for series
+  seasonCount?: number;
+  episodeCount?: number;
+  plot?: string;
+  imdbId?: string;
+  // Legacy records hold a YouTube URL until the trailer migration job runs.
+  // Pending trailers are only sent to curators.
+  trailer?: Trailer | string;
+  // When the scheduled refresh last updated the provider fields
+  metadataUpdatedAt?: number;
+  // Unique URL slug assigned by the server
+  slug?: string;
+  // Id of the user whose watchlist this entry is on (watchlist entries only)
+  ownerId?: string;
+  // Set by the "check-media" job for media it couldn't repair
+  brokenMedia?: { poster?: BrokenMedia; trailer?: BrokenMedia };
+  // User features
+  userRating?: number;
+  tags?: string[];
+  // Community rating
+  communityRating?: number;
+  ratingCount?: number;
+  // Timestamp for recently added tracking
+  dateAdded?: number;
+  // When the title was moved from the to-watch list into the library
+  watchedAt?: number;
+}
+
+// The fields a client sends to add a title. The rest (id, slug, owner, stored
+// poster, trailer, timestamps, community rating) belong to the server.
+export type NewMovie = Pick<Movie, "title" | "year" | "genre" | "rating" | "image" | "description"> &
+  Partial<Pick<
+    Movie,
+    | "imdbRating"
+    | "imdbVotes"
+    | "director"
+    | "cast"
+    | "runtime"
+    | "kind"
+    | "runtimeMinutes"
+    | "seasonCount"
+    | "episodeCount"
+    | "plot"
+    | "imdbId"
+    | "userRating"
+    | "tags"
+  >>;
+
+// Editable fields of a title. Sending only `runtime` has the server parse the label.
+export type MovieUpdate = Partial<NewMovie>;
+
+export const MOVIE_LISTS = ["movies", "towatch"] as const;
+export type MovieList = typeof MOVIE_LISTS[number];
+
+export const MOVIE_SORTS = [
+  "dateAdded",
+  "dateAddedLatest",
+  "title",
+  "year",
+  "imdbRating",
+  "userRating",
+  "communityRating",
+  "runtime",
+] as const;
+export type MovieSort = typeof MOVIE_SORTS[number];
+
+export const RUNTIME_FILTERS = ["short", "medium", "long", "oneSeason", "multiSeason"] as const;
+export type RuntimeFilter = typeof RUNTIME_FILTERS[number];
+
+// Query parameters of GET /movies and GET /towatch. Repeated parameters
+// (genre, year, tag, id) match any of their values.
+export interface MovieListQuery {
+  q?: string;
+  genre?: string[];
+  year?: number[];
+  minRating?: number;
+  maxRating?: number;
+  runtime?: RuntimeFilter;
+  tag?: string[];
+  id?: number[];
+  sort?: MovieSort;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+  user?: string; // Anonymous id, so guests get their own ratings merged in
+}
+
+// Counts for each filter value with the other active filters applied
+export interface MovieFacets {
+  genres: Record<string, number>;
+  years: Record<string, number>;
+  tags: Record<string, number>;
+  runtime: Record<string, number>;
+}
+
+export interface MoviePage {
+  movies: Movie[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  nextCursor: string | null;
+  facets: MovieFacets;
+}
+
+export const COMMENT_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🍿"] as const;
+export type CommentReaction = typeof COMMENT_REACTIONS[number];
+
+// Top-level comments newest first, or those with the most reactions first
+export type CommentSort = "newest" | "top";
+
+export interface Comment {
+  id: string;
+  movieId: number;
+  parentId?: string; // The comment this one replies to
+  // The author's account. Guest comments, and comments posted before authors
+  // were recorded, don't have one.
+  userId?: string;
+  username: string; // The author's username, or the name a guest gave
+  guest?: boolean;
+  text: string;
+  timestamp: number;
+  editedAt?: number;
+  // Until when the author may edit the comment (signed-in authors only)
+  editableUntil?: number;
+  profilePicture?: string;
+  reactions?: Partial<Record<CommentReaction, number>>; // How many users gave each emoji
+  myReactions?: CommentReaction[]; // The signed-in viewer's own reactions
+  // What the markup in `text` points at (see markup.ts), looked up by the
+  // server: the @mentions that name an account, lowercased, and for each
+  // [[title]] (lowercased) the slug of the title it names, or null when
+  // several titles share the name. Anything not listed names nothing.
+  mentions?: string[];
+  movieLinks?: Record<string, string | null>;
+  // Set on what's left of a comment its author deleted while it had replies:
+  // the text and username are "[deleted]" and the author is gone
+  deletedAt?: number;
+}
+
+// One user's reaction to a comment, as the server stores and exports it
+export interface CommentReactionRecord {
+  commentId: string;
+  userId: string;
+  emoji: CommentReaction;
+  reactedAt: number;
+}
+
+// The server sets the id, time and author. Signed-in users always comment as
+// themselves; guests, where the server allows them, give a `guestName`.
+export type NewComment = Pick<Comment, "movieId" | "text" | "parentId"> & { guestName?: string };
+
+export interface CommentReport {
+  userId: string;
+  username: string;
+  reason: string;
+  reportedAt: number;
+}
+
+export type CommentModerationAction = "hide" | "restore" | "delete";
+
+// A comment in the moderation queue, with its open reports
+export type ModeratedComment = Comment & { reports: CommentReport[]; hiddenAt?: number; hiddenBy?: string };
+
+// One moderation action, with the comment as it was when the action was taken
+export interface ModerationLogEntry {
+  id: string;
+  action: CommentModerationAction;
+  movieId: number;
+  commentId: string;
+  author: string;
+  text: string;
+  reports: CommentReport[];
+  moderator: string;
+  note?: string;
+  at: number;
+}
+
+export interface Rating {
+  movieId: number;
+  rating: number; // 1 to 5
+  userIdentifier: string; // Username, or the anon_ id of a guest
+  timestamp: number;
+}
+
+export const JOB_TYPES = [
+  "fix-plots",
+  "fetch-trailers",
+  "migrate-trailers",
+  "fix-runtimes",
+  "migrate-runtimes",
+  "reimport",
+  "refresh-metadata",
+  "store-posters",
+  "check-media",
+] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobParams {
+  list: MovieList;
+  force?: boolean; // fetch-trailers: replace trailers titles already have
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  params: JobParams;
+  status: JobStatus;
+  cursor: number;
+  total: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  recentErrors: { movieId: number; title: string; error: string }[];
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+// A title waiting in the trailer review queue
+export type PendingTrailer = Pick<Movie, "id" | "title" | "year" | "slug" | "image"> & { trailer: Trailer };
+
+// A title in the broken media report
+export type BrokenTitle = Pick<Movie, "id" | "title" | "year" | "slug" | "image" | "ownerId"> & {
+  list: MovieList;
+  brokenMedia: NonNullable<Movie["brokenMedia"]>;
+};
+
+export interface ImportResult {
+  index: number; // Position of the movie in the request
+  status: "created" | "duplicate" | "failed";
+  movie?: Movie;
+  error?: string;
+}
+
+// Everything stored, as written by GET /admin/export and read by POST /admin/restore
+export interface Archive {
+  version: number;
+  exportedAt: string;
+  movies: Movie[];
+  towatch: Movie[];
+  videos?: Video[];
+  comments: Comment[];
+  reactions?: CommentReactionRecord[];
+  ratings: Rating[];
+  users: Omit<User, "role">[];
+}
+
+export interface RestoreReport {
+  dryRun: boolean;
+  version: number;
+  counts: Record<string, { created: number; updated: number; unchanged: number; conflicts: number }>;
+  conflicts: { section: string; key: string; reason: string }[];
+}
+
+export interface Session {
+  user: User;
+  token: string;
+  expiresAt: number;
+}
+
+// Every route, keyed by "METHOD /path" relative to API_PREFIX. `query` and
+// `body` describe the request; `response` the JSON of a successful answer.
+export interface ApiRoutes {
+  "GET /health": {
+    response: { status: "ok"; metadata: Record<string, unknown>; posterStorage: string };
+  };
+  "GET /metadata/:imdbId": { response: { movie: Partial<NewMovie>; provider: string } };
+
+  // Maintenance jobs (admin)
+  "POST /jobs": {
+    body: { type: JobType; list?: MovieList; force?: boolean };
+    response: { job: Job };
+  };
+  "GET /jobs": { response: { jobs: Job[] } };
+  "GET /jobs/:id": { response: { job: Job } };
+  "POST /jobs/:id/cancel": { response: { job: Job } };
+  "POST /cron/refresh-metadata": { response: { job: Job; resumed: boolean } };
+
+  // Trailers and videos
+  "POST /movies/:id/fetch-trailer": { response: { trailer: Trailer; movie: Movie } };
+  // A null url removes the trailer
+  "PATCH /movies/:id/trailer": { body: { url: string | null }; response: { movie: Movie } };
+  "GET /trailers/review": { response: { movies: PendingTrailer[] } };
+  "POST /trailers/review/:id": { body: { action: "approve" | "reject" }; response: { movie: Movie } };
+  "GET /movies/:id/videos": { response: { videos: Video[] } };
+  "POST /movies/:id/videos": {
+    body: { url: string; type?: VideoKind; language?: string; title?: string };
+    response: { video: Video };
+  };
+  "PUT /movies/:id/videos/order": { body: { ids: string[] }; response: { videos: Video[] } };
+  "PATCH /movies/:id/videos/:videoId": {
+    body: { type?: VideoKind; language?: string; title?: string };
+    response: { video: Video };
+  };
+  "DELETE /movies/:id/videos/:videoId": { response: {} };
+  "GET /media/report": { response: { titles: BrokenTitle[] } };
+
+  // The watched library
+  "GET /movies": { query: MovieListQuery; response: MoviePage };
+  "GET /movies/by-slug/:slug": { response: { movie: Movie; list: MovieList; redirected?: boolean } };
+  "POST /movies": { body: NewMovie; response: { movie: Movie } };
+  "DELETE /movies/:id": { response: {} };
+  "PATCH /movies/:id/poster": { body: { image: string }; response: { movie: Movie } };
+  "PATCH /movies/:id": { body: MovieUpdate; response: { movie: Movie } };
+  // Stored poster files (binary)
+  "GET /posters/:hash/:file": { response: Blob };
+
+  // Watchlists
+  "GET /towatch": {
+    query: MovieListQuery & { owner?: string }; // owner: username of a shared watchlist to read
+    response: MoviePage & { owner: { username: string; shared: boolean } };
+  };
+  "POST /towatch": { body: NewMovie; response: { movie: Movie } };
+  "PATCH /towatch/:id": { body: MovieUpdate; response: { movie: Movie } };
+  "POST /towatch/:id/watched": { response: { movie: Movie } };
+  "DELETE /towatch/:id": { response: {} };
+  "PATCH /watchlist/sharing": { body: { shared: boolean }; response: { user: User } };
+  "POST /import": {
+    body: { list: MovieList; movies: NewMovie[] };
+    response: { results: ImportResult[]; summary: { created: number; duplicates: number; failed: number } };
+  };
+
+  // Comments and ratings
+  // Threads in `sort` order, then every reply oldest first
+  "GET /comments/:movieId": { query: { sort?: CommentSort }; response: { comments: Comment[] } };
+  "GET /comments": { response: { comments: Comment[] } };
+  "POST /comments": { body: NewComment; response: { comment: Comment } };
+  "PATCH /comments/:movieId/:commentId": { body: { text: string }; response: { comment: Comment } };
+  "DELETE /comments/:movieId/:commentId": { response: {} };
+  "POST /comments/:movieId/:commentId/report": { body: { reason: string }; response: {} };
+  // Add (active: true) or take back the signed-in user's reaction
+  "POST /comments/:movieId/:commentId/reactions": {
+    body: { emoji: CommentReaction; active: boolean };
+    response: { comment: Comment };
+  };
+  "GET /user-comments/:username": { response: { comments: Comment[] } };
+  "GET /users/:username": { response: { user: PublicProfile } };
+  "POST /ratings": {
+    // Signed-in users rate as themselves; userIdentifier is only read for guests, and must be an anon_ id
+    body: { movieId: number; rating: number; userIdentifier?: string };
+    response: { rating: Rating };
+  };
+  "GET /ratings/:movieId": { response: { ratings: Rating[]; average: number; count: number } };
+  "GET /ratings": { response: { averages: Record<string, { average: number; count: number }> } };
+  "GET /user-ratings/:userIdentifier": { response: { userRatings: Record<string, number> } };
+
+  // Accounts
+  "POST /auth/signup": { body: { username: string; email: string; password: string }; response: Session };
+  "POST /auth/login": { body: { username: string; password: string }; response: Session };
+  "GET /auth/session": { response: { user: User } };
+  "POST /auth/logout": { response: {} };
+  "PATCH /auth/profile": {
+    body: { email?: string; password?: string; profilePicture?: string };
+    response: { user: User };
+  };
+  "POST /auth/forgot-password": { body: { email: string }; response: { message: string } };
+  "POST /auth/reset-password": { body: { token: string; newPassword: string }; response: { message: string } };
+
+  // Administration
+  "GET /admin/users": { response: { users: User[] } };
+  "PATCH /admin/users/:id/role": { body: { role: Role }; response: { user: User } };
+  "POST /admin/indexes/rebuild": { response: { counts: Record<string, number> } };
+  // format=csv answers with a CSV file of the library instead
+  "GET /admin/export": { query: { format?: "json" | "csv" }; response: Archive };
+  "POST /admin/restore": {
+    query: { dryRun?: boolean; overwrite?: boolean };
+    body: Archive;
+    response: RestoreReport;
+  };
+  "POST /admin/watchlists/migrate": { body: { username?: string }; response: { assigned: number; owner: string } };
+  "POST /admin/movies/backfill-slugs": { response: { updated: number } };
+
+  // Comment moderation (admin)
+  "GET /moderation/comments": { response: { comments: ModeratedComment[] } };
+  "POST /moderation/comments/:movieId/:commentId": {
+    body: { action: CommentModerationAction; note?: string };
+    response: { comment: ModeratedComment | null }; // null once deleted
+  };
+  "GET /moderation/log": { response: { entries: ModerationLogEntry[] } };
+}
+
+export type ApiRoute = keyof ApiRoutes;
+
+// The names of the `:params` in a route's path
+type ParamNames<Path extends string> = Path extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | ParamNames<Rest>
+  : Path extends `${string}:${infer Name}`
+  ? Name
+  : never;
+
+export type ApiParams<R extends ApiRoute> = { [Name in ParamNames<R>]: string | number };
+export type ApiQuery<R extends ApiRoute> = ApiRoutes[R] extends { query: infer Query extends object } ? Query : never;
+export type ApiBody<R extends ApiRoute> = ApiRoutes[R] extends { body: infer Body } ? Body : never;
+export type ApiResponse<R extends ApiRoute> = ApiRoutes[R]["response"];
+
+// The method and path (below API_PREFIX) of a route
+export const splitRoute = (route: ApiRoute) => {
+  const [method, path] = route.split(" ");
+  return { method, path };
+};
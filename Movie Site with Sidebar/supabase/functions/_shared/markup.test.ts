@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { commentPreview, commentReferences, parseComment } from "./markup.ts";
+
+describe("parseComment", () => {
+  it("keeps plain text as one token", () => {
+    expect(parseComment("Just text")).toEqual([{ type: "text", text: "Just text" }]);
+  });
+
+  it("nests markup inside spoilers and bold", () => {
+    expect(parseComment("||the **twist**||")).toEqual([
+      {
+        type: "spoiler",
+        children: [
+          { type: "text", text: "the " },
+          { type: "bold", children: [{ type: "text", text: "twist" }] },
+        ],
+      },
+    ]);
+  });
+
+  it("reads both italic markers but not underscores inside words", () => {
+    expect(parseComment("*one* _two_")).toEqual([
+      { type: "italic", children: [{ type: "text", text: "one" }] },
+      { type: "text", text: " " },
+      { type: "italic", children: [{ type: "text", text: "two" }] },
+    ]);
+    expect(parseComment("snake_case_name")).toEqual([{ type: "text", text: "snake_case_name" }]);
+  });
+
+  it("reads labelled and bare links, leaving trailing punctuation out", () => {
+    expect(parseComment("[site](https://example.com) or https://example.com/a.")).toEqual([
+      { type: "link", href: "https://example.com", label: "site" },
+      { type: "text", text: " or " },
+      { type: "link", href: "https://example.com/a", label: "https://example.com/a" },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("only links http and https URLs", () => {
+    expect(parseComment("[x](javascript:alert(1))")).toEqual([{ type: "text", text: "[x](javascript:alert(1))" }]);
+  });
+
+  it("reads mentions and movie titles, but not email addresses", () => {
+    expect(parseComment("@jane.doe liked [[ Heat ]]")).toEqual([
+      { type: "mention", username: "jane.doe" },
+      { type: "text", text: " liked " },
+      { type: "movie", title: "Heat" },
+    ]);
+    expect(parseComment("mail me@example.com")).toEqual([{ type: "text", text: "mail me@example.com" }]);
+  });
+});
+
+describe("commentPreview", () => {
+  it("drops markup, hides spoilers and collapses whitespace", () => {
+    expect(commentPreview("**Great**\n\n||he dies|| [[Heat]]  @sam")).toBe("Great [spoiler] Heat @sam");
+  });
+});
+
+describe("commentReferences", () => {
+  it("collects mentions and titles, including ones inside other markup", () => {
+    expect(commentReferences("@ann see **[[Alien]]** with @Bob ||[[Aliens]]||")).toEqual({
+      usernames: ["ann", "Bob"],
+      titles: ["Alien", "Aliens"],
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// The markup comments can use, parsed when they're shown. Comments are stored
+// as typed; the parser only splits them into tokens that are rendered as React
+// elements, never as HTML, so nothing a comment contains can inject markup.
+// The server parses them too, to look up the users and titles they name.
+//
+// Shared with the browser like api.ts, so no Deno or npm imports.
+//
+//   ||spoiler||   **bold**   *italic* or _italic_   @username   [[Movie title]]
+//   [label](https://…) and bare https://… links
+
+export type CommentToken =
+  | { type: "text"; text: string }
+  | { type: "bold" | "italic" | "spoiler"; children: CommentToken[] }
+  | { type: "link"; href: string; label: string }
+  | { type: "mention"; username: string }
+  | { type: "movie"; title: string };
+
+// One alternative per kind of markup, tried left to right at each position.
+// Spoilers and bold come first so their markers aren't read as italics.
+const MARKUP = new RegExp(
+  [
+    /\|\|([\s\S]+?)\|\|/.source, // 1: spoiler
+    /\*\*([\s\S]+?)\*\*/.source, // 2: bold
+    /\*([^*\s](?:[^*]*?[^*\s])?)\*/.source, // 3: italic
+    /\b_([^_\s](?:[^_]*?[^_\s])?)_\b/.source, // 4: italic, but not inside snake_case words
+    /\[\[([^[\]\n]{1,300})\]\]/.source, // 5: movie title
+    /\[([^[\]\n]{1,300})\]\((https?:\/\/[^\s)]+)\)/.source, // 6, 7: labelled link
+    /(https?:\/\/[^\s<]*[^\s<.,:;!?)'"])/.source, // 8: bare link, without trailing punctuation
+    /(?<![\w@])@([\w-]+(?:\.[\w-]+)*)/.source, // 9: mention, but not an email address
+  ].join("|"),
+  "g",
+);
+
+export function parseComment(text: string): CommentToken[] {
+  const tokens: CommentToken[] = [];
+  const pushText = (value: string) => {
+    if (value) tokens.push({ type: "text", text: value });
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(MARKUP)) {
+    pushText(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [, spoiler, bold, italic, underscored, movie, label, labelHref, href, username] = match;
+    if (spoiler !== undefined) tokens.push({ type: "spoiler", children: parseComment(spoiler) });
+    else if (bold !== undefined) tokens.push({ type: "bold", children: parseComment(bold) });
+    else if (italic !== undefined || underscored !== undefined) {
+      tokens.push({ type: "italic", children: parseComment(italic ?? underscored) });
+    } else if (movie !== undefined) tokens.push({ type: "movie", title: movie.trim() });
+    else if (label !== undefined) tokens.push({ type: "link", href: labelHref, label });
+    else if (href !== undefined) tokens.push({ type: "link", href, label: href });
+    else tokens.push({ type: "mention", username });
+  }
+  pushText(text.slice(last));
+  return tokens;
+}
+
+const plainText = (tokens: CommentToken[]): string =>
+  tokens
+    .map((token) => {
+      switch (token.type) {
+        case "text":
+          return token.text;
+        case "bold":
+        case "italic":
+          return plainText(token.children);
+        case "spoiler":
+          return "[spoiler]";
+        case "link":
+          return token.label;
+        case "mention":
+          return `@${token.username}`;
+        case "movie":
+          return token.title;
+      }
+    })
+    .join("");
+
+// A comment as plain text for previews: markup removed and spoilers left out
+export function commentPreview(text: string): string {
+  return plainText(parseComment(text)).replace(/\s+/g, " ").trim();
+}
+
+// The usernames a comment mentions and the titles it links, as written
+export function commentReferences(text: string): { usernames: string[]; titles: string[] } {
+  const usernames: string[] = [];
+  const titles: string[] = [];
+  const collect = (tokens: CommentToken[]) =>
+    tokens.forEach((token) => {
+      if (token.type === "mention") usernames.push(token.username);
+      else if (token.type === "movie") titles.push(token.title);
+      else if ("children" in token) collect(token.children);
+    });
+  collect(parseComment(text));
+  return { usernames, titles };
+}
@@ -0,0 +1,178 @@
+// What each route accepts as its JSON body. Every route of the contract that
+// takes a body needs an entry here, typed against that body, so the schemas
+// can't fall behind api.ts. The server checks bodies against these before a
+// handler runs; fields a schema doesn't list are dropped.
+
+import {
+  COMMENT_REACTIONS,
+  JOB_TYPES,
+  MOVIE_LISTS,
+  PROFILE_PICTURE_MAX_BYTES,
+  ROLES,
+  TITLE_KINDS,
+  VIDEO_KINDS,
+  type ApiBody,
+  type ApiRoute,
+  type ApiRoutes,
+  type CommentReactionRecord,
+  type NewMovie,
+  type Video,
+} from "./api.ts";
+import {
+  array,
+  boolean,
+  fallback,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  optionalOrBlank,
+  partial,
+  record,
+  string,
+  type Schema,
+  type Shape,
+} from "./validation.ts";
+
+// Most titles an import request may carry. Clients split larger imports.
+export const IMPORT_BATCH_LIMIT = 50;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const IMDB_ID = /^tt\d+$/;
+// Guests rate under an id of this form, and no username can take it, so a
+// guest's rating can never land on a registered user's
+const GUEST_ID = /^anon_[\w-]{8,100}$/;
+// Letters, digits, _ and -, with single dots between them: what an @mention in
+// a comment (see markup.ts) can name and a /user/<username> link can carry.
+// Guest ids are left out.
+const USERNAME = /^(?!anon_)[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/i;
+// A link to an image, an uploaded JPEG or PNG, or empty to remove it
+const PROFILE_PICTURE = /^(https?:\/\/\S+|data:image\/(jpeg|png);base64,[A-Za-z0-9+/]+=*)?$/;
+
+const text = (max: number) => string({ max });
+const required = (max: number) => string({ min: 1, max });
+const count = number({ min: 1, integer: true });
+const score = number({ min: 0, max: 10 });
+const email = string({ max: 254, pattern: EMAIL, hint: "must be an email address" });
+const password = string({ min: 6, max: 200 });
+
+const movieFields: Shape<NewMovie> = {
+  title: required(300),
+  // 0 when an import doesn't know the year
+  year: number({ min: 0, max: 3000, integer: true }),
+  genre: text(100),
+  rating: score,
+  image: text(2000),
+  description: text(5000),
+  imdbRating: optional(score),
+  imdbVotes: optional(number({ min: 0, integer: true })),
+  director: optional(text(300)),
+  cast: optional(array(text(200), { max: 100 })),
+  runtime: optional(text(100)),
+  kind: optional(oneOf(TITLE_KINDS)),
+  runtimeMinutes: optional(count),
+  seasonCount: optional(count),
+  episodeCount: optional(count),
+  plot: optional(text(5000)),
+  imdbId: optional(string({ pattern: IMDB_ID, hint: "must be an IMDb id like tt0111161" })),
+  userRating: optional(score),
+  tags: optional(array(required(50), { max: 50 })),
+};
+
+const newMovie = object(movieFields);
+const movieUpdate = partial(movieFields);
+
+const videoFields = {
+  type: optional(oneOf(VIDEO_KINDS)),
+  language: optional(string({ pattern: /^([a-z]{2})?$/, hint: 'must be a two-letter code like "en"' })),
+  title: optional(text(200)),
+};
+
+type BodyRoute = { [R in ApiRoute]: ApiRoutes[R] extends { body: unknown } ? R : never }[ApiRoute];
+
+export const BODY_SCHEMAS: { [R in BodyRoute]: Schema<ApiBody<R>> } = {
+  "POST /jobs": object({
+    type: oneOf(JOB_TYPES),
+    list: optional(oneOf(MOVIE_LISTS)),
+    force: optional(boolean()),
+  }),
+
+  "PATCH /movies/:id/trailer": object({ url: nullable(text(500)) }),
+  "POST /trailers/review/:id": object({ action: oneOf(["approve", "reject"] as const) }),
+  "POST /movies/:id/videos": object({ url: required(500), ...videoFields }),
+  "PUT /movies/:id/videos/order": object({ ids: array(required(100), { max: 200 }) }),
+  "PATCH /movies/:id/videos/:videoId": object(videoFields),
+
+  "POST /movies": newMovie,
+  "PATCH /movies/:id/poster": object({ image: required(2000) }),
+  "PATCH /movies/:id": movieUpdate,
+
+  "POST /towatch": newMovie,
+  "PATCH /towatch/:id": movieUpdate,
+  "PATCH /watchlist/sharing": object({ shared: boolean() }),
+  "POST /import": object({
+    list: oneOf(MOVIE_LISTS),
+    movies: array(newMovie, { min: 1, max: IMPORT_BATCH_LIMIT }),
+  }),
+
+  "POST /comments": object({
+    movieId: count,
+    text: required(5000),
+    parentId: optional(required(100)),
+    guestName: optional(required(50)),
+  }),
+  "PATCH /comments/:movieId/:commentId": object({ text: required(5000) }),
+  "POST /comments/:movieId/:commentId/report": object({ reason: required(500) }),
+  "POST /comments/:movieId/:commentId/reactions": object({ emoji: oneOf(COMMENT_REACTIONS), active: boolean() }),
+  "POST /ratings": object({
+    movieId: count,
+    rating: number({ min: 1, max: 5, integer: true }),
+    userIdentifier: optional(string({ pattern: GUEST_ID, hint: "must be a guest id like anon_<random>" })),
+  }),
+
+  "POST /auth/signup": object({
+    username: string({
+      min: 1,
+      max: 50,
+      pattern: USERNAME,
+      hint: "can only use letters, digits, _, - and dots between them, and can't start with anon_",
+    }),
+    email,
+    password,
+  }),
+  "POST /auth/login": object({ username: required(50), password: required(200) }),
+  "PATCH /auth/profile": object({
+    email: optional(email),
+    // Left out or empty to keep the current password
+    password: optionalOrBlank(password),
+    profilePicture: optional(string({
+      // The base64 of an upload of the largest size, plus its data: prefix
+      max: Math.ceil(PROFILE_PICTURE_MAX_BYTES / 3) * 4 + 30,
+      pattern: PROFILE_PICTURE,
+      hint: "must be an http(s) link or an uploaded JPEG or PNG image",
+    })),
+  }),
+  "POST /auth/forgot-password": object({ email: required(254) }),
+  "POST /auth/reset-password": object({ token: required(200), newPassword: password }),
+
+  "PATCH /admin/users/:id/role": object({ role: oneOf(ROLES) }),
+  // Sections are checked record by record when the archive is restored
+  "POST /admin/restore": object({
+    version: number(),
+    exportedAt: fallback(text(100), ""),
+    movies: fallback(array(record()), []),
+    towatch: fallback(array(record()), []),
+    videos: optional(array(record<Video>())),
+    comments: fallback(array(record()), []),
+    reactions: optional(array(record<CommentReactionRecord>())),
+    ratings: fallback(array(record()), []),
+    users: fallback(array(record()), []),
+  }),
+  "POST /admin/watchlists/migrate": object({ username: optional(required(50)) }),
+
+  "POST /moderation/comments/:movieId/:commentId": object({
+    action: oneOf(["hide", "restore", "delete"] as const),
+    note: optional(text(500)),
+  }),
+};
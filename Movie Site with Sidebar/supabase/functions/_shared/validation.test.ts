@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  array,
+  describeErrors,
+  fallback,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  optionalOrBlank,
+  partial,
+  string,
+  validate,
+} from "./validation.ts";
+
+describe("string", () => {
+  const name = string({ min: 1, max: 5, pattern: /^[a-z]+$/, hint: "must be lowercase letters" });
+
+  it("accepts text within its limits", () => {
+    expect(validate(name, "abc")).toEqual({ value: "abc", errors: [] });
+  });
+
+  it("reports what is wrong", () => {
+    expect(validate(name, undefined).errors).toEqual([{ field: "", message: "is required" }]);
+    expect(validate(name, 5).errors[0].message).toBe("must be text");
+    expect(validate(name, "  ").errors[0].message).toBe("can't be empty");
+    expect(validate(name, "abcdef").errors[0].message).toBe("must be at most 5 characters");
+    expect(validate(name, "ABC").errors[0].message).toBe("must be lowercase letters");
+  });
+});
+
+describe("number", () => {
+  it("checks type, whole numbers and range", () => {
+    const count = number({ min: 1, max: 10, integer: true });
+    expect(validate(count, 3).errors).toEqual([]);
+    expect(validate(count, "3").errors[0].message).toBe("must be a number");
+    expect(validate(count, Number.NaN).errors[0].message).toBe("must be a number");
+    expect(validate(count, 1.5).errors[0].message).toBe("must be a whole number");
+    expect(validate(count, 0).errors[0].message).toBe("must be at least 1");
+    expect(validate(count, 11).errors[0].message).toBe("must be at most 10");
+  });
+});
+
+describe("oneOf", () => {
+  it("lists the allowed values when given another", () => {
+    expect(validate(oneOf(["a", "b"] as const), "c").errors[0].message).toBe("must be one of a, b");
+  });
+});
+
+describe("object and array", () => {
+  const body = object({
+    title: string({ min: 1 }),
+    tags: array(string({ max: 3 }), { max: 2 }),
+  });
+
+  it("drops fields the shape doesn't list", () => {
+    expect(validate(body, { title: "Heat", tags: [], extra: true }).value).toEqual({ title: "Heat", tags: [] });
+  });
+
+  it("names nested fields in errors", () => {
+    const { errors } = validate(body, { title: "", tags: ["ok", "toolong"] });
+    expect(errors).toEqual([
+      { field: "title", message: "can't be empty" },
+      { field: "tags[1]", message: "must be at most 3 characters" },
+    ]);
+    expect(describeErrors(errors)).toBe("title can't be empty; tags[1] must be at most 3 characters");
+  });
+
+  it("requires an object body and limits list length", () => {
+    expect(validate(body, []).errors).toEqual([{ field: "body", message: "must be an object" }]);
+    expect(validate(body, { title: "x", tags: ["a", "b", "c"] }).errors[0].message).toBe("must have at most 2 items");
+  });
+});
+
+describe("optional values", () => {
+  it("optional leaves out undefined and null", () => {
+    expect(validate(optional(string()), null)).toEqual({ value: undefined, errors: [] });
+  });
+
+  it("optionalOrBlank leaves out empty strings too, but checks other text", () => {
+    const password = optionalOrBlank(string({ min: 6 }));
+    expect(validate(password, "")).toEqual({ value: undefined, errors: [] });
+    expect(validate(password, "short").errors[0].message).toBe("must be at least 6 characters");
+  });
+
+  it("nullable passes null through as a value", () => {
+    expect(validate(nullable(string()), null)).toEqual({ value: null, errors: [] });
+  });
+
+  it("fallback fills in a missing field only", () => {
+    expect(validate(fallback(string(), "none"), undefined).value).toBe("none");
+    expect(validate(fallback(string(), "none"), 1).errors[0].message).toBe("must be text");
+  });
+
+  it("partial makes every field optional but still checks the ones sent", () => {
+    const edit = partial<{ title: string; year: number }>({ title: string({ min: 1 }), year: number() });
+    expect(validate(edit, {})).toEqual({ value: {}, errors: [] });
+    expect(validate(edit, { year: "1995" }).errors).toEqual([{ field: "year", message: "must be a number" }]);
+  });
+});
@@ -0,0 +1,126 @@
+// Small schema checkers for request bodies. A schema reads an untrusted value
+// and returns it typed, recording what's wrong with it in `errors` as it goes.
+// object() keeps only the fields it lists, so anything else a client sends
+// (ids, timestamps, authors) never reaches a handler.
+//
+// Shared with the browser like api.ts, so no Deno or npm imports.
+
+export interface FieldError {
+  field: string; // Path of the field, like "movies[2].title"
+  message: string;
+}
+
+// `field` is the path used in error messages. What a schema returns after
+// recording an error is never used.
+export type Schema<T> = (input: unknown, field: string, errors: FieldError[]) => T;
+
+// A schema for every field of T
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const fail = (errors: FieldError[], field: string, message: string): any => {
+  errors.push({ field, message });
+  return undefined;
+};
+
+const join = (field: string, key: string | number) =>
+  typeof key === "number" ? `${field}[${key}]` : field ? `${field}.${key}` : key;
+
+export const string = (
+  { min = 0, max, pattern, hint }: { min?: number; max?: number; pattern?: RegExp; hint?: string } = {},
+): Schema<string> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field, "is required");
+  if (typeof input !== "string") return fail(errors, field, "must be text");
+  if (input.trim().length < min) {
+    return fail(errors, field, min === 1 ? "can't be empty" : `must be at least ${min} characters`);
+  }
+  if (max !== undefined && input.length > max) return fail(errors, field, `must be at most ${max} characters`);
+  if (pattern && !pattern.test(input)) return fail(errors, field, hint ?? "has an invalid format");
+  return input;
+};
+
+export const number = (
+  { min, max, integer = false }: { min?: number; max?: number; integer?: boolean } = {},
+): Schema<number> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field, "is required");
+  if (typeof input !== "number" || !Number.isFinite(input)) return fail(errors, field, "must be a number");
+  if (integer && !Number.isInteger(input)) return fail(errors, field, "must be a whole number");
+  if (min !== undefined && input < min) return fail(errors, field, `must be at least ${min}`);
+  if (max !== undefined && input > max) return fail(errors, field, `must be at most ${max}`);
+  return input;
+};
+
+export const boolean = (): Schema<boolean> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field, "is required");
+  return typeof input === "boolean" ? input : fail(errors, field, "must be true or false");
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field, "is required");
+  return values.includes(input as T) ? (input as T) : fail(errors, field, `must be one of ${values.join(", ")}`);
+};
+
+export const array = <T>(
+  item: Schema<T>,
+  { min = 0, max }: { min?: number; max?: number } = {},
+): Schema<T[]> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field, "is required");
+  if (!Array.isArray(input)) return fail(errors, field, "must be a list");
+  if (input.length < min) return fail(errors, field, min === 1 ? "can't be empty" : `must have at least ${min} items`);
+  if (max !== undefined && input.length > max) return fail(errors, field, `must have at most ${max} items`);
+  return input.map((value, index) => item(value, join(field, index), errors));
+};
+
+const isObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === "object" && input !== null && !Array.isArray(input);
+
+export const object = <T>(shape: Shape<T>): Schema<T> => (input, field, errors) => {
+  if (input === undefined || input === null) return fail(errors, field || "body", "is required");
+  if (!isObject(input)) return fail(errors, field || "body", "must be an object");
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const value = shape[key](input[key], join(field, key), errors);
+    if (value !== undefined) result[key] = value;
+  }
+  return result as T;
+};
+
+// Any object, kept whole. For records that are checked further along, like
+// the sections of a backup archive.
+export const record = <T>(): Schema<T> => (input, field, errors) =>
+  isObject(input) ? (input as T) : fail(errors, field, "must be an object");
+
+// Allow the field to be left out (or sent as null)
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (input, field, errors) =>
+  input === undefined || input === null ? undefined : schema(input, field, errors);
+
+// Like optional, but an empty string is left out too, for form fields where
+// blank means "keep what's there"
+export const optionalOrBlank = <T>(schema: Schema<T>): Schema<T | undefined> => (input, field, errors) =>
+  input === undefined || input === null || input === "" ? undefined : schema(input, field, errors);
+
+// Allow null through as a value of its own, like a trailer being removed
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (input, field, errors) =>
+  input === null ? null : schema(input, field, errors);
+
+// Use `value` when the field is left out
+export const fallback = <T>(schema: Schema<T>, value: T): Schema<T> => (input, field, errors) =>
+  input === undefined ? value : schema(input, field, errors);
+
+// Every field of the shape optional, for edits that send only what changed
+export const partial = <T>(shape: Shape<T>): Schema<Partial<T>> => {
+  const optionalShape: Record<string, Schema<unknown>> = {};
+  for (const key of Object.keys(shape)) optionalShape[key] = optional((shape as any)[key]);
+  return object(optionalShape as Shape<Partial<T>>);
+};
+
+// Run a schema over a whole request body
+export const validate = <T>(schema: Schema<T>, input: unknown): { value: T; errors: FieldError[] } => {
+  const errors: FieldError[] = [];
+  const value = schema(input, "", errors);
+  return { value, errors };
+};
+
+// One readable line for a list of field errors, like "title can't be empty; year must be a number"
+export const describeErrors = (errors: FieldError[]): string =>
+  errors.map(({ field, message }) => `${field} ${message}`).join("; ");
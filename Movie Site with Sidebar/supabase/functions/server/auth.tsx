@@ -0,0 +1,250 @@
+// Password hashing, session tokens and user record helpers for the auth routes.
+import { ROLES, type PublicProfile, type Role } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { deleteRecord, findBy, putRecord } from "./indexes.tsx";
+
+const HASH_PREFIX = "pbkdf2";
+const HASH_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+// Sessions expire after this many hours unless SESSION_TTL_HOURS overrides it
+const SESSION_TTL_MS = (parseInt(Deno.env.get("SESSION_TTL_HOURS") || "") || 24 * 30) * 60 * 60 * 1000;
+
+// Password reset links are valid for this many minutes unless RESET_TOKEN_TTL_MINUTES overrides it
+const RESET_TOKEN_TTL_MS = (parseInt(Deno.env.get("RESET_TOKEN_TTL_MINUTES") || "") || 60) * 60 * 1000;
+
+// The address the site is served from. Password reset links are built from it
+// and from nothing else: the request's Origin is chosen by whoever asks for the
+// reset, who may not be the account's owner.
+const APP_URL = (Deno.env.get("APP_URL") || "").replace(/\/+$/, "");
+
+export const SESSION_HEADER = "X-Session-Token";
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const derive = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+};
+
+// Constant-time comparison so verification time doesn't leak how much of a hash matched
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+// Hash a password with a random salt. Stored as "pbkdf2$<iterations>$<salt>$<hash>".
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, HASH_ITERATIONS);
+  return `${HASH_PREFIX}$${HASH_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const isHashed = (stored: string | undefined): boolean =>
+  typeof stored === "string" && stored.startsWith(`${HASH_PREFIX}$`);
+
+// Verify a password against a stored value. Records created before hashing was
+// introduced hold the plaintext password; those still verify but are flagged
+// so the caller can upgrade them.
+export const verifyPassword = async (
+  password: string,
+  stored: string | undefined,
+): Promise<{ valid: boolean; needsUpgrade: boolean }> => {
+  if (!stored) return { valid: false, needsUpgrade: false };
+
+  if (!isHashed(stored)) {
+    const encoder = new TextEncoder();
+    return {
+      valid: timingSafeEqual(encoder.encode(password), encoder.encode(stored)),
+      needsUpgrade: true,
+    };
+  }
+
+  const [, iterations, salt, hash] = stored.split("$");
+  const computed = await derive(password, fromBase64(salt), parseInt(iterations));
+  return {
+    valid: timingSafeEqual(computed, fromBase64(hash)),
+    needsUpgrade: parseInt(iterations) < HASH_ITERATIONS,
+  };
+};
+
+// Users are stored under three keys (id, username, email) for easy lookup.
+export const saveUser = async (user: any): Promise<void> => {
+  await kv.mset(
+    [
+      `user:id:${user.id}`,
+      `user:username:${user.username.toLowerCase()}`,
+      `user:email:${user.email.toLowerCase()}`,
+    ],
+    [user, user, user],
+  );
+};
+
+// Strip secrets before a user record leaves the server
+export const publicUser = (user: any) => {
+  const { password: _, ...rest } = user;
+  return { ...rest, role: roleOf(user) };
+};
+
+// What anyone may see of a user
+export const publicProfile = (user: any): PublicProfile => ({
+  username: user.username,
+  createdAt: user.createdAt,
+  ...(user.profilePicture ? { profilePicture: user.profilePicture } : {}),
+  watchlistShared: !!user.watchlistShared,
+});
+
+// Create a new session for a user and return its token
+export const createSession = async (userId: string) => {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const session = {
+    token,
+    userId,
+    createdAt: Date.now(),
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  await putRecord(`session:${token}`, session);
+  return session;
+};
+
+export const deleteSession = async (token: string): Promise<void> => {
+  await deleteRecord(`session:${token}`);
+};
+
+// End every session of a user except `keepToken`, like after a password
+// change. Sessions from before the session index existed are only found once
+// the indexes have been rebuilt.
+export const revokeSessions = async (userId: string, keepToken?: string): Promise<void> => {
+  const sessions = await findBy("session", "user", userId);
+  for (const session of sessions) {
+    if (session.token !== keepToken) await deleteSession(session.token);
+  }
+};
+
+// Resolve a session token to its user. Expired sessions are removed.
+export const getSessionUser = async (token: string | undefined): Promise<any | null> => {
+  if (!token) return null;
+
+  const session = await kv.get(`session:${token}`);
+  if (!session) return null;
+
+  if (session.expiresAt < Date.now()) {
+    await deleteSession(token);
+    return null;
+  }
+
+  const user = await kv.get(`user:id:${session.userId}`);
+  return user ?? null;
+};
+
+// Issue a password reset token for a user. Only the latest token per user is
+// valid, so requesting a new link invalidates any earlier one.
+export const createResetToken = async (userId: string) => {
+  const previous = await kv.get(`reset:user:${userId}`);
+  if (previous) {
+    await kv.del(`reset:${previous}`);
+  }
+
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const reset = {
+    token,
+    userId,
+    createdAt: Date.now(),
+    expiresAt: Date.now() + RESET_TOKEN_TTL_MS,
+  };
+  await kv.mset([`reset:${token}`, `reset:user:${userId}`], [reset, token]);
+  return reset;
+};
+
+export const canSendResetLinks = (): boolean => APP_URL !== "";
+
+// The link a reset email points at
+export const resetLink = (token: string): string => `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+// Redeem a reset token and return its user. Tokens are deleted on first use
+// whether or not they have expired.
+export const consumeResetToken = async (token: string): Promise<any | null> => {
+  const reset = await kv.get(`reset:${token}`);
+  if (!reset) return null;
+
+  await kv.mdel([`reset:${token}`, `reset:user:${reset.userId}`]);
+
+  if (reset.expiresAt < Date.now()) return null;
+
+  const user = await kv.get(`user:id:${reset.userId}`);
+  return user ?? null;
+};
+
+// Resolves the session (if any) for every request. On mutating requests a
+// token that was sent but is invalid or expired is rejected rather than
+// silently treated as anonymous, so clients notice and can sign in again.
+export const sessionMiddleware = async (c: any, next: () => Promise<void>) => {
+  const token = c.req.header(SESSION_HEADER);
+  if (token) {
+    const user = await getSessionUser(token);
+    if (user) {
+      c.set("user", user);
+      c.set("sessionToken", token);
+    } else if (c.req.method !== "GET" && c.req.method !== "OPTIONS") {
+      return c.json({ success: false, error: "Session expired. Please sign in again." }, 401);
+    }
+  }
+  await next();
+};
+
+// Rejects requests that don't carry a valid session
+export const requireAuth = async (c: any, next: () => Promise<void>) => {
+  if (!c.get("user")) {
+    return c.json({ success: false, error: "Authentication required" }, 401);
+  }
+  await next();
+};
+
+// Usernames listed in ADMIN_USERNAMES (comma separated) are always admins, so a
+// fresh deployment has someone who can hand out roles.
+const bootstrapAdmins = (Deno.env.get("ADMIN_USERNAMES") || "")
+  .split(",")
+  .map((name) => name.trim().toLowerCase())
+  .filter(Boolean);
+
+export const roleOf = (user: any): Role => {
+  if (!user) return "viewer";
+  if (bootstrapAdmins.includes(user.username?.toLowerCase())) return "admin";
+  return ROLES.includes(user.role) ? user.role : "viewer";
+};
+
+export const hasRole = (user: any, role: Role): boolean =>
+  ROLES.indexOf(roleOf(user)) >= ROLES.indexOf(role);
+
+// Rejects requests from users below the given role
+export const requireRole = (role: Role) => async (c: any, next: () => Promise<void>) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ success: false, error: "Authentication required" }, 401);
+  }
+  if (!hasRole(user, role)) {
+    return c.json({ success: false, error: "You don't have permission to do that" }, 403);
+  }
+  await next();
+};
@@ -0,0 +1,234 @@
+// Library export and restore. An archive is one JSON document holding every
+// movie, watchlist entry, video, comment, comment reaction, rating and user
+// (without password hashes). Tags travel on the movie records. Sessions and reset tokens are not
+// exported.
+//
+// Restore writes through putRecord so indexes stay in step. A record whose key
+// already holds different data is a conflict: it is reported and skipped
+// unless `overwrite` is set. With `dryRun` nothing is written and the report
+// says what would happen. Reaction summaries aren't exported; restore rebuilds
+// them for the comments it restored reactions of, as it does rating totals
+// for the titles it restored ratings of.
+import * as kv from "./kv_store.tsx";
+import { saveUser } from "./auth.tsx";
+import { summarizeReactions } from "./comments.tsx";
+import { putRecord } from "./indexes.tsx";
+import { updateRatingTotals } from "./ratings.tsx";
+import { advanceSequence } from "./sequence.tsx";
+
+// Bump when the archive layout changes, and teach restore to read the old one
+export const ARCHIVE_VERSION = 1;
+const SUPPORTED_VERSIONS = [1];
+
+const SECTIONS = ["movies", "towatch", "videos", "comments", "reactions", "ratings", "users"] as const;
+type Section = typeof SECTIONS[number];
+
+export interface Archive {
+  version: number;
+  exportedAt: string;
+  movies: any[];
+  towatch: any[];
+  videos?: any[]; // Not in archives written before videos existed
+  comments: any[];
+  reactions?: any[]; // Not in archives written before reactions were stored on their own
+  ratings: any[];
+  users: any[];
+}
+
+export interface RestoreOptions {
+  dryRun: boolean;
+  overwrite: boolean;
+}
+
+export interface RestoreConflict {
+  section: Section;
+  key: string;
+  reason: string;
+}
+
+type SectionCounts = { created: number; updated: number; unchanged: number; conflicts: number };
+
+const withoutSecrets = (user: any) => {
+  const { password: _, ...rest } = user;
+  return rest;
+};
+
+// Users are stored under three keys; the id key is the canonical one
+const uniqueUsers = (users: any[]) =>
+  Array.from(new Map(users.filter((u) => u?.id).map((u) => [u.id, u])).values());
+
+export const exportArchive = async (): Promise<Archive> => {
+  const [movies, towatch, videos, comments, reactions, ratings, users] = await Promise.all([
+    kv.getByPrefix("movie:"),
+    kv.getByPrefix("towatch:"),
+    kv.getByPrefix("video:"),
+    kv.getByPrefix("comment:"),
+    kv.getByPrefix("reaction:"),
+    kv.getByPrefix("rating:"),
+    kv.getByPrefix("user:id:"),
+  ]);
+
+  return {
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    movies,
+    towatch,
+    videos,
+    comments,
+    reactions,
+    ratings,
+    users: uniqueUsers(users).map(withoutSecrets),
+  };
+};
+
+const CSV_COLUMNS = [
+  "list", "id", "title", "year", "imdbId", "genre", "imdbRating", "runtime",
+  "kind", "runtimeMinutes", "seasonCount", "episodeCount",
+  "director", "tags", "slug", "ownerId", "dateAdded", "watchedAt",
+];
+
+const csvValue = (value: any): string => {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per library title and watchlist entry, for spreadsheets
+export const archiveToCsv = (archive: Archive): string => {
+  const rows = [
+    ...archive.movies.map((movie) => ({ ...movie, list: "movies" })),
+    ...archive.towatch.map((movie) => ({ ...movie, list: "towatch" })),
+  ];
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => csvValue(row[column])).join(",")),
+  ].join("\n");
+};
+
+// Check the archive can be restored. Returns an error message, or null if it's fine.
+export const validateArchive = (archive: any): string | null => {
+  if (!archive || typeof archive !== "object") return "Archive must be a JSON object";
+  if (typeof archive.version !== "number") return "Archive has no schema version";
+  if (!SUPPORTED_VERSIONS.includes(archive.version)) {
+    return `Unsupported archive version ${archive.version} (this server reads version ${SUPPORTED_VERSIONS.join(", ")})`;
+  }
+  for (const section of SECTIONS) {
+    if (archive[section] !== undefined && !Array.isArray(archive[section])) {
+      return `"${section}" must be an array`;
+    }
+  }
+  return null;
+};
+
+const keyFor = (section: Section, record: any): string | null => {
+  switch (section) {
+    case "movies":
+      return record.id !== undefined ? `movie:${record.id}` : null;
+    case "towatch":
+      return record.id !== undefined ? `towatch:${record.id}` : null;
+    case "videos":
+      return record.movieId !== undefined && record.id ? `video:${record.movieId}:${record.id}` : null;
+    case "comments":
+      return record.movieId !== undefined && record.id !== undefined ? `comment:${record.movieId}:${record.id}` : null;
+    case "reactions":
+      return record.commentId && record.userId && record.emoji
+        ? `reaction:${record.commentId}:${record.userId}:${record.emoji}`
+        : null;
+    case "ratings":
+      return record.movieId !== undefined && record.userIdentifier ? `rating:${record.movieId}:${record.userIdentifier}` : null;
+    case "users":
+      return record.id && record.username && record.email ? `user:id:${record.id}` : null;
+  }
+};
+
+// Compare records regardless of the order their fields were written in
+const canonical = (value: any): any => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.keys(value).sort().filter((k) => value[k] !== undefined).map((k) => [k, canonical(value[k])]),
+  );
+};
+
+const sameRecord = (a: any, b: any) => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+export const restoreArchive = async (archive: Archive, options: RestoreOptions) => {
+  const counts = {} as Record<Section, SectionCounts>;
+  const conflicts: RestoreConflict[] = [];
+  let highestMovieId = 0;
+  const reactedComments = new Set<string>();
+  const ratedMovies = new Set<number>();
+
+  for (const section of SECTIONS) {
+    const sectionCounts: SectionCounts = { created: 0, updated: 0, unchanged: 0, conflicts: 0 };
+    counts[section] = sectionCounts;
+
+    for (const record of archive[section] || []) {
+      const key = keyFor(section, record);
+      if (!key) {
+        sectionCounts.conflicts++;
+        conflicts.push({ section, key: "", reason: "Record is missing its key fields" });
+        continue;
+      }
+
+      const existing = await kv.get(key);
+
+      // Restored users keep their stored password; new ones have to reset theirs
+      let incoming = record;
+      if (section === "users") {
+        incoming = existing ? { ...record, password: existing.password } : record;
+        const taken = await kv.mget([
+          `user:username:${record.username.toLowerCase()}`,
+          `user:email:${record.email.toLowerCase()}`,
+        ]);
+        const holder = taken.find((user) => user && user.id !== record.id);
+        if (holder) {
+          sectionCounts.conflicts++;
+          conflicts.push({ section, key, reason: `Username or email belongs to another user (${holder.username})` });
+          continue;
+        }
+      }
+
+      if (existing && sameRecord(existing, incoming)) {
+        sectionCounts.unchanged++;
+      } else if (existing && !options.overwrite) {
+        sectionCounts.conflicts++;
+        conflicts.push({ section, key, reason: "A different record already exists" });
+        continue;
+      } else {
+        if (existing) {
+          sectionCounts.updated++;
+        } else {
+          sectionCounts.created++;
+        }
+        if (!options.dryRun) {
+          if (section === "users") {
+            await saveUser(incoming);
+          } else {
+            await putRecord(key, incoming);
+          }
+          if (section === "reactions") reactedComments.add(record.commentId);
+          if (section === "ratings") ratedMovies.add(record.movieId);
+        }
+      }
+
+      if (section === "movies" || section === "towatch") {
+        highestMovieId = Math.max(highestMovieId, Number(record.id) || 0);
+      }
+    }
+  }
+
+  for (const commentId of reactedComments) {
+    await summarizeReactions(commentId);
+  }
+  for (const movieId of ratedMovies) {
+    await updateRatingTotals(movieId);
+  }
+
+  // Move the id sequence past restored ids so new titles can't reuse them
+  if (!options.dryRun && highestMovieId > 0) {
+    await advanceSequence("movie", highestMovieId);
+  }
+
+  return { dryRun: options.dryRun, version: archive.version, counts, conflicts };
+};
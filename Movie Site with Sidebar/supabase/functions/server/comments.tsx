@@ -0,0 +1,378 @@
+// Comments, their authors and moderation. A comment from a signed-in user
+// records their userId and is shown under their username; guests can comment
+// under a name of their own while GUEST_COMMENTS isn't "off", but their
+// comments are marked as guest comments and can't use a registered username.
+//
+// Authors can edit a comment for COMMENT_EDIT_WINDOW_MINUTES (default 15)
+// after posting it. Signed-in users can report comments; reported comments
+// wait in the admins' moderation queue, where they are hidden, restored or
+// deleted. Every moderation action is logged under modlog:<id>, with a copy of
+// the comment and its reports as they were at the time.
+//
+// A reply names the comment it answers in parentId, and is hidden along with
+// it. An author deleting a comment that has replies leaves a "[deleted]"
+// placeholder so the thread still reads; a moderator deleting one takes its
+// replies with it. Each reaction is a record of its own under
+// reaction:<commentId>:<userId>:<emoji>, sent to clients as counts. Lists read
+// reactions:<commentId> instead, a summary of who gave each emoji that is
+// rebuilt from the reaction records whenever one is written, so a list takes
+// one query for its reactions rather than one per comment.
+//
+// Comments are sent with what their @mentions and [[title]] links point at,
+// so clients only link to accounts and titles that exist.
+import {
+  COMMENT_REACTIONS,
+  type Comment,
+  type CommentModerationAction,
+  type CommentReaction,
+  type CommentSort,
+  type ModeratedComment,
+  type ModerationLogEntry,
+} from "../_shared/api.ts";
+import { commentReferences } from "../_shared/markup.ts";
+import type { FieldError } from "../_shared/validation.ts";
+import * as kv from "./kv_store.tsx";
+import { hasRole } from "./auth.tsx";
+import { deleteRecord, findBy, putRecord } from "./indexes.tsx";
+import { slugify } from "./slug.tsx";
+
+export const guestCommentsAllowed = () => (Deno.env.get("GUEST_COMMENTS") || "on").toLowerCase() !== "off";
+
+const EDIT_WINDOW_MS = (parseInt(Deno.env.get("COMMENT_EDIT_WINDOW_MINUTES") || "") || 15) * 60 * 1000;
+
+// Most entries GET /moderation/log answers with
+const LOG_LIMIT = 500;
+
+export const commentKey = (movieId: number | string, id: string) => `comment:${movieId}:${id}`;
+
+const reactionKey = (commentId: string, userId: string, emoji: string) => `reaction:${commentId}:${userId}:${emoji}`;
+
+const summaryKey = (commentId: string) => `reactions:${commentId}`;
+
+// Keys per mget, which sends them all in the query string
+const MGET_BATCH = 200;
+
+const reactionsOf = (commentId: string): Promise<any[]> => kv.getByPrefix(`reaction:${commentId}:`);
+
+// Rewrite a comment's reaction summary from its reaction records
+export const summarizeReactions = async (commentId: string) => {
+  const reactions: Record<string, string[]> = {};
+  for (const { userId, emoji } of await reactionsOf(commentId)) {
+    reactions[emoji] = [...(reactions[emoji] || []), userId];
+  }
+  if (Object.keys(reactions).length > 0) {
+    await kv.set(summaryKey(commentId), { commentId, reactions });
+  } else {
+    await kv.del(summaryKey(commentId));
+  }
+};
+
+// Comments with the users who gave each emoji filled in from their reaction
+// summaries, which is what publicComment counts
+const withReactions = async (comments: any[]): Promise<any[]> => {
+  const keys = comments.map((comment) => summaryKey(comment.id));
+  const batches = [];
+  for (let i = 0; i < keys.length; i += MGET_BATCH) batches.push(kv.mget(keys.slice(i, i + MGET_BATCH)));
+  // mget returns rows in no fixed order, so they're matched up by comment id
+  const summaries = new Map((await Promise.all(batches)).flat().map((summary) => [summary.commentId, summary.reactions]));
+  return comments.map((comment) => ({ ...comment, reactions: summaries.get(comment.id) ?? {} }));
+};
+
+// Comments with the accounts their mentions name and the library titles their
+// [[title]] links name. Watchlist entries are private, so they aren't linked.
+const withLinks = async (comments: any[]): Promise<any[]> => {
+  const references = comments.map((comment) => commentReferences(comment.text));
+  const usernames = [...new Set(references.flatMap((found) => found.usernames.map((name) => name.toLowerCase())))];
+  const titles = [...new Set(references.flatMap((found) => found.titles.map((title) => title.toLowerCase())))];
+
+  const [users, matches] = await Promise.all([
+    usernames.length > 0 ? kv.mget(usernames.map((name) => `user:username:${name}`)) : [],
+    Promise.all(titles.map((title) => findBy("movie", "title", title))),
+  ]);
+  const accounts = new Set(users.filter(Boolean).map((user) => user.username.toLowerCase()));
+  const slugs = new Map<string, string | null>();
+  titles.forEach((title, index) => {
+    const movies = matches[index];
+    if (movies.length === 1) slugs.set(title, movies[0].slug || slugify(movies[0].title));
+    else if (movies.length > 1) slugs.set(title, null);
+  });
+
+  return comments.map((comment, index) => {
+    const mentions = references[index].usernames.map((name) => name.toLowerCase()).filter((name) => accounts.has(name));
+    const movieLinks: Record<string, string | null> = {};
+    for (const title of references[index].titles.map((title) => title.toLowerCase())) {
+      if (slugs.has(title)) movieLinks[title] = slugs.get(title)!;
+    }
+    return { ...comment, mentions: [...new Set(mentions)], movieLinks };
+  });
+};
+
+// Comments with everything publicComment sends besides the stored record
+export const withDetails = async (comments: any[]): Promise<any[]> => withLinks(await withReactions(comments));
+
+// A comment as `viewer` sees it: without its reports, with reaction counts
+// and the viewer's own reactions instead of who reacted, and with the time its
+// author can edit it until
+export const publicComment = (comment: any, viewer?: any): Comment => {
+  const { reports: _reports, hiddenAt: _hiddenAt, hiddenBy: _hiddenBy, reactions: reactedBy = {}, ...rest } = comment;
+  const reactions: Comment["reactions"] = {};
+  const myReactions: CommentReaction[] = [];
+  for (const emoji of COMMENT_REACTIONS) {
+    const users: string[] = reactedBy[emoji] || [];
+    if (users.length) reactions[emoji] = users.length;
+    if (viewer && users.includes(viewer.id)) myReactions.push(emoji);
+  }
+  return {
+    ...rest,
+    reactions,
+    ...(viewer ? { myReactions } : {}),
+    ...(comment.userId ? { editableUntil: comment.timestamp + EDIT_WINDOW_MS } : {}),
+  };
+};
+
+const reactionTotal = (comment: Comment) =>
+  Object.values(comment.reactions || {}).reduce((total, count) => total + count, 0);
+
+// Hidden comments, and replies below a hidden comment in the list, are left
+// out of every public list. Top-level comments are ordered by `sort` ("top"
+// is by reactions, then newest) and replies follow in the order they were posted.
+export const visibleComments = (comments: any[], viewer?: any, sort: CommentSort = "newest"): Comment[] => {
+  const byId = new Map(comments.map((comment) => [comment.id, comment]));
+  const isHidden = (comment: any, seen = new Set<string>()): boolean => {
+    if (comment.hiddenAt) return true;
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (!parent || seen.has(parent.id)) return false;
+    seen.add(parent.id);
+    return isHidden(parent, seen);
+  };
+
+  const visible = comments.filter((comment) => !isHidden(comment)).map((comment) => publicComment(comment, viewer));
+  const newest = (a: Comment, b: Comment) => b.timestamp - a.timestamp;
+  const threads = visible
+    .filter((comment) => !comment.parentId)
+    .sort(sort === "top" ? (a, b) => reactionTotal(b) - reactionTotal(a) || newest(a, b) : newest);
+  const replies = visible.filter((comment) => comment.parentId).sort((a, b) => a.timestamp - b.timestamp);
+  return [...threads, ...replies];
+};
+
+export const isAuthor = (user: any, comment: any): boolean => !!user && !!comment.userId && comment.userId === user.id;
+
+export const canDeleteComment = (user: any, comment: any): boolean =>
+  isAuthor(user, comment) || hasRole(user, "admin");
+
+// Build a new comment. Returns an error (with the status to answer with, and
+// the field at fault for a 400) when the author isn't allowed to post it.
+export const newComment = async (
+  user: any,
+  { movieId, text, guestName, parentId }: { movieId: number; text: string; guestName?: string; parentId?: string },
+): Promise<{ comment?: any; error?: string; status?: 400 | 401; fields?: FieldError[] }> => {
+  if (parentId) {
+    const parent = await kv.get(commentKey(movieId, parentId));
+    if (!parent || parent.hiddenAt) {
+      const message = "is not a comment on this movie";
+      return { error: `Invalid request: parentId ${message}`, status: 400, fields: [{ field: "parentId", message }] };
+    }
+  }
+
+  const base = {
+    id: crypto.randomUUID(),
+    movieId,
+    ...(parentId ? { parentId } : {}),
+    text: text.trim(),
+    timestamp: Date.now(),
+  };
+  if (user) {
+    return {
+      comment: {
+        ...base,
+        userId: user.id,
+        username: user.username,
+        ...(user.profilePicture ? { profilePicture: user.profilePicture } : {}),
+      },
+    };
+  }
+
+  if (!guestCommentsAllowed()) return { error: "Sign in to comment", status: 401 };
+  const name = guestName?.trim();
+  const problem = !name
+    ? "is required for guests"
+    : await kv.get(`user:username:${name.toLowerCase()}`)
+    ? "belongs to a registered user"
+    : null;
+  if (problem) {
+    return { error: `Invalid request: guestName ${problem}`, status: 400, fields: [{ field: "guestName", message: problem }] };
+  }
+  return { comment: { ...base, username: name, guest: true } };
+};
+
+// Change the text of a comment. Only its author can, and only within the edit window.
+export const editComment = async (user: any, comment: any, text: string): Promise<{ comment?: any; error?: string }> => {
+  if (!isAuthor(user, comment)) return { error: "You can only edit your own comments" };
+  if (Date.now() > comment.timestamp + EDIT_WINDOW_MS) {
+    return { error: `Comments can only be edited within ${EDIT_WINDOW_MS / 60000} minutes of posting` };
+  }
+  const updated = { ...comment, text: text.trim(), editedAt: Date.now() };
+  await putRecord(commentKey(comment.movieId, comment.id), updated);
+  return { comment: updated };
+};
+
+// Add or take back the user's reaction to a comment. Returns the comment with
+// everyone's reactions.
+export const reactToComment = async (user: any, comment: any, emoji: CommentReaction, active: boolean) => {
+  const key = reactionKey(comment.id, user.id, emoji);
+  if (active) {
+    await kv.set(key, { commentId: comment.id, userId: user.id, emoji, reactedAt: Date.now() });
+  } else {
+    await kv.del(key);
+  }
+  await summarizeReactions(comment.id);
+  const [updated] = await withDetails([comment]);
+  return updated;
+};
+
+const deleteReactions = async (commentId: string) => {
+  const reactions = await reactionsOf(commentId);
+  await kv.mdel([
+    summaryKey(commentId),
+    ...reactions.map((reaction) => reactionKey(commentId, reaction.userId, reaction.emoji)),
+  ]);
+};
+
+// Delete comments of a movie together with their reactions
+const removeComments = async (movieId: number | string, ids: Iterable<string>) => {
+  for (const id of ids) {
+    await deleteReactions(id);
+    await deleteRecord(commentKey(movieId, id));
+  }
+};
+
+// What stays of a deleted comment that has replies
+const placeholderFor = (comment: any) => ({
+  id: comment.id,
+  movieId: comment.movieId,
+  ...(comment.parentId ? { parentId: comment.parentId } : {}),
+  username: "[deleted]",
+  text: "[deleted]",
+  timestamp: comment.timestamp,
+  deletedAt: Date.now(),
+});
+
+// Delete the author's own comment, leaving the replies of other users in
+// place. Placeholders left with no replies are removed on the way up.
+const deleteOwnComment = async (comment: any): Promise<void> => {
+  const comments = await kv.getByPrefix(`comment:${comment.movieId}:`);
+  const hasReplies = (id: string, except?: string) =>
+    comments.some((other) => other.parentId === id && other.id !== except);
+
+  if (hasReplies(comment.id)) {
+    await deleteReactions(comment.id);
+    await putRecord(commentKey(comment.movieId, comment.id), placeholderFor(comment));
+    return;
+  }
+
+  await removeComments(comment.movieId, [comment.id]);
+  let removed = comment;
+  let parent = comments.find((other) => other.id === removed.parentId);
+  while (parent?.deletedAt && !hasReplies(parent.id, removed.id)) {
+    await removeComments(parent.movieId, [parent.id]);
+    removed = parent;
+    parent = comments.find((other) => other.id === removed.parentId);
+  }
+};
+
+// Delete a comment and, below it, every reply in its thread
+const deleteThread = async (comment: any): Promise<void> => {
+  const comments = await kv.getByPrefix(`comment:${comment.movieId}:`);
+  const doomed = new Set([comment.id]);
+  // Replies can answer replies, so keep going until a pass finds nothing new
+  let found = true;
+  while (found) {
+    found = false;
+    for (const other of comments) {
+      if (other.parentId && doomed.has(other.parentId) && !doomed.has(other.id)) {
+        doomed.add(other.id);
+        found = true;
+      }
+    }
+  }
+  await removeComments(comment.movieId, doomed);
+};
+
+// Report a comment for moderation. Reporting again replaces the user's earlier reason.
+export const reportComment = async (user: any, comment: any, reason: string): Promise<{ error?: string }> => {
+  if (isAuthor(user, comment)) return { error: "You can't report your own comment" };
+  const reports = (comment.reports || []).filter((report: any) => report.userId !== user.id);
+  reports.push({ userId: user.id, username: user.username, reason: reason.trim(), reportedAt: Date.now() });
+  await putRecord(commentKey(comment.movieId, comment.id), { ...comment, reports });
+  return {};
+};
+
+// A comment as moderators see it, with its reports and whether it's hidden
+const moderatedComment = (comment: any): ModeratedComment => ({
+  ...publicComment(comment),
+  reports: comment.reports || [],
+  ...(comment.hiddenAt ? { hiddenAt: comment.hiddenAt, hiddenBy: comment.hiddenBy } : {}),
+});
+
+// Comments with open reports or hidden by a moderator, most reported first
+export const moderationQueue = async (): Promise<ModeratedComment[]> => {
+  const [reported, hidden] = await Promise.all([
+    findBy("comment", "moderation", "reported"),
+    findBy("comment", "moderation", "hidden"),
+  ]);
+  return (await withDetails([...reported, ...hidden]))
+    .map(moderatedComment)
+    .sort((a, b) => Number(!!a.hiddenAt) - Number(!!b.hiddenAt) || b.reports.length - a.reports.length);
+};
+
+const logAction = async (entry: Omit<ModerationLogEntry, "id" | "at">) => {
+  const id = crypto.randomUUID();
+  await kv.set(`modlog:${id}`, { ...entry, id, at: Date.now() });
+};
+
+// Hide, restore or delete a comment. Hiding and restoring both settle the
+// open reports, which are kept in the log entry.
+export const moderateComment = async (
+  moderator: any,
+  comment: any,
+  action: CommentModerationAction,
+  note?: string,
+): Promise<ModeratedComment | null> => {
+  await logAction({
+    action,
+    movieId: comment.movieId,
+    commentId: comment.id,
+    author: comment.username,
+    text: comment.text,
+    reports: comment.reports || [],
+    moderator: moderator.username,
+    ...(note?.trim() ? { note: note.trim() } : {}),
+  });
+
+  const key = commentKey(comment.movieId, comment.id);
+  if (action === "delete") {
+    await deleteThread(comment);
+    return null;
+  }
+
+  const { reports: _reports, hiddenAt: _hiddenAt, hiddenBy: _hiddenBy, ...rest } = comment;
+  const updated = action === "hide" ? { ...rest, hiddenAt: Date.now(), hiddenBy: moderator.username } : rest;
+  await putRecord(key, updated);
+  return moderatedComment(updated);
+};
+
+// Deleting someone else's comment outside the queue is logged like a moderation
+// action, and takes its replies with it
+export const deleteComment = async (user: any, comment: any): Promise<void> => {
+  if (!isAuthor(user, comment)) {
+    await moderateComment(user, comment, "delete");
+    return;
+  }
+  await deleteOwnComment(comment);
+};
+
+// The moderation log, newest first
+export const moderationLog = async (): Promise<ModerationLogEntry[]> => {
+  const entries: ModerationLogEntry[] = await kv.getByPrefix("modlog:");
+  return entries.sort((a, b) => b.at - a.at).slice(0, LOG_LIMIT);
+};
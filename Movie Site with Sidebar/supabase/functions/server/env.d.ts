@@ -0,0 +1,7 @@
+// Variables the Supabase runtime sets for every function, so they're never
+// missing where the server reads them
+declare namespace Deno {
+  interface Env {
+    get(key: "SUPABASE_URL" | "SUPABASE_SERVICE_ROLE_KEY"): string;
+  }
+}
@@ -1,8 +1,88 @@
 import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { createClient } from "npm:@supabase/supabase-js@2";
+import type { H } from "npm:hono/types";
+import { API_PREFIX, splitRoute, type ApiRoute } from "../_shared/api.ts";
+import { BODY_SCHEMAS } from "../_shared/schemas.ts";
+import { describeErrors, validate, type Schema } from "../_shared/validation.ts";
 import * as kv from "./kv_store.tsx";
+import {
+  SESSION_HEADER,
+  canSendResetLinks,
+  consumeResetToken,
+  createResetToken,
+  createSession,
+  deleteSession,
+  hashPassword,
+  hasRole,
+  publicProfile,
+  publicUser,
+  requireAuth,
+  resetLink,
+  revokeSessions,
+  requireRole,
+  saveUser,
+  sessionMiddleware,
+  roleOf,
+  verifyPassword,
+} from "./auth.tsx";
+import {
+  canDeleteComment,
+  commentKey,
+  deleteComment,
+  editComment,
+  moderateComment,
+  moderationLog,
+  moderationQueue,
+  newComment,
+  publicComment,
+  reactToComment,
+  reportComment,
+  visibleComments,
+  withDetails,
+} from "./comments.tsx";
+import { sendMail } from "./mailer.tsx";
+import { lookupMetadata, metadataProviderName, metadataStats, toMovieFields } from "./metadata.tsx";
+import {
+  activeJobOfType,
+  cancelJob,
+  createJob,
+  getJob,
+  listJobs,
+  publicJob,
+  resumeIfStalled,
+  startJobWorker,
+} from "./jobs.tsx";
+import { isStructuredTrailer, manualTrailer, resolveTrailer, withVisibleTrailer } from "./trailers.tsx";
+import { addVideo, deleteVideo, deleteVideosOf, listVideos, reorderVideos, updateVideo } from "./videos.tsx";
+import { clearBrokenMedia } from "./media-check.tsx";
+import { withRuntime } from "./runtime.tsx";
+import {
+  needsStoredPoster,
+  posterStorageName,
+  readPosterFile,
+  storePoster,
+  storePostersLater,
+  withManualPoster,
+} from "./posters.tsx";
+import { archiveToCsv, exportArchive, restoreArchive, validateArchive } from "./backup.tsx";
+import { parseMovieQuery, runMovieQuery } from "./movie-query.tsx";
+import { ratingAverages, ratingSummary, rebuildRatingTotals, saveRating } from "./ratings.tsx";
+import { deleteRecord, findBy, putRecord, rebuildIndexes } from "./indexes.tsx";
+import {
+  createMovie,
+  findMovieBySlug,
+  importMovies,
+  markAsWatched,
+  withSlug,
+} from "./movies.tsx";
+import {
+  assignUnownedEntries,
+  canEditWatchlistEntry,
+  canViewWatchlist,
+  canViewWatchlistEntry,
+  watchlistOf,
+} from "./watchlists.tsx";
 
 // Override console.error to filter out unavoidable connection noise
 const originalConsoleError = console.error;
@@ -76,6 +156,41 @@ globalThis.addEventListener("error", (e) => {
 
 const app = new Hono();
 
+// Read the JSON body and check it against the route's schema before the
+// handler runs. Handlers get the checked body from c.get("body"); a body that
+// doesn't match is answered with a 400 listing the problem fields.
+const validateBody = (schema: Schema<unknown>): H => async (c, next) => {
+  const text = await c.req.text();
+  let input: unknown = {};
+  try {
+    if (text.trim()) input = JSON.parse(text);
+  } catch {
+    const fields = [{ field: "body", message: "is not valid JSON" }];
+    return c.json({ success: false, error: "The request body is not valid JSON", fields }, 400);
+  }
+
+  const { value, errors } = validate(schema, input);
+  if (errors.length > 0) {
+    return c.json({ success: false, error: `Invalid request: ${describeErrors(errors)}`, fields: errors }, 400);
+  }
+  c.set("body", value);
+  await next();
+};
+
+// The path Hono registers a contract route under, so that handlers'
+// c.req.param() knows which params the route has
+type RoutePath<R extends ApiRoute> = R extends `${string} ${infer Path}` ? `${typeof API_PREFIX}${Path}` : never;
+
+// Register a route of the shared API contract. Routes that aren't in the
+// contract don't compile, so the client can't drift away from the server.
+// Routes that take a body have it validated after the auth checks.
+const route = <R extends ApiRoute>(apiRoute: R, ...handlers: H<any, RoutePath<R>>[]) => {
+  const { method, path } = splitRoute(apiRoute);
+  const schema = BODY_SCHEMAS[apiRoute as keyof typeof BODY_SCHEMAS] as Schema<unknown> | undefined;
+  const handler = handlers.pop()! as H;
+  app.on(method, [`${API_PREFIX}${path}`], ...(handlers as H[]), ...(schema ? [validateBody(schema)] : []), handler);
+};
+
 // Enable logger
 app.use('*', logger(console.log));
 
@@ -84,102 +199,137 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
+    allowHeaders: ["Content-Type", "Authorization", SESSION_HEADER],
     allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length"],
     maxAge: 600,
   }),
 );
 
+// Resolve the signed-in user from the session token, if one was sent
+app.use(`${API_PREFIX}/*`, sessionMiddleware);
+
 // Health check endpoint
-app.get("/make-server-ea58c774/health", (c) => {
+route("GET /health", (c) => {
   if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-  return c.json({ status: "ok" });
+  return c.json({ status: "ok", metadata: metadataStats(), posterStorage: posterStorageName() });
 });
 
-// Fix all movie plots from IMDb
-app.post("/make-server-ea58c774/movies/fix-plots", async (c) => {
+// Look up a title's metadata by IMDb id, normalized into Movie fields
+route("GET /metadata/:imdbId", requireAuth, async (c) => {
   try {
-    console.log('📚 Starting plot fix for all movies...');
-    
-    // Get limit from query params (default to 10 movies at a time to avoid timeout)
-    const url = new URL(c.req.url);
-    const limit = parseInt(url.searchParams.get('limit') || '10');
+    const imdbId = c.req.param("imdbId");
+    if (!/^tt\d{7,}$/.test(imdbId)) {
+      return c.json({ success: false, error: "Invalid IMDb id" }, 400);
+    }
     
-    const movies = await kv.getByPrefix("movie:");
-    console.log(`Found ${movies.length} movies total, processing ${limit} at a time`);
+    const metadata = await lookupMetadata(imdbId);
+    if (!metadata) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
+    }
     
-    const apiKey = "f9062e1"; // OMDb API key
-    let updatedCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, movie: toMovieFields(metadata), provider: metadataProviderName() });
+  } catch (error) {
+    console.error("Error looking up metadata:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Enqueue a maintenance job; a background worker processes it in chunks
+route("POST /jobs", requireRole("admin"), async (c) => {
+  try {
+    const { type, list, force } = c.get("body");
     
-    // Find movies that need plot updates (either no plot or short plot)
-    const moviesToUpdate = movies.filter(m => 
-      m.imdbId && (!m.plot || m.plot.length < 100 || m.plot === "N/A")
-    ).slice(0, limit); // Only process the first 'limit' movies
+    const job = await createJob(type, { list: list === "towatch" ? "towatch" : "movies", force: !!force }, c.get("user").id);
+    if (job.status === "queued") startJobWorker(job.id);
+    console.log(`⚙️ Enqueued ${type} job ${job.id} for ${job.total} titles`);
     
-    console.log(`Processing ${moviesToUpdate.length} movies that need plot updates`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, job: publicJob(job) }, 201);
+  } catch (error) {
+    console.error("Error creating job:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("GET /jobs", requireRole("admin"), async (c) => {
+  try {
+    const jobs = await listJobs();
+    jobs.forEach(resumeIfStalled);
     
-    // Process each movie
-    for (const movie of moviesToUpdate) {
-      // Stop if client disconnected
-      if (c.req.raw.signal.aborted) {
-        console.log('Client disconnected during plot fix');
-        break;
-      }
-      try {
-        console.log(`Fetching plot for: ${movie.title} (${movie.imdbId})`);
-        // Fetch full plot from OMDb
-        const res = await fetch(`https://www.omdbapi.com/?i=${movie.imdbId}&plot=full&apikey=${apiKey}`);
-        const data = await res.json();
-        
-        if (data.Response === "True" && data.Plot && data.Plot !== "N/A") {
-          // Update movie with full plot
-          const updatedMovie = { ...movie, plot: data.Plot };
-          await kv.set(`movie:${movie.id}`, updatedMovie);
-          updatedCount++;
-          console.log(`✅ Updated plot for: ${movie.title}`);
-        } else {
-          console.log(`⚠️ No plot available for: ${movie.title}`);
-          skippedCount++;
-        }
-        
-        // Add small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 200));
-      } catch (error) {
-        console.error(`❌ Error fetching plot for ${movie.title}:`, error);
-        errorCount++;
-      }
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, jobs: jobs.map(publicJob) });
+  } catch (error) {
+    console.error("Error listing jobs:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Poll a job. Polling also restarts a job whose worker stopped.
+route("GET /jobs/:id", requireRole("admin"), async (c) => {
+  try {
+    const job = await getJob(c.req.param("id"));
+    if (!job) {
+      return c.json({ success: false, error: "Job not found" }, 404);
     }
+    resumeIfStalled(job);
     
-    const moviesNeedingUpdate = movies.filter(m => 
-      m.imdbId && (!m.plot || m.plot.length < 100 || m.plot === "N/A")
-    ).length;
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, job: publicJob(job) });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("POST /jobs/:id/cancel", requireRole("admin"), async (c) => {
+  try {
+    const job = await cancelJob(c.req.param("id"));
+    if (!job) {
+      return c.json({ success: false, error: "Job not found" }, 404);
+    }
     
-    console.log(`📊 Plot fix complete: ${updatedCount} updated, ${errorCount} errors, ${skippedCount} skipped`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, job: publicJob(job) });
+  } catch (error) {
+    console.error("Error cancelling job:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Start the scheduled metadata refresh. Called by a scheduler (e.g. pg_cron)
+// with the CRON_SECRET in x-cron-secret, or by an admin. A run that hasn't
+// finished yet is resumed instead of starting another.
+route("POST /cron/refresh-metadata", async (c) => {
+  try {
+    const secret = Deno.env.get("CRON_SECRET");
+    const fromScheduler = !!secret && c.req.header("x-cron-secret") === secret;
+    if (!fromScheduler && !hasRole(c.get("user"), "admin")) {
+      return c.json({ success: false, error: "You don't have permission to do that" }, 403);
+    }
     
-    if (c.req.raw.signal.aborted) {
-      console.log('Client disconnected, not sending response');
-      return new Response(null, { status: 499 });
+    const running = await activeJobOfType("refresh-metadata");
+    if (running) {
+      startJobWorker(running.id);
+      console.log(`🔄 Resuming metadata refresh ${running.id} at ${running.cursor}/${running.total}`);
+      return c.json({ success: true, job: publicJob(running), resumed: true });
     }
-
-    return c.json({ 
-      success: true, 
-      updated: updatedCount,
-      errors: errorCount,
-      skipped: skippedCount,
-      remaining: moviesNeedingUpdate - moviesToUpdate.length,
-      hasMore: moviesNeedingUpdate > moviesToUpdate.length
-    });
+    
+    const job = await createJob("refresh-metadata", { list: "movies" }, fromScheduler ? "scheduler" : c.get("user").id);
+    if (job.status === "queued") startJobWorker(job.id);
+    console.log(`🔄 Refreshing metadata for ${job.total} titles`);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, job: publicJob(job), resumed: false }, 201);
   } catch (error) {
-    console.error("❌ Error fixing movie plots:", error);
+    console.error("Error starting metadata refresh:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Fetch trailer for a movie from YouTube using YouTube Data API
-app.post("/make-server-ea58c774/movies/:id/fetch-trailer", async (c) => {
+// Resolve a trailer for a movie. Low-confidence matches go to the review queue.
+route("POST /movies/:id/fetch-trailer", requireRole("curator"), async (c) => {
   try {
     const id = c.req.param("id");
     console.log(`🎬 Fetching trailer for movie ID: ${id}`);
@@ -190,268 +340,318 @@ app.post("/make-server-ea58c774/movies/:id/fetch-trailer", async (c) => {
       return c.json({ success: false, error: "Movie not found" }, 404);
     }
     
-    let trailerUrl = null;
-    let source = 'youtube-embed';
-    
-    // First, try to get trailer from IMDb if we have an IMDb ID
-    if (movie.imdbId) {
-      console.log(`Checking IMDb for trailer: ${movie.imdbId}`);
-      try {
-        // Try to fetch the IMDb page and look for trailer links
-        const imdbPageUrl = `https://www.imdb.com/title/${movie.imdbId}/`;
-        const response = await fetch(imdbPageUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          },
-        });
-        
-        if (response.ok) {
-          const html = await response.text();
-          
-          // Look for YouTube trailer links in the IMDb page
-          // IMDb often embeds YouTube trailers
-          const youtubeMatch = html.match(/youtube\.com\/watch\?v=([a-zA-Z0-9_-]+)/);
-          const youtubeEmbedMatch = html.match(/youtube\.com\/embed\/([a-zA-Z0-9_-]+)/);
-          
-          if (youtubeMatch && youtubeMatch[1]) {
-            trailerUrl = `https://www.youtube.com/watch?v=${youtubeMatch[1]}`;
-            source = 'imdb-youtube';
-            console.log(`  ✅ Found YouTube trailer from IMDb: ${trailerUrl}`);
-          } else if (youtubeEmbedMatch && youtubeEmbedMatch[1]) {
-            trailerUrl = `https://www.youtube.com/watch?v=${youtubeEmbedMatch[1]}`;
-            source = 'imdb-youtube';
-            console.log(`  ✅ Found YouTube trailer from IMDb: ${trailerUrl}`);
-          } else {
-            console.log(`  ⚠️ No YouTube trailer found on IMDb page`);
-          }
-        }
-      } catch (error) {
-        console.log(`  ⚠️ Error checking IMDb, will use YouTube search:`, error.message);
-      }
+    const trailer = await resolveTrailer(movie);
+    if (!trailer) {
+      return c.json({ success: false, error: "No trailer found" }, 404);
     }
+    console.log(`Resolved trailer ${trailer.videoId} via ${trailer.resolver} (confidence ${trailer.confidence}, ${trailer.status})`);
     
-    // If no trailer found from IMDb, use YouTube embed search as fallback
-    if (!trailerUrl) {
-      console.log('Using YouTube embed search as fallback');
-      const searchQuery = `${movie.title} ${movie.year || ''} official trailer`;
-      console.log(`Creating YouTube embed search for: ${searchQuery}`);
-      
-      const encodedQuery = encodeURIComponent(searchQuery);
-      trailerUrl = `https://www.youtube.com/embed?listType=search&list=${encodedQuery}`;
-      source = 'youtube-embed';
+    const updatedMovie = clearBrokenMedia({ ...movie, trailer }, "trailer");
+    await putRecord(`movie:${id}`, updatedMovie);
+    
+    if (c.req.raw.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+
+    return c.json({ success: true, trailer, movie: updatedMovie });
+  } catch (error) {
+    console.error("Error fetching trailer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Set a trailer by hand from a YouTube or Vimeo link, or remove it with null
+route("PATCH /movies/:id/trailer", requireRole("curator"), async (c) => {
+  try {
+    const id = c.req.param("id");
+    const { url } = c.get("body");
+    
+    // Get the existing movie
+    const movie = await kv.get(`movie:${id}`);
+    if (!movie) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
     }
     
-    console.log(`Created trailer URL: ${trailerUrl} (source: ${source})`);
+    let updatedMovie;
+    if (url === null) {
+      const { trailer: _, ...rest } = movie;
+      updatedMovie = clearBrokenMedia(rest, "trailer");
+    } else {
+      const trailer = manualTrailer(String(url || ""), c.get("user").username);
+      if (!trailer) {
+        return c.json({ success: false, error: "Enter a YouTube or Vimeo video link" }, 400);
+      }
+      updatedMovie = clearBrokenMedia({ ...movie, trailer }, "trailer");
+    }
+    await putRecord(`movie:${id}`, updatedMovie);
     
-    // Update the movie with the trailer URL
-    movie.trailer = trailerUrl;
-    await kv.set(`movie:${id}`, movie);
+    console.log(`✅ Updated trailer for: ${movie.title}`);
     
     if (c.req.raw.signal.aborted) {
       return new Response(null, { status: 499 });
     }
 
-    return c.json({ 
-      success: true, 
-      trailerUrl,
-      source,
-      title: movie.title
-    });
+    return c.json({ success: true, movie: updatedMovie });
   } catch (error) {
-    console.error("Error fetching trailer:", error);
+    console.error("Error updating movie trailer:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Batch fetch trailers for all movies
-app.post("/make-server-ea58c774/movies/fetch-all-trailers", async (c) => {
+// Videos are attached to a title in either list, since a title keeps its id
+// when it moves from a watchlist into the library. Library titles are edited
+// by curators; watchlist entries by the user whose list they're on.
+const loadVideoTitle = async (c: any, forEdit: boolean) => {
+  const id = c.req.param("id");
+  const movie = await kv.get(`movie:${id}`);
+  if (movie) {
+    return forEdit && !hasRole(c.get("user"), "curator")
+      ? { error: "You don't have permission to do that", status: 403 as const }
+      : { movie };
+  }
+  
+  const entry = await kv.get(`towatch:${id}`);
+  if (!entry || !(await canViewWatchlistEntry(c.get("user"), entry))) {
+    return { error: "Movie not found", status: 404 as const };
+  }
+  if (forEdit && !canEditWatchlistEntry(c.get("user"), entry)) {
+    return { error: "You can only change titles on your own watchlist", status: 403 as const };
+  }
+  return { movie: entry };
+};
+
+route("GET /movies/:id/videos", async (c) => {
   try {
-    console.log('🎬 Starting batch trailer fetch for all movies...');
-    
-    // Get limit from query params (default to 10 movies at a time to avoid timeout)
-    const url = new URL(c.req.url);
-    const limit = parseInt(url.searchParams.get('limit') || '10');
-    const force = url.searchParams.get('force') === 'true';
-    console.log('Limit:', limit, 'Force:', force);
+    const title = await loadVideoTitle(c, false);
+    if (title.error) return c.json({ success: false, error: title.error }, title.status);
     
-    const movies = await kv.getByPrefix("movie:");
-    console.log(`Found ${movies.length} movies total, processing ${limit} at a time`);
+    const videos = await listVideos(title.movie.id);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, videos });
+  } catch (error) {
+    console.error("Error fetching videos:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("POST /movies/:id/videos", requireAuth, async (c) => {
+  try {
+    const title = await loadVideoTitle(c, true);
+    if (title.error) return c.json({ success: false, error: title.error }, title.status);
     
-    let updatedCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
+    const { url, type, language, title: videoTitle } = c.get("body");
+    const result = await addVideo(title.movie.id, { url, type, language, title: videoTitle }, c.get("user").username);
+    if (result.error) return c.json({ success: false, error: result.error }, 400);
+    console.log(`🎞️ Added ${result.video!.type} ${result.video!.videoId} to ${title.movie.title}`);
     
-    // Find movies that need trailers (either no trailer or empty, or force=true for all)
-    const moviesToUpdate = movies.filter(m => 
-      force || !m.trailer || m.trailer.trim() === ''
-    ).slice(0, limit);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, video: result.video }, 201);
+  } catch (error) {
+    console.error("Error adding video:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Set the order of a title's videos from a list of video ids
+route("PUT /movies/:id/videos/order", requireAuth, async (c) => {
+  try {
+    const title = await loadVideoTitle(c, true);
+    if (title.error) return c.json({ success: false, error: title.error }, title.status);
     
-    console.log(`Processing ${moviesToUpdate.length} movies that need trailers`);
+    const { ids } = c.get("body");
+    const videos = await reorderVideos(title.movie.id, ids);
     
-    const results = [];
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, videos });
+  } catch (error) {
+    console.error("Error reordering videos:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("PATCH /movies/:id/videos/:videoId", requireAuth, async (c) => {
+  try {
+    const title = await loadVideoTitle(c, true);
+    if (title.error) return c.json({ success: false, error: title.error }, title.status);
     
-    for (const movie of moviesToUpdate) {
-      // Stop if client disconnected
-      if (c.req.raw.signal.aborted) {
-        console.log('Client disconnected during trailer fetch');
-        break;
-      }
-      try {
-        const searchQuery = `${movie.title} ${movie.year || ''} official trailer`;
-        console.log(`Processing: ${movie.title}`);
-        
-        let trailerUrl = null;
-        let source = 'youtube-embed';
-        
-        // First, try to get trailer from IMDb if we have an IMDb ID
-        if (movie.imdbId) {
-          console.log(`  Checking IMDb for trailer: ${movie.imdbId}`);
-          try {
-            // Try to fetch the IMDb page and look for trailer links
-            const imdbPageUrl = `https://www.imdb.com/title/${movie.imdbId}/`;
-            const response = await fetch(imdbPageUrl, {
-              headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              },
-            });
-            
-            if (response.ok) {
-              const html = await response.text();
-              
-              // Look for YouTube trailer links in the IMDb page
-              // IMDb often embeds YouTube trailers
-              const youtubeMatch = html.match(/youtube\.com\/watch\?v=([a-zA-Z0-9_-]+)/);
-              const youtubeEmbedMatch = html.match(/youtube\.com\/embed\/([a-zA-Z0-9_-]+)/);
-              
-              if (youtubeMatch && youtubeMatch[1]) {
-                trailerUrl = `https://www.youtube.com/watch?v=${youtubeMatch[1]}`;
-                source = 'imdb-youtube';
-                console.log(`  ✅ Found YouTube trailer from IMDb: ${trailerUrl}`);
-              } else if (youtubeEmbedMatch && youtubeEmbedMatch[1]) {
-                trailerUrl = `https://www.youtube.com/watch?v=${youtubeEmbedMatch[1]}`;
-                source = 'imdb-youtube';
-                console.log(`  ✅ Found YouTube trailer from IMDb: ${trailerUrl}`);
-              } else {
-                console.log(`  ⚠️ No YouTube trailer found on IMDb page`);
-              }
-            }
-          } catch (error) {
-            console.log(`  ⚠️ Error checking IMDb, will use YouTube search:`, error.message);
-          }
-        }
-        
-        // If no trailer found from IMDb, use YouTube embed search as fallback
-        if (!trailerUrl) {
-          console.log(`  Using YouTube embed search`);
-          const encodedQuery = encodeURIComponent(searchQuery);
-          trailerUrl = `https://www.youtube.com/embed?listType=search&list=${encodedQuery}`;
-          source = 'youtube-embed';
-        }
-        
-        console.log(`  ✅ Created trailer URL (${source})`);
-        
-        if (trailerUrl) {
-          // Update the movie
-          movie.trailer = trailerUrl;
-          await kv.set(`movie:${movie.id}`, movie);
-          
-          updatedCount++;
-          results.push({
-            movieId: movie.id,
-            title: movie.title,
-            status: 'success',
-            trailerUrl,
-            source
-          });
-          
-          console.log(`✅ Updated ${movie.title} with trailer: ${trailerUrl}`);
-        }
-        
-        // Small delay to be respectful to IMDb/YouTube
-        await new Promise(resolve => setTimeout(resolve, 200));
-        
-      } catch (error) {
-        console.error(`Error processing ${movie.title}:`, error);
-        errorCount++;
-        results.push({
-          movieId: movie.id,
-          title: movie.title,
-          status: 'error',
-          error: String(error)
-        });
-      }
-    }
+    const { type, language, title: videoTitle } = c.get("body");
+    const result = await updateVideo(title.movie.id, c.req.param("videoId"), { type, language, title: videoTitle });
+    if (!result.video) return c.json({ success: false, error: "Video not found" }, 404);
     
-    const summary = {
-      total: movies.length,
-      processed: moviesToUpdate.length,
-      updated: updatedCount,
-      errors: errorCount,
-      skipped: skippedCount,
-      remaining: movies.filter(m => !m.trailer || m.trailer.trim() === '').length - moviesToUpdate.length
-    };
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, video: result.video });
+  } catch (error) {
+    console.error("Error updating video:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("DELETE /movies/:id/videos/:videoId", requireAuth, async (c) => {
+  try {
+    const title = await loadVideoTitle(c, true);
+    if (title.error) return c.json({ success: false, error: title.error }, title.status);
     
-    console.log('Summary:', summary);
+    if (!(await deleteVideo(title.movie.id, c.req.param("videoId")))) {
+      return c.json({ success: false, error: "Video not found" }, 404);
+    }
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting video:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
 
-    return c.json({ 
-      success: true, 
-      summary,
-      results
-    });
+// Trailers resolved with low confidence, waiting for a curator
+route("GET /trailers/review", requireRole("curator"), async (c) => {
+  try {
+    const movies = await findBy("movie", "trailerStatus", "pending");
+    const queue = movies
+      .sort((a, b) => a.trailer.resolvedAt - b.trailer.resolvedAt)
+      .map(({ id, title, year, slug, image, trailer }) => ({ id, title, year, slug, image, trailer }));
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, movies: queue });
   } catch (error) {
-    console.error("Error in batch trailer fetch:", error);
+    console.error("Error loading trailer review queue:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Update movie trailer URL
-app.patch("/make-server-ea58c774/movies/:id/trailer", async (c) => {
+// Approve a pending trailer, or reject it. A rejected video is remembered so
+// resolving the title again won't pick it.
+route("POST /trailers/review/:id", requireRole("curator"), async (c) => {
   try {
     const id = c.req.param("id");
-    const { trailer } = await c.req.json();
+    const { action } = c.get("body");
     
-    // Get the existing movie
     const movie = await kv.get(`movie:${id}`);
     if (!movie) {
       return c.json({ success: false, error: "Movie not found" }, 404);
     }
+    if (!isStructuredTrailer(movie.trailer) || movie.trailer.status !== "pending") {
+      return c.json({ success: false, error: "This trailer is not waiting for review" }, 409);
+    }
     
-    // Update the trailer field
-    const updatedMovie = { ...movie, trailer };
-    await kv.set(`movie:${id}`, updatedMovie);
-    
-    console.log(`✅ Updated trailer for: ${movie.title}`);
-    
-    if (c.req.raw.signal.aborted) {
-      return new Response(null, { status: 499 });
+    const reviewer = c.get("user").username;
+    let updatedMovie;
+    if (action === "approve") {
+      updatedMovie = {
+        ...movie,
+        trailer: { ...movie.trailer, status: "approved", reviewedBy: reviewer, reviewedAt: Date.now() },
+      };
+    } else {
+      const { trailer, ...rest } = movie;
+      updatedMovie = { ...rest, rejectedTrailerIds: [...(movie.rejectedTrailerIds || []), trailer.videoId] };
     }
-
+    await putRecord(`movie:${id}`, updatedMovie);
+    console.log(`🎬 ${reviewer} ${action === "approve" ? "approved" : "rejected"} the trailer for ${movie.title}`);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
     return c.json({ success: true, movie: updatedMovie });
   } catch (error) {
-    console.error("Error updating movie trailer:", error);
+    console.error("Error reviewing trailer:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Titles in either list whose poster or trailer the check-media job found
+// broken and couldn't repair, longest broken first
+route("GET /media/report", requireRole("admin"), async (c) => {
+  try {
+    const found = await Promise.all(
+      (["movie", "towatch"] as const).flatMap((collection) =>
+        ["poster", "trailer"].map(async (kind) =>
+          (await findBy(collection, "brokenMedia", kind)).map((movie) => ({ ...movie, list: collection }))
+        )
+      ),
+    );
+    const byKey = new Map(found.flat().map((movie) => [`${movie.list}:${movie.id}`, movie]));
+    const firstDetected = (movie: any) =>
+      Math.min(...Object.values(movie.brokenMedia).map((issue: any) => issue.detectedAt));
+    const titles = [...byKey.values()]
+      .sort((a, b) => firstDetected(a) - firstDetected(b))
+      .map(({ id, title, year, slug, image, list, ownerId, brokenMedia }) => ({
+        id,
+        title,
+        year,
+        slug,
+        image,
+        list: list === "towatch" ? "towatch" : "movies",
+        ownerId,
+        brokenMedia,
+      }));
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, titles });
+  } catch (error) {
+    console.error("Error loading broken media report:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Get all movies
-app.get("/make-server-ea58c774/movies", async (c) => {
+// Search, filter, sort and paginate the records under a prefix. Signed-in
+// users' ratings come from their session; guests pass their anonymous id as ?user=
+const queryMovies = async (c: any, loadMovies: Promise<any[]>) => {
+  const query = parseMovieQuery(c.req.queries());
+  const user = c.get("user");
+  const userIdentifier = user ? user.username : c.req.query("user");
+
+  const [movies, ratings] = await Promise.all([loadMovies, ratingSummary(userIdentifier)]);
+
+  const result = runMovieQuery(movies, query, ratings);
+  return { ...result, movies: result.movies.map((movie) => withVisibleTrailer(movie, user)) };
+};
+
+// Get movies. Accepts q, genre, year, minRating, maxRating, runtime, tag, id,
+// sort, page, pageSize and cursor; without page/pageSize/cursor every match is returned.
+route("GET /movies", async (c) => {
   try {
-    const movies = await kv.getByPrefix("movie:");
+    const result = await queryMovies(c, kv.getByPrefix("movie:"));
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, movies });
+    return c.json({ success: true, ...result });
   } catch (error) {
     console.error("Error fetching movies:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Add a new movie
-app.post("/make-server-ea58c774/movies", async (c) => {
+// Get a single movie (from either list) by its slug. Old slugs resolve to
+// the movie too, with `redirected` set so the client can switch to the new one.
+route("GET /movies/by-slug/:slug", async (c) => {
+  try {
+    const slug = c.req.param("slug");
+    const found = await findMovieBySlug(slug);
+    
+    // Entries on a private watchlist only exist for their owner
+    if (!found || (found.list === "towatch" && !(await canViewWatchlistEntry(c.get("user"), found.movie)))) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
+    }
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({
+      success: true,
+      movie: withVisibleTrailer(found.movie, c.get("user")),
+      list: found.list === "towatch" ? "towatch" : "movies",
+      redirected: found.redirected,
+    });
+  } catch (error) {
+    console.error("Error fetching movie by slug:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Add a new movie. The server assigns the id and returns the stored record.
+route("POST /movies", requireRole("curator"), async (c) => {
   try {
-    const movie = await c.req.json();
-    await kv.set(`movie:${movie.id}`, movie);
+    const { movie, conflict, existing } = await createMovie(c.get("body"), "movie");
+    
+    if (conflict) {
+      return c.json({ success: false, error: conflict, existing }, 409);
+    }
+    storePostersLater([`movie:${movie.id}`]);
+    
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
     return c.json({ success: true, movie });
   } catch (error) {
@@ -461,10 +661,11 @@ app.post("/make-server-ea58c774/movies", async (c) => {
 });
 
 // Delete a movie
-app.delete("/make-server-ea58c774/movies/:id", async (c) => {
+route("DELETE /movies/:id", requireRole("admin"), async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`movie:${id}`);
+    await deleteRecord(`movie:${id}`);
+    await deleteVideosOf(id);
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
     return c.json({ success: true });
   } catch (error) {
@@ -473,11 +674,12 @@ app.delete("/make-server-ea58c774/movies/:id", async (c) => {
   }
 });
 
-// Update movie poster
-app.patch("/make-server-ea58c774/movies/:id/poster", async (c) => {
+// Replace a movie's poster. The image at the given URL is downloaded into
+// poster storage rather than hot-linked.
+route("PATCH /movies/:id/poster", requireRole("curator"), async (c) => {
   try {
     const id = c.req.param("id");
-    const { image } = await c.req.json();
+    const { image } = c.get("body");
     
     // Get the existing movie
     const movie = await kv.get(`movie:${id}`);
@@ -485,9 +687,12 @@ app.patch("/make-server-ea58c774/movies/:id/poster", async (c) => {
       return c.json({ success: false, error: "Movie not found" }, 404);
     }
     
-    // Update the image field
-    const updatedMovie = { ...movie, image };
-    await kv.set(`movie:${id}`, updatedMovie);
+    const { movie: stored, error } = await storePoster(movie, image.trim());
+    if (error) {
+      return c.json({ success: false, error }, 400);
+    }
+    const updatedMovie = { ...clearBrokenMedia(stored, "poster"), posterOrigin: "manual" };
+    await putRecord(`movie:${id}`, updatedMovie);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
@@ -498,11 +703,29 @@ app.patch("/make-server-ea58c774/movies/:id/poster", async (c) => {
   }
 });
 
+// Serve posters kept in local storage (POSTER_STORAGE=local)
+route("GET /posters/:hash/:file", async (c) => {
+  try {
+    const bytes = await readPosterFile(`${c.req.param("hash")}/${c.req.param("file")}`);
+    if (!bytes) {
+      return c.json({ success: false, error: "Poster not found" }, 404);
+    }
+    const contentType = c.req.param("file").endsWith(".webp") ? "image/webp" : "image/jpeg";
+    return c.body(bytes, 200, {
+      "Content-Type": contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    });
+  } catch (error) {
+    console.error("Error serving poster:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
 // Update movie fields (genre, etc.)
-app.patch("/make-server-ea58c774/movies/:id", async (c) => {
+route("PATCH /movies/:id", requireRole("curator"), async (c) => {
   try {
     const id = c.req.param("id");
-    const updates = await c.req.json();
+    const updates = c.get("body");
     
     // Get the existing movie
     const movie = await kv.get(`movie:${id}`);
@@ -510,9 +733,10 @@ app.patch("/make-server-ea58c774/movies/:id", async (c) => {
       return c.json({ success: false, error: "Movie not found" }, 404);
     }
     
-    // Update the movie with the provided fields
-    const updatedMovie = { ...movie, ...updates };
-    await kv.set(`movie:${id}`, updatedMovie);
+    // Update the movie with the provided fields. Renaming gives it a new slug.
+    const updatedMovie = await withSlug(withManualPoster(movie, withRuntime(movie, updates)), "movie", movie);
+    await putRecord(`movie:${id}`, updatedMovie);
+    if (needsStoredPoster(updatedMovie)) storePostersLater([`movie:${id}`]);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
@@ -523,36 +747,121 @@ app.patch("/make-server-ea58c774/movies/:id", async (c) => {
   }
 });
 
-// Get all "to watch" movies
-app.get("/make-server-ea58c774/towatch", async (c) => {
+// Get a watchlist: the signed-in user's own, or with ?owner=<username> someone
+// else's shared list. Takes the same query parameters as GET /movies.
+route("GET /towatch", requireAuth, async (c) => {
   try {
-    const toWatchMovies = await kv.getByPrefix("towatch:");
+    const user = c.get("user");
+    const ownerName = c.req.query("owner");
+    const owner = ownerName ? await kv.get(`user:username:${ownerName.toLowerCase()}`) : user;
+    
+    if (!canViewWatchlist(user, owner)) {
+      return c.json({ success: false, error: "Watchlist not found" }, 404);
+    }
+    
+    const result = await queryMovies(c, watchlistOf(owner.id));
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, movies: toWatchMovies });
+    return c.json({
+      success: true,
+      ...result,
+      owner: { username: owner.username, shared: !!owner.watchlistShared },
+    });
   } catch (error) {
     console.error("Error fetching to watch movies:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Add a new "to watch" movie
-app.post("/make-server-ea58c774/towatch", async (c) => {
+// Add a movie to the signed-in user's watchlist. The server assigns the id and returns the stored record.
+route("POST /towatch", requireAuth, async (c) => {
   try {
-    const movie = await c.req.json();
-    await kv.set(`towatch:${movie.id}`, movie);
+    const { movie, conflict, existing } = await createMovie(c.get("body"), "towatch", c.get("user").id);
+    
+    if (conflict) {
+      return c.json({ success: false, error: conflict, existing }, 409);
+    }
+    storePostersLater([`towatch:${movie.id}`]);
+    
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, movie });
+    return c.json({ success: true, movie: withVisibleTrailer(movie, c.get("user")) });
   } catch (error) {
     console.error("Error adding to watch movie:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Delete a "to watch" movie
-app.delete("/make-server-ea58c774/towatch/:id", async (c) => {
+// Update the fields of a watchlist entry (owner or admin)
+route("PATCH /towatch/:id", requireAuth, async (c) => {
+  try {
+    const id = c.req.param("id");
+    const updates = c.get("body");
+    const entry = await kv.get(`towatch:${id}`);
+
+    if (!entry) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
+    }
+
+    if (!canEditWatchlistEntry(c.get("user"), entry)) {
+      return c.json({ success: false, error: "You can only edit titles on your own watchlist" }, 403);
+    }
+
+    const updatedEntry = await withSlug(withManualPoster(entry, withRuntime(entry, updates)), "towatch", entry);
+    await putRecord(`towatch:${id}`, updatedEntry);
+    if (needsStoredPoster(updatedEntry)) storePostersLater([`towatch:${id}`]);
+
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, movie: withVisibleTrailer(updatedEntry, c.get("user")) });
+  } catch (error) {
+    console.error("Error updating to watch movie:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Mark a "to watch" movie as watched, moving it into the library in one request.
+// Curators can do this for titles on their own watchlist.
+route("POST /towatch/:id/watched", requireRole("curator"), async (c) => {
+  try {
+    const id = parseInt(c.req.param("id"));
+    const entry = await kv.get(`towatch:${id}`);
+    if (entry && !canEditWatchlistEntry(c.get("user"), entry)) {
+      return c.json({ success: false, error: "You can only move titles from your own watchlist" }, 403);
+    }
+    
+    const result = await markAsWatched(id);
+    
+    if (!result) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
+    }
+    
+    if (result.conflict) {
+      return c.json({ success: false, error: result.conflict, existing: result.existing }, 409);
+    }
+    
+    console.log(`✅ Marked movie #${id} as watched: ${result.movie.title}`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, movie: result.movie });
+  } catch (error) {
+    console.error("Error marking movie as watched:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Remove a movie from a watchlist (owner or admin)
+route("DELETE /towatch/:id", requireAuth, async (c) => {
   try {
     const id = c.req.param("id");
-    await kv.del(`towatch:${id}`);
+    const entry = await kv.get(`towatch:${id}`);
+    
+    if (!entry) {
+      return c.json({ success: false, error: "Movie not found" }, 404);
+    }
+    
+    if (!canEditWatchlistEntry(c.get("user"), entry)) {
+      return c.json({ success: false, error: "You can only remove titles from your own watchlist" }, 403);
+    }
+    
+    await deleteRecord(`towatch:${id}`);
+    await deleteVideosOf(id);
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
     return c.json({ success: true });
   } catch (error) {
@@ -561,13 +870,57 @@ app.delete("/make-server-ea58c774/towatch/:id", async (c) => {
   }
 });
 
-// Get comments for a movie
-app.get("/make-server-ea58c774/comments/:movieId", async (c) => {
+// Share or unshare the signed-in user's watchlist
+route("PATCH /watchlist/sharing", requireAuth, async (c) => {
+  try {
+    const { shared } = c.get("body");
+    const user = { ...c.get("user"), watchlistShared: shared };
+    await saveUser(user);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, user: publicUser(user) });
+  } catch (error) {
+    console.error("Error updating watchlist sharing:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Import a batch of movies (from a CSV or Letterboxd export) into the library
+// (curators) or the signed-in user's watchlist. Clients send large imports as
+// several batches and report progress between them.
+route("POST /import", requireAuth, async (c) => {
+  try {
+    const user = c.get("user");
+    const { list, movies } = c.get("body");
+    
+    if (list === "movies" && !hasRole(user, "curator")) {
+      return c.json({ success: false, error: "You don't have permission to do that" }, 403);
+    }
+    
+    const { results, summary } = list === "movies"
+      ? await importMovies(movies, "movie")
+      : await importMovies(movies, "towatch", user.id);
+    
+    storePostersLater(results
+      .flatMap((result) => (result.movie ? [`${list === "movies" ? "movie" : "towatch"}:${result.movie.id}`] : [])));
+    
+    console.log(`📥 Imported into ${list}: ${summary.created} added, ${summary.duplicates} duplicates, ${summary.failed} failed`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, results, summary });
+  } catch (error) {
+    console.error("Error importing movies:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Get comments for a movie, with ?sort=top for the most reacted threads first
+route("GET /comments/:movieId", async (c) => {
   try {
     const movieId = c.req.param("movieId");
-    const comments = await kv.getByPrefix(`comment:${movieId}:`);
+    const sort = c.req.query("sort") === "top" ? "top" : "newest";
+    const comments = await withDetails(await kv.getByPrefix(`comment:${movieId}:`));
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, comments });
+    return c.json({ success: true, comments: visibleComments(comments, c.get("user"), sort) });
   } catch (error) {
     console.error("Error fetching comments:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -575,77 +928,165 @@ app.get("/make-server-ea58c774/comments/:movieId", async (c) => {
 });
 
 // Get all comments
-app.get("/make-server-ea58c774/comments", async (c) => {
+route("GET /comments", async (c) => {
   try {
-    const comments = await kv.getByPrefix("comment:");
+    const comments = await withDetails(await kv.getByPrefix("comment:"));
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, comments });
+    // Placeholders of deleted comments only hold threads together
+    const shown = visibleComments(comments, c.get("user")).filter((comment) => !comment.deletedAt);
+    return c.json({ success: true, comments: shown });
   } catch (error) {
     console.error("Error fetching all comments from database:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Add a comment to a movie
-app.post("/make-server-ea58c774/comments", async (c) => {
+// Add a comment to a movie. Signed-in users comment as themselves; guests
+// give a name, unless guest comments are turned off.
+route("POST /comments", async (c) => {
+  try {
+    const { comment, error, status, fields } = await newComment(c.get("user"), c.get("body"));
+    if (error) {
+      return c.json({ success: false, error, ...(fields ? { fields } : {}) }, status);
+    }
+    await putRecord(commentKey(comment.movieId, comment.id), comment);
+    const [added] = await withDetails([comment]);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, comment: publicComment(added, c.get("user")) });
+  } catch (error) {
+    console.error("Error adding comment:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Edit a comment (its author, within the edit window)
+route("PATCH /comments/:movieId/:commentId", requireAuth, async (c) => {
   try {
-    const body = await c.req.json();
+    const comment = await kv.get(commentKey(c.req.param("movieId"), c.req.param("commentId")));
+    if (!comment || comment.hiddenAt || comment.deletedAt) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
     
-    if (!body || typeof body !== 'object') {
-       throw new Error("Invalid request body");
+    const result = await editComment(c.get("user"), comment, c.get("body").text);
+    if (result.error) {
+      return c.json({ success: false, error: result.error }, 403);
     }
+    const [edited] = await withDetails([result.comment]);
     
-    const movieId = body.movieId;
-    // Ensure movieId exists
-    if (!movieId) {
-      throw new Error("movieId is required");
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, comment: publicComment(edited, c.get("user")) });
+  } catch (error) {
+    console.error("Error editing comment:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Delete a comment (its author or an admin)
+route("DELETE /comments/:movieId/:commentId", requireAuth, async (c) => {
+  try {
+    const comment = await kv.get(commentKey(c.req.param("movieId"), c.req.param("commentId")));
+    if (!comment) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
     }
     
-    // Use explicit variable for ID to avoid any confusion
-    let commentId = body.id;
-    if (!commentId) {
-      commentId = crypto.randomUUID();
-      body.id = commentId;
+    const user = c.get("user");
+    if (!canDeleteComment(user, comment)) {
+      return c.json({ success: false, error: "You don't have permission to do that" }, 403);
     }
+    
+    await deleteComment(user, comment);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
 
-    // Construct key explicitly
-    const key = `comment:${movieId}:${commentId}`;
+// Report a comment to the moderators
+route("POST /comments/:movieId/:commentId/report", requireAuth, async (c) => {
+  try {
+    const comment = await kv.get(commentKey(c.req.param("movieId"), c.req.param("commentId")));
+    if (!comment || comment.hiddenAt || comment.deletedAt) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+    
+    const { error } = await reportComment(c.get("user"), comment, c.get("body").reason);
+    if (error) {
+      return c.json({ success: false, error }, 400);
+    }
+    console.log(`🚩 ${c.get("user").username} reported comment ${comment.id} on movie #${comment.movieId}`);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error reporting comment:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
 
-    await kv.set(key, body);
+// React to a comment with one of the allowed emoji, or take the reaction back
+route("POST /comments/:movieId/:commentId/reactions", requireAuth, async (c) => {
+  try {
+    const comment = await kv.get(commentKey(c.req.param("movieId"), c.req.param("commentId")));
+    if (!comment || comment.hiddenAt || comment.deletedAt) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
+    }
+    
+    const { emoji, active } = c.get("body");
+    const user = c.get("user");
+    const updated = await reactToComment(user, comment, emoji, active);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true, comment: body });
+    return c.json({ success: true, comment: publicComment(updated, user) });
   } catch (error) {
-    console.error("Error adding comment:", error);
+    console.error("Error reacting to comment:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Delete a comment
-app.delete("/make-server-ea58c774/comments/:movieId/:commentId", async (c) => {
+// Get what anyone may see of a user's account
+route("GET /users/:username", async (c) => {
   try {
-    const movieId = c.req.param("movieId");
-    const commentId = c.req.param("commentId");
-    await kv.del(`comment:${movieId}:${commentId}`);
+    const user = await kv.get(`user:username:${c.req.param("username").toLowerCase()}`);
+    if (!user) {
+      return c.json({ success: false, error: "User not found" }, 404);
+    }
+    
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-    return c.json({ success: true });
+    return c.json({ success: true, user: publicProfile(user) });
   } catch (error) {
-    console.error("Error deleting comment:", error);
+    console.error("Error fetching user:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Get the comments a user has posted
+route("GET /user-comments/:username", async (c) => {
+  try {
+    const username = c.req.param("username");
+    const comments = await withDetails(await findBy("comment", "user", username.toLowerCase()));
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, comments: visibleComments(comments, c.get("user")) });
+  } catch (error) {
+    console.error("Error fetching user comments:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
 // Submit a rating for a movie
-app.post("/make-server-ea58c774/ratings", async (c) => {
+route("POST /ratings", async (c) => {
   try {
-    const { movieId, rating, userIdentifier } = await c.req.json();
+    const { movieId, rating, userIdentifier: guestIdentifier } = c.get("body");
     
-    if (!movieId || !rating || !userIdentifier) {
-      return c.json({ success: false, error: "Missing required fields" }, 400);
-    }
+    // Signed-in users rate as themselves; the body identifier is only used for anonymous visitors
+    const sessionUser = c.get("user");
+    const userIdentifier = sessionUser ? sessionUser.username : guestIdentifier;
     
-    if (rating < 1 || rating > 5) {
-      return c.json({ success: false, error: "Rating must be between 1 and 5" }, 400);
+    if (!userIdentifier) {
+      const fields = [{ field: "userIdentifier", message: "is required for guests" }];
+      return c.json({ success: false, error: "Invalid request: userIdentifier is required for guests", fields }, 400);
     }
     
     const ratingData = {
@@ -655,8 +1096,7 @@ app.post("/make-server-ea58c774/ratings", async (c) => {
       timestamp: Date.now(),
     };
     
-    // Store rating with key: rating:movieId:userIdentifier
-    await kv.set(`rating:${movieId}:${userIdentifier}`, ratingData);
+    await saveRating(ratingData);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
@@ -668,7 +1108,7 @@ app.post("/make-server-ea58c774/ratings", async (c) => {
 });
 
 // Get all ratings for a movie
-app.get("/make-server-ea58c774/ratings/:movieId", async (c) => {
+route("GET /ratings/:movieId", async (c) => {
   try {
     const movieId = c.req.param("movieId");
     const ratings = await kv.getByPrefix(`rating:${movieId}:`);
@@ -695,32 +1135,11 @@ app.get("/make-server-ea58c774/ratings/:movieId", async (c) => {
 });
 
 // Get all ratings (for calculating averages on load)
-app.get("/make-server-ea58c774/ratings", async (c) => {
+route("GET /ratings", async (c) => {
   try {
-    const allRatings = await kv.getByPrefix("rating:");
+    const averages = await ratingAverages();
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
-
-    // Group ratings by movieId
-    const ratingsByMovie: { [key: string]: any[] } = {};
-    allRatings.forEach(rating => {
-      if (!ratingsByMovie[rating.movieId]) {
-        ratingsByMovie[rating.movieId] = [];
-      }
-      ratingsByMovie[rating.movieId].push(rating);
-    });
-    
-    // Calculate averages
-    const averages: { [key: string]: { average: number, count: number } } = {};
-    Object.keys(ratingsByMovie).forEach(movieId => {
-      const ratings = ratingsByMovie[movieId];
-      const average = ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length;
-      averages[movieId] = {
-        average: Math.round(average * 10) / 10,
-        count: ratings.length
-      };
-    });
-    
     return c.json({ success: true, averages });
   } catch (error) {
     console.error("Error fetching all ratings:", error);
@@ -729,19 +1148,16 @@ app.get("/make-server-ea58c774/ratings", async (c) => {
 });
 
 // Get user's personal ratings
-app.get("/make-server-ea58c774/user-ratings/:userIdentifier", async (c) => {
+route("GET /user-ratings/:userIdentifier", async (c) => {
   try {
     const userIdentifier = c.req.param("userIdentifier");
-    const allRatings = await kv.getByPrefix("rating:");
+    const ratings = await findBy("rating", "user", userIdentifier);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
-    // Filter ratings for this user
     const userRatings: { [key: string]: number } = {};
-    allRatings.forEach(rating => {
-      if (rating.userIdentifier === userIdentifier) {
-        userRatings[rating.movieId] = rating.rating;
-      }
+    ratings.forEach(rating => {
+      userRatings[rating.movieId] = rating.rating;
     });
     
     return c.json({ success: true, userRatings });
@@ -752,13 +1168,9 @@ app.get("/make-server-ea58c774/user-ratings/:userIdentifier", async (c) => {
 });
 
 // Create a new user account
-app.post("/make-server-ea58c774/auth/signup", async (c) => {
+route("POST /auth/signup", async (c) => {
   try {
-    const { username, email, password } = await c.req.json();
-    
-    if (!username || !email || !password) {
-      return c.json({ success: false, error: "Missing required fields" }, 400);
-    }
+    const { username, email, password } = c.get("body");
     
     // Check if username already exists
     const existingUserByUsername = await kv.get(`user:username:${username.toLowerCase()}`);
@@ -778,23 +1190,27 @@ app.post("/make-server-ea58c774/auth/signup", async (c) => {
       id: userId,
       username,
       email: email.toLowerCase(),
-      password, // In production, this should be hashed!
+      password: await hashPassword(password),
+      role: "viewer",
       createdAt: Date.now(),
     };
     
     // Store user by ID, username, and email for easy lookup
-    await kv.set(`user:id:${userId}`, user);
-    await kv.set(`user:username:${username.toLowerCase()}`, user);
-    await kv.set(`user:email:${email.toLowerCase()}`, user);
+    await saveUser(user);
+    
+    const session = await createSession(userId);
     
     // If user has disconnected, don't try to send a response
     if (c.req.raw.signal.aborted) {
       return new Response(null, { status: 499 });
     }
 
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = user;
-    return c.json({ success: true, user: userWithoutPassword });
+    return c.json({
+      success: true,
+      user: publicUser(user),
+      token: session.token,
+      expiresAt: session.expiresAt,
+    });
   } catch (error) {
     console.error("Error creating user account:", error);
     return c.json({ success: false, error: String(error) }, 500);
@@ -802,55 +1218,71 @@ app.post("/make-server-ea58c774/auth/signup", async (c) => {
 });
 
 // User login
-app.post("/make-server-ea58c774/auth/login", async (c) => {
+route("POST /auth/login", async (c) => {
   try {
-    const { username, password } = await c.req.json();
-    
-    if (!username || !password) {
-      return c.json({ success: false, error: "Missing username or password" }, 400);
-    }
+    const { username, password } = c.get("body");
     
     // Get user by username
-    const user = await kv.get(`user:username:${username.toLowerCase()}`);
+    let user = await kv.get(`user:username:${username.toLowerCase()}`);
     
     if (!user) {
       return c.json({ success: false, error: "Invalid username or password" }, 401);
     }
     
-    // Check password (in production, use proper password hashing comparison)
-    if (user.password !== password) {
+    const { valid, needsUpgrade } = await verifyPassword(password, user.password);
+    if (!valid) {
       return c.json({ success: false, error: "Invalid username or password" }, 401);
     }
     
+    // Transparently re-hash records that still hold a plaintext (or weaker) password
+    if (needsUpgrade) {
+      user = { ...user, password: await hashPassword(password) };
+      await saveUser(user);
+      console.log(`🔐 Upgraded password hash for user: ${user.username}`);
+    }
+    
+    const session = await createSession(user.id);
+    
     // If user has disconnected, don't try to send a response
     if (c.req.raw.signal.aborted) {
       return new Response(null, { status: 499 });
     }
 
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = user;
-    return c.json({ success: true, user: userWithoutPassword });
+    return c.json({
+      success: true,
+      user: publicUser(user),
+      token: session.token,
+      expiresAt: session.expiresAt,
+    });
   } catch (error) {
     console.error("Error during login:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Update user profile
-app.patch("/make-server-ea58c774/auth/profile", async (c) => {
+// Get the user for the current session
+route("GET /auth/session", requireAuth, (c) => {
+  if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+  return c.json({ success: true, user: publicUser(c.get("user")) });
+});
+
+// End the current session
+route("POST /auth/logout", requireAuth, async (c) => {
   try {
-    const { userId, email, password, profilePicture } = await c.req.json();
-    
-    if (!userId) {
-      return c.json({ success: false, error: "User ID is required" }, 400);
-    }
-    
-    // Get existing user
-    const user = await kv.get(`user:id:${userId}`);
-    
-    if (!user) {
-      return c.json({ success: false, error: "User not found" }, 404);
-    }
+    await deleteSession(c.get("sessionToken"));
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error during logout:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Update the signed-in user's profile
+route("PATCH /auth/profile", requireAuth, async (c) => {
+  try {
+    const { email, password, profilePicture } = c.get("body");
+    const user = c.get("user");
     
     // Prepare updated user object
     const updatedUser = {
@@ -858,12 +1290,12 @@ app.patch("/make-server-ea58c774/auth/profile", async (c) => {
     };
     
     // Update email if provided and different
-    if (email && email !== user.email) {
+    if (email && email.toLowerCase() !== user.email) {
       const emailLower = email.toLowerCase();
       
       // Check if new email already exists
       const existingUserByEmail = await kv.get(`user:email:${emailLower}`);
-      if (existingUserByEmail && existingUserByEmail.id !== userId) {
+      if (existingUserByEmail && existingUserByEmail.id !== user.id) {
         return c.json({ success: false, error: "Email already in use" }, 400);
       }
       
@@ -871,14 +1303,12 @@ app.patch("/make-server-ea58c774/auth/profile", async (c) => {
       await kv.del(`user:email:${user.email.toLowerCase()}`);
       
       updatedUser.email = emailLower;
-      
-      // Create new email mapping
-      await kv.set(`user:email:${emailLower}`, updatedUser);
     }
     
-    // Update password if provided
-    if (password && password.trim() !== '') {
-      updatedUser.password = password; // In production, hash this!
+    // Update password if provided; the schema turns a blank one into undefined
+    const passwordChanged = password !== undefined;
+    if (passwordChanged) {
+      updatedUser.password = await hashPassword(password);
     }
     
     // Update profile picture if provided
@@ -887,12 +1317,10 @@ app.patch("/make-server-ea58c774/auth/profile", async (c) => {
     }
     
     // Update user in all storage locations
-    await kv.set(`user:id:${userId}`, updatedUser);
-    await kv.set(`user:username:${user.username.toLowerCase()}`, updatedUser);
-    
-    // If email wasn't changed, still update it
-    if (!email || email === user.email) {
-      await kv.set(`user:email:${user.email.toLowerCase()}`, updatedUser);
+    await saveUser(updatedUser);
+    // A new password signs out every other device; this one stays signed in
+    if (passwordChanged) {
+      await revokeSessions(user.id, c.get("sessionToken"));
     }
     
     // If user has disconnected, don't try to send a response
@@ -900,61 +1328,228 @@ app.patch("/make-server-ea58c774/auth/profile", async (c) => {
       return new Response(null, { status: 499 });
     }
 
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = updatedUser;
-    return c.json({ success: true, user: userWithoutPassword });
+    return c.json({ success: true, user: publicUser(updatedUser) });
   } catch (error) {
     console.error("Error updating profile:", error);
     return c.json({ success: false, error: String(error) }, 500);
   }
 });
 
-// Forgot password - Send password reset email using Supabase Auth
-app.post("/make-server-ea58c774/auth/forgot-password", async (c) => {
+// List users and their roles
+route("GET /admin/users", requireRole("admin"), async (c) => {
+  try {
+    const users = await kv.getByPrefix("user:id:");
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, users: users.map(publicUser) });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Change a user's role
+route("PATCH /admin/users/:id/role", requireRole("admin"), async (c) => {
   try {
-    const { email } = await c.req.json();
+    const id = c.req.param("id");
+    const { role } = c.get("body");
     
-    if (!email) {
-      return c.json({ success: false, error: "Email is required" }, 400);
+    const user = await kv.get(`user:id:${id}`);
+    if (!user) {
+      return c.json({ success: false, error: "User not found" }, 404);
     }
     
-    // Check if user exists with this email in our KV store
-    const user = await kv.get(`user:email:${email.toLowerCase()}`);
+    const updatedUser = { ...user, role };
+    await saveUser(updatedUser);
     
-    if (!user) {
-      return c.json({ success: false, error: "No account found with this email address" }, 404);
+    console.log(`👤 ${c.get("user").username} changed role of ${user.username}: ${roleOf(user)} → ${role}`);
+    
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, user: publicUser(updatedUser) });
+  } catch (error) {
+    console.error("Error updating user role:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Rebuild the secondary indexes and rating totals from the primary records
+route("POST /admin/indexes/rebuild", requireRole("admin"), async (c) => {
+  try {
+    console.log("🔧 Rebuilding secondary indexes...");
+    // Rating totals are derived records too
+    const counts = { ...(await rebuildIndexes()), ratingTotals: await rebuildRatingTotals() };
+    console.log("✅ Indexes rebuilt:", counts);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, counts });
+  } catch (error) {
+    console.error("Error rebuilding indexes:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Export the whole library as a versioned JSON archive, or ?format=csv for a
+// spreadsheet of library and watchlist titles
+route("GET /admin/export", requireRole("admin"), async (c) => {
+  try {
+    const archive = await exportArchive();
+    const date = archive.exportedAt.slice(0, 10);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    
+    if (c.req.query("format") === "csv") {
+      return c.body(archiveToCsv(archive), 200, {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="movies-${date}.csv"`,
+      });
+    }
+    
+    c.header("Content-Disposition", `attachment; filename="library-${date}.json"`);
+    return c.json(archive);
+  } catch (error) {
+    console.error("Error exporting library:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Restore an archive made by /admin/export. ?dryRun=true reports what would
+// change without writing; ?overwrite=true replaces records that differ.
+route("POST /admin/restore", requireRole("admin"), async (c) => {
+  try {
+    const archive = c.get("body");
+    const invalid = validateArchive(archive);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+    
+    const dryRun = c.req.query("dryRun") === "true";
+    const overwrite = c.req.query("overwrite") === "true";
+    const report = await restoreArchive(archive, { dryRun, overwrite });
+    
+    console.log(`${dryRun ? "🔍 Dry-run restore" : "✅ Restored archive"}: ${report.conflicts.length} conflicts`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, ...report });
+  } catch (error) {
+    console.error("Error restoring archive:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Give the entries of the old global watchlist an owner. They go to the admin
+// making the request, or to another admin named in the body.
+route("POST /admin/watchlists/migrate", requireRole("admin"), async (c) => {
+  try {
+    const { username } = c.get("body");
+    const owner = username
+      ? await kv.get(`user:username:${username.toLowerCase()}`)
+      : c.get("user");
+    
+    if (!owner || !hasRole(owner, "admin")) {
+      return c.json({ success: false, error: "The global watchlist must be assigned to an admin" }, 400);
     }
     
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL');
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const assigned = await assignUnownedEntries(owner);
+    console.log(`✅ Assigned ${assigned} watchlist entries to ${owner.username}`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, assigned, owner: owner.username });
+  } catch (error) {
+    console.error("Error migrating watchlist:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Persist slugs for records created before slugs were stored. Older titles are
+// processed first so they keep the plain title slug when two titles collide.
+route("POST /admin/movies/backfill-slugs", requireRole("admin"), async (c) => {
+  try {
+    let updated = 0;
+    for (const list of ["movie", "towatch"] as const) {
+      const movies = (await kv.getByPrefix(`${list}:`)).sort((a, b) => a.id - b.id);
+      for (const movie of movies) {
+        if (movie.slug) continue;
+        await putRecord(`${list}:${movie.id}`, await withSlug(movie, list));
+        updated++;
+      }
+    }
     
-    if (!supabaseUrl || !supabaseServiceKey) {
-      console.error('Missing Supabase environment variables');
-      return c.json({ 
-        success: false, 
-        error: "Server configuration error. Please contact administrator." 
-      }, 500);
+    console.log(`✅ Backfilled slugs for ${updated} movies`);
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, updated });
+  } catch (error) {
+    console.error("Error backfilling slugs:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Reported and hidden comments, for the moderation queue
+route("GET /moderation/comments", requireRole("admin"), async (c) => {
+  try {
+    const comments = await moderationQueue();
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, comments });
+  } catch (error) {
+    console.error("Error loading moderation queue:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Hide, restore or delete a comment. The action goes into the moderation log.
+route("POST /moderation/comments/:movieId/:commentId", requireRole("admin"), async (c) => {
+  try {
+    const comment = await kv.get(commentKey(c.req.param("movieId"), c.req.param("commentId")));
+    if (!comment) {
+      return c.json({ success: false, error: "Comment not found" }, 404);
     }
     
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { action, note } = c.get("body");
+    const moderator = c.get("user");
+    const updated = await moderateComment(moderator, comment, action, note);
+    console.log(`🛡️ ${moderator.username} ${action === "hide" ? "hid" : action === "restore" ? "restored" : "deleted"} comment ${comment.id}`);
     
-    // Send password reset email using Supabase Auth
-    // The email will contain a link to: https://[your-project].supabase.co/auth/v1/verify?token=...&type=recovery
-    // We need to configure the redirect URL to point to our reset-password page
-    const { data, error } = await supabase.auth.resetPasswordForEmail(email, {
-      redirectTo: `${c.req.header('origin') || 'http://localhost:5173'}/reset-password`,
-    });
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, comment: updated });
+  } catch (error) {
+    console.error("Error moderating comment:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+route("GET /moderation/log", requireRole("admin"), async (c) => {
+  try {
+    const entries = await moderationLog();
+    if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
+    return c.json({ success: true, entries });
+  } catch (error) {
+    console.error("Error loading moderation log:", error);
+    return c.json({ success: false, error: String(error) }, 500);
+  }
+});
+
+// Forgot password - Email a single-use reset link
+route("POST /auth/forgot-password", async (c) => {
+  try {
+    const { email } = c.get("body");
     
-    if (error) {
-      console.error('Supabase password reset error:', error);
-      return c.json({ 
-        success: false, 
-        error: "Failed to send reset email. Please try again." 
-      }, 500);
+    // Checked before the lookup, so the answer still doesn't depend on whether the account exists
+    if (!canSendResetLinks()) {
+      console.error("APP_URL is not set, so password reset links can't be sent");
+      return c.json({ success: false, error: "Password reset is not available right now" }, 503);
     }
     
-    console.log(`Password reset email sent to: ${email}`);
+    const user = await kv.get(`user:email:${email.toLowerCase()}`);
+    
+    // Respond the same way whether or not the account exists so the endpoint
+    // can't be used to discover registered emails
+    if (user) {
+      const reset = await createResetToken(user.id);
+      const link = resetLink(reset.token);
+      const minutes = Math.round((reset.expiresAt - reset.createdAt) / 60000);
+
+      await sendMail({
+        to: user.email,
+        subject: "Reset your Trash Bin password",
+        text: `Hi ${user.username},\n\nUse the link below to choose a new password. It expires in ${minutes} minutes and can only be used once.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+      });
+
+      console.log(`Password reset link sent for user: ${user.username}`);
+    }
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
@@ -968,31 +1563,25 @@ app.post("/make-server-ea58c774/auth/forgot-password", async (c) => {
   }
 });
 
-// Reset password - Update user password in KV store
-app.post("/make-server-ea58c774/auth/reset-password", async (c) => {
+// Reset password - Redeem a reset token and set the new password
+route("POST /auth/reset-password", async (c) => {
   try {
-    const { email, newPassword } = await c.req.json();
+    const { token, newPassword } = c.get("body");
     
-    if (!email || !newPassword) {
-      return c.json({ success: false, error: "Email and new password are required" }, 400);
-    }
-    
-    // Get user by email
-    const user = await kv.get(`user:email:${email.toLowerCase()}`);
+    const user = await consumeResetToken(token);
     
     if (!user) {
-      return c.json({ success: false, error: "User not found" }, 404);
+      return c.json({ success: false, error: "This reset link is invalid or has expired. Please request a new one." }, 400);
     }
     
-    // Update password (in production, this should be hashed!)
-    const updatedUser = { ...user, password: newPassword };
+    const updatedUser = { ...user, password: await hashPassword(newPassword) };
     
     // Update all user records
-    await kv.set(`user:id:${user.id}`, updatedUser);
-    await kv.set(`user:username:${user.username.toLowerCase()}`, updatedUser);
-    await kv.set(`user:email:${user.email.toLowerCase()}`, updatedUser);
+    await saveUser(updatedUser);
+    // Whoever held a session before the reset has to sign in with the new password
+    await revokeSessions(user.id);
     
-    console.log(`Password reset successful for email: ${email}`);
+    console.log(`Password reset successful for user: ${user.username}`);
     
     if (c.req.raw.signal.aborted) return new Response(null, { status: 499 });
 
@@ -1012,7 +1601,7 @@ Deno.serve(
       // Suppress known connection errors handled by the runtime
       const errorStr = String(error);
       if (
-        error?.name === "Http" || 
+        (error instanceof Error && error.name === "Http") || 
         errorStr.includes("connection closed") || 
         errorStr.includes("broken pipe") ||
         errorStr.includes("network error")
@@ -1035,7 +1624,7 @@ Deno.serve(
       // Check for connection errors in the handler catch block
       const errorStr = String(error);
       if (
-        error?.name === "Http" || 
+        (error instanceof Error && error.name === "Http") || 
         errorStr.includes("connection closed") || 
         errorStr.includes("broken pipe") ||
         errorStr.includes("network error")
@@ -0,0 +1,164 @@
+// Secondary indexes on top of the KV store. Records written through putRecord
+// and deleteRecord keep their index entries in step, so lookups like "ratings by
+// user" read a handful of rows instead of scanning a whole prefix.
+//
+// Index entries live under idx:<collection>:<index>:<value>:<primary key> and
+// point back at the primary key. The primary row and its new index entries are
+// written in a single upsert; entries for values that changed are removed
+// afterwards, and lookups re-check every record, so a leftover entry can never
+// return a wrong result.
+import * as kv from "./kv_store.tsx";
+import { slugify } from "./slug.tsx";
+
+// An index function returns the value(s) a record is filed under
+type IndexFn = (record: any) => string | string[] | undefined | null;
+
+const movieIndexes: Record<string, IndexFn> = {
+  imdbId: (movie) => movie.imdbId,
+  // Records saved before slugs were persisted are filed under their title's slug
+  slug: (movie) => movie.slug || slugify(movie.title),
+  // So [[title]] links in comments find the title they name
+  title: (movie) => movie.title?.trim().toLowerCase(),
+  previousSlug: (movie) => movie.previousSlugs,
+  // Trailers waiting for a curator's review are filed under "pending"
+  trailerStatus: (movie) => movie.trailer?.status,
+  // Titles whose poster or trailer the media check found broken
+  brokenMedia: (movie) => Object.keys(movie.brokenMedia || {}),
+};
+
+const valuesOf = (fn: IndexFn, record: any): string[] => {
+  const value = fn(record);
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(Boolean).map(String);
+};
+
+// Collections are named after the prefix of their primary keys
+const COLLECTIONS: Record<string, Record<string, IndexFn>> = {
+  movie: movieIndexes,
+  towatch: {
+    ...movieIndexes,
+    owner: (movie) => movie.ownerId,
+  },
+  rating: {
+    user: (rating) => rating.userIdentifier,
+  },
+  comment: {
+    // Guest names aren't accounts, so guest comments aren't filed under them,
+    // and placeholders of deleted comments have no author left
+    user: (comment) => (comment.guest || comment.deletedAt ? undefined : comment.username?.toLowerCase()),
+    // Comments in the moderation queue: "reported" while they have open
+    // reports, "hidden" once a moderator hid them
+    moderation: (comment) => (comment.hiddenAt ? "hidden" : comment.reports?.length ? "reported" : undefined),
+  },
+  // So a password change can end every session of its user
+  session: {
+    user: (session) => session.userId,
+  },
+};
+
+export type Collection = "movie" | "towatch" | "rating" | "comment" | "session";
+
+const collectionOf = (key: string): string => key.split(":")[0];
+
+const indexPrefix = (collection: string, index: string, value: string) =>
+  `idx:${collection}:${index}:${value}:`;
+
+// Index keys a record should have, given its primary key
+const indexKeysFor = (key: string, record: any): string[] => {
+  const collection = collectionOf(key);
+  const indexes = COLLECTIONS[collection];
+  if (!indexes || !record) return [];
+
+  return Object.entries(indexes).flatMap(([index, fn]) =>
+    valuesOf(fn, record).map((value) => `${indexPrefix(collection, index, value)}${key}`)
+  );
+};
+
+// Write a record and its index entries
+export const putRecord = async (key: string, record: any): Promise<void> => {
+  const previous = await kv.get(key);
+  const indexKeys = indexKeysFor(key, record);
+
+  await kv.mset(
+    [key, ...indexKeys],
+    [record, ...indexKeys.map((indexKey) => ({ key: indexKey, ref: key }))],
+  );
+
+  const stale = indexKeysFor(key, previous).filter((indexKey) => !indexKeys.includes(indexKey));
+  if (stale.length > 0) {
+    await kv.mdel(stale);
+  }
+};
+
+// Delete a record together with its index entries
+export const deleteRecord = async (key: string): Promise<void> => {
+  const previous = await kv.get(key);
+  await kv.mdel([key, ...indexKeysFor(key, previous)]);
+};
+
+// All records in a collection whose index value equals `value`
+export const findBy = async (collection: Collection, index: string, value: string): Promise<any[]> => {
+  const fn = COLLECTIONS[collection]?.[index];
+  if (!fn || !value) return [];
+
+  const entries = await kv.getByPrefix(indexPrefix(collection, index, value));
+  const refs = Array.from(new Set(entries.map((entry) => entry.ref)));
+  if (refs.length === 0) return [];
+
+  const records = await kv.mget(refs);
+  return records.filter((record) => record && valuesOf(fn, record).includes(value));
+};
+
+export const findOneBy = async (collection: Collection, index: string, value: string): Promise<any | null> => {
+  const [record] = await findBy(collection, index, value);
+  return record ?? null;
+};
+
+// getByPrefix only returns values, so rebuild the primary key from the record
+const primaryKeyFor = (collection: string, record: any): string | null => {
+  if (!record) return null;
+  switch (collection) {
+    case "movie":
+    case "towatch":
+      return record.id !== undefined ? `${collection}:${record.id}` : null;
+    case "rating":
+      return record.movieId !== undefined && record.userIdentifier
+        ? `rating:${record.movieId}:${record.userIdentifier}`
+        : null;
+    case "comment":
+      return record.movieId !== undefined && record.id !== undefined
+        ? `comment:${record.movieId}:${record.id}`
+        : null;
+    case "session":
+      return record.token ? `session:${record.token}` : null;
+    default:
+      return null;
+  }
+};
+
+// Drop every index entry and recreate them from the primary records. Used once
+// for data written before indexing existed, or to repair drift.
+export const rebuildIndexes = async (): Promise<Record<string, number>> => {
+  const existing = await kv.getByPrefix("idx:");
+  const existingKeys = existing.map((entry) => entry.key).filter(Boolean);
+  for (let i = 0; i < existingKeys.length; i += 500) {
+    await kv.mdel(existingKeys.slice(i, i + 500));
+  }
+
+  const counts: Record<string, number> = {};
+  for (const collection of Object.keys(COLLECTIONS)) {
+    const records = await kv.getByPrefix(`${collection}:`);
+    const entries = records.flatMap((record) => {
+      const key = primaryKeyFor(collection, record);
+      return key ? indexKeysFor(key, record).map((indexKey) => ({ key: indexKey, ref: key })) : [];
+    });
+
+    for (let i = 0; i < entries.length; i += 500) {
+      const batch = entries.slice(i, i + 500);
+      await kv.mset(batch.map((entry) => entry.key), batch);
+    }
+    counts[collection] = entries.length;
+  }
+
+  return counts;
+};
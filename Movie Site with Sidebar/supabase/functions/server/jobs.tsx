@@ -0,0 +1,351 @@
+// Background jobs for maintenance that touches many titles: plot repair,
+// trailer fetching and migration, runtime repair and migration, re-importing metadata,
+// storing posters, checking for broken media and the scheduled metadata refresh. Enqueuing a job snapshots the ids it will
+// work through and stores it under job:<id>; a worker then processes it in
+// chunks, saving the cursor and counters after each one, so a job survives
+// the function being shut down mid-way.
+//
+// Workers run after the response is sent (EdgeRuntime.waitUntil) for a
+// limited time. A job left unfinished is picked up again when it is polled.
+// Before processing a chunk a worker claims joblock:<id>:<cursor> with an
+// insert, so two workers never process the same chunk; a claim older than
+// LEASE_MS belonged to a worker that died and can be taken over. The claim is
+// renewed before each title, and a chunk stops taking titles after
+// CHUNK_BUDGET_MS, so a live worker keeps its chunk.
+//
+// Titles are read before the slow provider calls and may be edited meanwhile,
+// so only the fields a job changed are written back, onto the record as it is
+// then, and a field someone else changed in between keeps their value.
+import type { Job as PublicJob, JobParams, JobStatus, JobType } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { putRecord } from "./indexes.tsx";
+import { checkMedia } from "./media-check.tsx";
+import { lookupMetadata, runtimeFieldsOf, searchMetadata, type MovieMetadata } from "./metadata.tsx";
+import { applyRefresh, pickRefreshBatch, refreshDue } from "./metadata-refresh.tsx";
+import { needsStoredPoster, storePoster } from "./posters.tsx";
+import { needsRuntimeMigration, runtimeOf, withRuntime } from "./runtime.tsx";
+import { claimKey } from "./sequence.tsx";
+import { migrateTrailer, resolveTrailer } from "./trailers.tsx";
+
+// A job as stored; `cursor` indexes into movieIds, the titles it works through
+export interface Job extends PublicJob {
+  movieIds: number[];
+}
+
+const CHUNK_SIZE = 10;
+const LEASE_MS = 2 * 60 * 1000;
+const CHUNK_BUDGET_MS = 30 * 1000;
+const RUN_BUDGET_MS = 40 * 1000;
+const RESUME_AFTER_MS = 15 * 1000;
+const MAX_RECENT_ERRORS = 20;
+const FINISHED: JobStatus[] = ["completed", "failed", "cancelled"];
+
+interface JobHandler {
+  // Whether a title needs this job at all, decided when the job is enqueued
+  selects: (movie: any, params: JobParams) => boolean;
+  // Order (and cap) the selected titles; by id when not given
+  prioritize?: (movies: any[]) => any[];
+  // Fix one title, returning the record to store, or null to skip it
+  process: (movie: any, params: JobParams) => Promise<any | null>;
+}
+
+const hasShortPlot = (movie: any) => !movie.plot || movie.plot.length < 100 || movie.plot === "N/A";
+
+const hasNoRuntime = (movie: any) => {
+  const { runtimeMinutes, seasonCount, episodeCount } = runtimeOf(movie);
+  return !runtimeMinutes && !seasonCount && !episodeCount;
+};
+
+// Titles without an IMDb id are looked up by title and year
+const metadataFor = (movie: any): Promise<MovieMetadata | null> =>
+  movie.imdbId ? lookupMetadata(movie.imdbId) : searchMetadata(movie.title, movie.year);
+
+const HANDLERS: Record<JobType, JobHandler> = {
+  "fix-plots": {
+    selects: (movie) => !!movie.imdbId && hasShortPlot(movie),
+    process: async (movie) => {
+      const metadata = await lookupMetadata(movie.imdbId);
+      return metadata?.plot ? { ...movie, plot: metadata.plot } : null;
+    },
+  },
+  "fetch-trailers": {
+    selects: (movie, params) => !!params.force || !movie.trailer,
+    process: async (movie) => {
+      const trailer = await resolveTrailer(movie);
+      return trailer ? { ...movie, trailer } : null;
+    },
+  },
+  // Convert trailers saved as URLs into structured trailers
+  "migrate-trailers": {
+    selects: (movie) => typeof movie.trailer === "string",
+    process: async (movie) => migrateTrailer(movie),
+  },
+  "fix-runtimes": {
+    selects: hasNoRuntime,
+    process: async (movie) => {
+      const metadata = await metadataFor(movie);
+      const fields = metadata ? runtimeFieldsOf(metadata) : {};
+      return fields.kind
+        ? withRuntime({ ...movie, imdbId: movie.imdbId || metadata!.imdbId }, fields)
+        : null;
+    },
+  },
+  // Turn runtime labels like "142 min" or "3 Seasons" into structured fields
+  "migrate-runtimes": {
+    selects: needsRuntimeMigration,
+    process: async (movie) => {
+      const migrated = withRuntime(movie);
+      return migrated.kind ? migrated : null;
+    },
+  },
+  // Refresh provider fields; titles, posters and descriptions curators may
+  // have edited are only filled in when missing
+  reimport: {
+    selects: () => true,
+    process: async (movie) => {
+      const metadata = await metadataFor(movie);
+      if (!metadata) return null;
+      return withRuntime(movie, {
+        imdbId: movie.imdbId || metadata.imdbId,
+        genre: metadata.genre ?? movie.genre,
+        ...runtimeFieldsOf(metadata),
+        plot: metadata.plot ?? movie.plot,
+        director: metadata.director ?? movie.director,
+        cast: metadata.cast ?? movie.cast,
+        imdbRating: metadata.imdbRating ?? movie.imdbRating,
+        image: movie.image || metadata.poster,
+        description: movie.description || metadata.plot,
+        metadataUpdatedAt: Date.now(),
+      });
+    },
+  },
+  "refresh-metadata": {
+    selects: (movie) => refreshDue(movie),
+    prioritize: pickRefreshBatch,
+    process: async (movie) => {
+      const refreshed = applyRefresh(movie, await lookupMetadata(movie.imdbId, { fresh: true }));
+      if (!needsStoredPoster(refreshed)) return refreshed;
+      // A new poster that can't be stored is left for the store-posters job
+      const { movie: stored, error } = await storePoster(refreshed);
+      if (error) console.log(`  ⚠️ Could not store the new poster of ${movie.title}: ${error}`);
+      return stored ?? refreshed;
+    },
+  },
+  // Download hot-linked posters into poster storage
+  "store-posters": {
+    selects: needsStoredPoster,
+    process: async (movie) => {
+      const { movie: stored, error } = await storePoster(movie);
+      if (error) throw new Error(error);
+      return stored;
+    },
+  },
+  // Find posters and trailers that no longer load, repair what the providers
+  // can replace and flag the rest for the admin report
+  "check-media": {
+    selects: (movie) => !!movie.image || !!movie.trailer || !!movie.brokenMedia,
+    process: async (movie) => checkMedia(movie),
+  },
+};
+
+const prefixFor = (params: JobParams) => params.list === "towatch" ? "towatch:" : "movie:";
+
+const jobKey = (id: string) => `job:${id}`;
+
+// What the API returns: everything but the id snapshot
+export const publicJob = (job: Job): PublicJob => {
+  const { movieIds: _, ...rest } = job;
+  return rest;
+};
+
+export const createJob = async (type: JobType, params: JobParams, createdBy: string): Promise<Job> => {
+  const handler = HANDLERS[type];
+  const movies = await kv.getByPrefix(prefixFor(params));
+  const selected = movies.filter((movie) => handler.selects(movie, params));
+  const movieIds = handler.prioritize
+    ? handler.prioritize(selected).map((movie) => movie.id)
+    : selected.map((movie) => movie.id).sort((a, b) => a - b);
+
+  const now = Date.now();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type,
+    params,
+    status: movieIds.length ? "queued" : "completed",
+    movieIds,
+    cursor: 0,
+    total: movieIds.length,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+    recentErrors: [],
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+    ...(movieIds.length ? {} : { finishedAt: now }),
+  };
+  await kv.set(jobKey(job.id), job);
+  return job;
+};
+
+export const getJob = async (id: string): Promise<Job | null> => (await kv.get(jobKey(id))) ?? null;
+
+export const listJobs = async (limit = 20): Promise<Job[]> => {
+  const jobs: Job[] = await kv.getByPrefix("job:");
+  return jobs.sort((a, b) => b.createdAt - a.createdAt).slice(0, limit);
+};
+
+// The most recent job of a type that hasn't finished, if any
+export const activeJobOfType = async (type: JobType): Promise<Job | null> =>
+  (await listJobs(100)).find((job) => job.type === type && !FINISHED.includes(job.status)) ?? null;
+
+export const cancelJob = async (id: string): Promise<Job | null> => {
+  const job = await getJob(id);
+  if (!job || FINISHED.includes(job.status)) return job;
+  const cancelled: Job = { ...job, status: "cancelled", updatedAt: Date.now(), finishedAt: Date.now() };
+  await kv.set(jobKey(id), cancelled);
+  return cancelled;
+};
+
+// Claim the chunk at the job's cursor. Taking over a stale claim is itself a
+// claim, keyed on the stale claim's timestamp, so only one worker wins it.
+const claimChunk = async (job: Job): Promise<boolean> => {
+  const lockKey = `joblock:${job.id}:${job.cursor}`;
+  const claimedAt = Date.now();
+  if (await claimKey(lockKey, { key: lockKey, claimedAt })) return true;
+
+  const lock = await kv.get(lockKey);
+  if (!lock || claimedAt - lock.claimedAt < LEASE_MS) return false;
+
+  const takeoverKey = `${lockKey}:${lock.claimedAt}`;
+  if (!(await claimKey(takeoverKey, { key: takeoverKey, claimedAt }))) return false;
+  await kv.set(lockKey, { key: lockKey, claimedAt });
+  return true;
+};
+
+const renewClaim = async (job: Job) => {
+  const lockKey = `joblock:${job.id}:${job.cursor}`;
+  await kv.set(lockKey, { key: lockKey, claimedAt: Date.now() });
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Write the fields `processed` changed from `read` onto the stored record.
+// Returns false when the record was removed meanwhile.
+const saveChanges = async (key: string, read: any, processed: any): Promise<boolean> => {
+  const current = await kv.get(key);
+  if (!current) return false;
+
+  const merged = { ...current };
+  for (const field of new Set([...Object.keys(read), ...Object.keys(processed)])) {
+    if (sameValue(read[field], processed[field]) || !sameValue(read[field], current[field])) continue;
+    if (processed[field] === undefined) delete merged[field];
+    else merged[field] = processed[field];
+  }
+  await putRecord(key, merged);
+  return true;
+};
+
+const releaseLocks = async (id: string) => {
+  const locks = await kv.getByPrefix(`joblock:${id}:`);
+  if (locks.length) await kv.mdel(locks.map((lock) => lock.key));
+};
+
+const processChunk = async (job: Job): Promise<Job> => {
+  const handler = HANDLERS[job.type];
+  const ids = job.movieIds.slice(job.cursor, job.cursor + CHUNK_SIZE);
+  const counts = { updated: 0, skipped: 0, errors: 0 };
+  const recentErrors = [...job.recentErrors];
+  const startedAt = Date.now();
+  let done = 0;
+
+  for (const id of ids) {
+    if (done > 0 && Date.now() - startedAt > CHUNK_BUDGET_MS) break;
+    done++;
+    await renewClaim(job);
+
+    const key = `${prefixFor(job.params)}${id}`;
+    // The title may have changed or been removed since the job was enqueued
+    const movie = await kv.get(key);
+    if (!movie) {
+      counts.skipped++;
+      continue;
+    }
+
+    try {
+      const updated = await handler.process(movie, job.params);
+      if (updated && (await saveChanges(key, movie, updated))) {
+        counts.updated++;
+      } else {
+        counts.skipped++;
+      }
+    } catch (error) {
+      console.error(`❌ Job ${job.id} (${job.type}) failed on ${movie.title}:`, error);
+      counts.errors++;
+      recentErrors.push({ movieId: id, title: movie.title, error: String(error) });
+    }
+  }
+
+  const cursor = job.cursor + done;
+  const now = Date.now();
+  return {
+    ...job,
+    status: cursor >= job.total ? "completed" : "running",
+    cursor,
+    updated: job.updated + counts.updated,
+    skipped: job.skipped + counts.skipped,
+    errors: job.errors + counts.errors,
+    recentErrors: recentErrors.slice(-MAX_RECENT_ERRORS),
+    updatedAt: now,
+    ...(cursor >= job.total ? { finishedAt: now } : {}),
+  };
+};
+
+// Work through a job until it finishes, another worker owns it, or this
+// worker's time is up
+const runJob = async (id: string) => {
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < RUN_BUDGET_MS) {
+    const job = await getJob(id);
+    if (!job || FINISHED.includes(job.status)) return;
+    if (!(await claimChunk(job))) return;
+
+    const next = await processChunk(job);
+
+    // Don't undo a cancel that arrived while the chunk was running
+    const current = await getJob(id);
+    if (current?.status === "cancelled") {
+      await kv.set(jobKey(id), { ...current, ...next, status: "cancelled", finishedAt: current.finishedAt });
+      await releaseLocks(id);
+      return;
+    }
+
+    await kv.set(jobKey(id), next);
+    console.log(`⚙️ Job ${id} (${job.type}): ${next.cursor}/${next.total}`);
+    if (next.status === "completed") {
+      await releaseLocks(id);
+      return;
+    }
+  }
+};
+
+// Run a job in the background, after the current response has been sent
+export const startJobWorker = (id: string) => {
+  const work = runJob(id).catch(async (error) => {
+    console.error(`❌ Job ${id} stopped:`, error);
+    const job = await getJob(id);
+    if (job && !FINISHED.includes(job.status)) {
+      await kv.set(jobKey(id), { ...job, status: "failed", error: String(error), updatedAt: Date.now(), finishedAt: Date.now() });
+    }
+    await releaseLocks(id);
+  });
+  (globalThis as any).EdgeRuntime?.waitUntil(work);
+};
+
+// A job nobody has worked on for a while lost its worker; start a new one
+export const resumeIfStalled = (job: Job) => {
+  if (!FINISHED.includes(job.status) && Date.now() - job.updatedAt > RESUME_AFTER_MS) {
+    startJobWorker(job.id);
+  }
+};
@@ -0,0 +1,83 @@
+// Outgoing mail. The transport is chosen with MAIL_TRANSPORT:
+//   console - log messages to the function logs (default, for development)
+//   file    - write each message as JSON into MAIL_OUTBOX_DIR (default ./outbox)
+//   resend  - send through the Resend API using RESEND_API_KEY and MAIL_FROM
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const consoleTransport: MailTransport = {
+  name: "console",
+  send: async (message) => {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+const fileTransport = (dir: string): MailTransport => ({
+  name: "file",
+  send: async (message) => {
+    await Deno.mkdir(dir, { recursive: true });
+    const path = `${dir}/${Date.now()}-${crypto.randomUUID()}.json`;
+    await Deno.writeTextFile(path, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    console.log(`📧 Mail to ${message.to} written to ${path}`);
+  },
+});
+
+const resendTransport = (apiKey: string, from: string): MailTransport => ({
+  name: "resend",
+  send: async (message) => {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Resend responded with ${response.status}: ${await response.text()}`);
+    }
+  },
+});
+
+const createTransport = (): MailTransport => {
+  const kind = (Deno.env.get("MAIL_TRANSPORT") || "console").toLowerCase();
+
+  if (kind === "file") {
+    return fileTransport(Deno.env.get("MAIL_OUTBOX_DIR") || "./outbox");
+  }
+
+  if (kind === "resend") {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    const from = Deno.env.get("MAIL_FROM");
+    if (!apiKey || !from) {
+      console.error("MAIL_TRANSPORT=resend requires RESEND_API_KEY and MAIL_FROM, falling back to console");
+      return consoleTransport;
+    }
+    return resendTransport(apiKey, from);
+  }
+
+  return consoleTransport;
+};
+
+let transport: MailTransport = createTransport();
+
+// Swap the transport at runtime, e.g. to capture mail in a script
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => transport.send(message);
@@ -0,0 +1,142 @@
+// Broken media detection for the "check-media" job. Posters are checked with
+// a HEAD request (retried as GET for hosts that don't answer HEAD); trailers
+// through the host's oEmbed endpoint, which answers 404 or 401 for videos
+// that were removed, made private or can't be embedded.
+//
+// A broken poster is re-fetched from the metadata provider and a broken
+// trailer re-resolved, skipping the dead video. Whatever can't be repaired is
+// flagged on the record under brokenMedia and listed in the admin report.
+// Server errors, rate limits and timeouts (MEDIA_CHECK_TIMEOUT_MS, default 8s)
+// don't flag anything: they fail the title for this run so the next run checks
+// it again.
+import type { BrokenMedia, Trailer } from "../_shared/api.ts";
+import { lookupMetadata, searchMetadata } from "./metadata.tsx";
+import { storePoster } from "./posters.tsx";
+import { fetchPublicUrl, publicUrlProblem } from "./public-fetch.tsx";
+import { isStructuredTrailer, resolveTrailer, trailerFromUrl } from "./trailers.tsx";
+
+export type MediaKind = "poster" | "trailer";
+
+const TIMEOUT_MS = parseInt(Deno.env.get("MEDIA_CHECK_TIMEOUT_MS") || "") || 8 * 1000;
+
+const probe = async (url: string): Promise<Response> => {
+  const request = (method: string) =>
+    fetchPublicUrl(url, { method, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  const response = await request("HEAD");
+  if (response.status !== 405 && response.status !== 501) return response;
+  const retry = await request("GET");
+  await retry.body?.cancel();
+  return retry;
+};
+
+// Why a response means the media is gone, or null if it loads. Throws for
+// answers that say nothing about the media itself.
+const brokenReason = (response: Response): string | null => {
+  if (response.status >= 500 || response.status === 429) {
+    throw new Error(`${new URL(response.url).host} responded with ${response.status}`);
+  }
+  return response.ok ? null : `Responded with ${response.status}`;
+};
+
+export const checkPoster = async (url: string): Promise<string | null> => {
+  // Poster URLs come from users, so ones on internal hosts are flagged without being requested
+  const problem = await publicUrlProblem(url);
+  if (problem) return problem;
+  const response = await probe(url);
+  const reason = brokenReason(response);
+  if (reason) return reason;
+  const contentType = response.headers.get("content-type");
+  return contentType && !contentType.startsWith("image/") ? `Not an image (${contentType})` : null;
+};
+
+const oembedUrl = (video: Pick<Trailer, "provider" | "videoId">) =>
+  video.provider === "vimeo"
+    ? `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(`https://vimeo.com/${video.videoId}`)}`
+    : `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(`https://www.youtube.com/watch?v=${video.videoId}`)}`;
+
+export const checkTrailer = async (trailer: Trailer | string): Promise<string | null> => {
+  const video = isStructuredTrailer(trailer) ? trailer : trailerFromUrl(trailer);
+  if (!video) return "Not a link to a video";
+  return brokenReason(await probe(oembedUrl(video)));
+};
+
+const trailerUrl = (trailer: Trailer | string) =>
+  typeof trailer === "string"
+    ? trailer
+    : trailer.provider === "vimeo"
+    ? `https://vimeo.com/${trailer.videoId}`
+    : `https://www.youtube.com/watch?v=${trailer.videoId}`;
+
+// Ask the provider for the poster again. Returns the repaired record, or null.
+const repairPoster = async (movie: any): Promise<any | null> => {
+  const metadata = movie.imdbId
+    ? await lookupMetadata(movie.imdbId, { fresh: true })
+    : await searchMetadata(movie.title, movie.year);
+  const candidate = metadata?.poster;
+  if (!candidate || candidate === movie.image || await checkPoster(candidate)) return null;
+
+  // Drop the stored poster so the candidate is downloaded even if it was the
+  // source of the copy that broke. If storing fails, hot-link it for now.
+  const { movie: stored } = await storePoster({ ...movie, poster: undefined }, candidate);
+  return { ...(stored ?? { ...movie, image: candidate }), posterOrigin: "provider" };
+};
+
+// Resolve the trailer again without the dead video. Returns the repaired record, or null.
+const repairTrailer = async (movie: any): Promise<any | null> => {
+  const dead = isStructuredTrailer(movie.trailer) ? movie.trailer.videoId : trailerFromUrl(movie.trailer)?.videoId;
+  const rejectedTrailerIds = dead ? [...(movie.rejectedTrailerIds || []), dead] : movie.rejectedTrailerIds;
+  const { trailer: _, ...rest } = movie;
+  const trailer = await resolveTrailer({ ...rest, rejectedTrailerIds });
+  if (!trailer || await checkTrailer(trailer)) return null;
+  return { ...rest, trailer, rejectedTrailerIds };
+};
+
+// Check a title's poster and trailer, repairing what it can. Returns the
+// record to store, or null when everything works and nothing was flagged.
+export const checkMedia = async (movie: any, now = Date.now()): Promise<any | null> => {
+  let updated = movie;
+  const broken: Partial<Record<MediaKind, BrokenMedia>> = {};
+  const flag = (kind: MediaKind, url: string, reason: string) => {
+    const previous = movie.brokenMedia?.[kind];
+    broken[kind] = {
+      url,
+      reason,
+      detectedAt: previous?.url === url ? previous.detectedAt : now,
+      checkedAt: now,
+    };
+  };
+
+  const posterReason = movie.image ? await checkPoster(movie.image) : null;
+  if (posterReason) {
+    const repaired = await repairPoster(updated);
+    if (repaired) {
+      console.log(`  🖼️ Replaced the broken poster of ${movie.title}`);
+      updated = repaired;
+    } else {
+      flag("poster", movie.image, posterReason);
+    }
+  }
+
+  const trailerReason = movie.trailer ? await checkTrailer(movie.trailer) : null;
+  if (trailerReason) {
+    const repaired = await repairTrailer(updated);
+    if (repaired) {
+      console.log(`  🎬 Replaced the broken trailer of ${movie.title}`);
+      updated = repaired;
+    } else {
+      flag("trailer", trailerUrl(movie.trailer), trailerReason);
+    }
+  }
+
+  const { brokenMedia: _, ...rest } = updated;
+  if (Object.keys(broken).length) return { ...rest, brokenMedia: broken };
+  return updated === movie && !movie.brokenMedia ? null : rest;
+};
+
+// The media was replaced by hand, so it no longer needs attention
+export const clearBrokenMedia = (movie: any, kind: MediaKind) => {
+  if (!movie.brokenMedia?.[kind]) return movie;
+  const { [kind]: _, ...remaining } = movie.brokenMedia;
+  const { brokenMedia: __, ...rest } = movie;
+  return Object.keys(remaining).length ? { ...rest, brokenMedia: remaining } : rest;
+};
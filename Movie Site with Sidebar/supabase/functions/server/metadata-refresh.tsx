@@ -0,0 +1,55 @@
+// Scheduled refresh of the metadata that changes after a title is added:
+// IMDb rating and votes, runtime and poster. Recent releases change the most,
+// so titles released in the last METADATA_REFRESH_RECENT_YEARS years (default
+// 2) are refreshed every METADATA_REFRESH_RECENT_HOURS (default 24) and older
+// ones every METADATA_REFRESH_HOURS (default 30 days). Each run takes at most
+// METADATA_REFRESH_BATCH titles (default 200), newest releases first.
+//
+// Runs are started by POST /cron/refresh-metadata, e.g. from pg_cron, and are
+// processed as "refresh-metadata" jobs.
+import { runtimeFieldsOf, type MovieMetadata } from "./metadata.tsx";
+import { withRuntime } from "./runtime.tsx";
+
+const HOUR_MS = 60 * 60 * 1000;
+const RECENT_YEARS = parseInt(Deno.env.get("METADATA_REFRESH_RECENT_YEARS") || "") || 2;
+const RECENT_INTERVAL_MS = (parseFloat(Deno.env.get("METADATA_REFRESH_RECENT_HOURS") || "") || 24) * HOUR_MS;
+const INTERVAL_MS = (parseFloat(Deno.env.get("METADATA_REFRESH_HOURS") || "") || 24 * 30) * HOUR_MS;
+const BATCH = parseInt(Deno.env.get("METADATA_REFRESH_BATCH") || "") || 200;
+
+const isRecent = (movie: any, now: number) =>
+  (movie.year || 0) >= new Date(now).getFullYear() - RECENT_YEARS + 1;
+
+// Titles that were never refreshed are always due
+export const refreshDue = (movie: any, now = Date.now()): boolean => {
+  if (!movie.imdbId) return false;
+  const interval = isRecent(movie, now) ? RECENT_INTERVAL_MS : INTERVAL_MS;
+  return now - (movie.metadataUpdatedAt || 0) >= interval;
+};
+
+// The titles one run refreshes: newest releases first, then the longest
+// since their last refresh
+export const pickRefreshBatch = (movies: any[], now = Date.now()): any[] =>
+  movies
+    .filter((movie) => refreshDue(movie, now))
+    .sort((a, b) =>
+      (b.year || 0) - (a.year || 0) || (a.metadataUpdatedAt || 0) - (b.metadataUpdatedAt || 0)
+    )
+    .slice(0, BATCH);
+
+// Provider values win; fields it doesn't report keep what the title has. A
+// poster is only replaced when it came from the provider and the provider's
+// URL differs from the one the stored poster was downloaded from. Posters
+// picked by hand stay.
+export const applyRefresh = (movie: any, metadata: MovieMetadata | null, now = Date.now()) => {
+  if (!metadata) return { ...movie, metadataUpdatedAt: now };
+  const newPoster = !!metadata.poster && movie.posterOrigin !== "manual" && metadata.poster !== movie.poster?.source;
+  return {
+    ...withRuntime(movie, {
+      imdbRating: metadata.imdbRating ?? movie.imdbRating,
+      imdbVotes: metadata.imdbVotes ?? movie.imdbVotes,
+      ...runtimeFieldsOf(metadata),
+      ...(newPoster ? { image: metadata.poster, posterOrigin: "provider" } : {}),
+    }),
+    metadataUpdatedAt: now,
+  };
+};
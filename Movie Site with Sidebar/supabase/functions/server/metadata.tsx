@@ -0,0 +1,281 @@
+// Movie metadata lookups. Every caller (adding a movie, runtime repair, plot
+// repair) goes through this module, so API keys stay on the server and every
+// provider's response is normalized into the same shape. The provider is
+// chosen with METADATA_PROVIDER:
+//   omdb    - OMDb, using OMDB_API_KEY (default)
+//   tmdb    - The Movie Database, using TMDB_API_KEY
+//   fixture - a local JSON file of MovieMetadata records at METADATA_FIXTURE_PATH
+//             (default ./fixtures/metadata.json), for development and tests
+//
+// Lookups are cached in KV under metadata:<provider>:<imdbId> for
+// METADATA_CACHE_TTL_HOURS (default a week), including titles the provider
+// doesn't know. Requests that do reach the provider are held to
+// METADATA_RATE_PER_SECOND (default 4) with bursts of up to METADATA_BURST
+// (default 8), across every instance of the function (see rate-limit.tsx), so
+// batch repairs can't exceed its limits.
+import type { TitleKind } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { throttle } from "./rate-limit.tsx";
+import { filmKind, formatRuntime, parseRuntime, type RuntimeFields } from "./runtime.tsx";
+
+export interface MovieMetadata {
+  imdbId: string;
+  title: string;
+  year: number;
+  kind: TitleKind;
+  genre?: string; // Comma separated, like "Crime, Drama"
+  plot?: string;
+  poster?: string;
+  runtime?: string; // Display label, see runtime.tsx
+  runtimeMinutes?: number; // Per episode for series
+  seasonCount?: number;
+  episodeCount?: number;
+  rating?: number;
+  imdbRating?: number;
+  imdbVotes?: number; // Only OMDb reports IMDb's vote count
+  director?: string;
+  cast?: string[];
+}
+
+export interface MetadataProvider {
+  name: string;
+  lookup: (imdbId: string) => Promise<MovieMetadata | null>;
+  search: (title: string, year?: number) => Promise<MovieMetadata | null>;
+}
+
+// Fill in the kind (when only "movie" or "series" is known) and the display label
+const withRuntimeFields = (metadata: MovieMetadata): MovieMetadata => {
+  const isShort = metadata.kind === "movie" &&
+    (/\bShort\b/.test(metadata.genre || "") || filmKind(metadata.runtimeMinutes) === "short");
+  const kind = isShort ? "short" : metadata.kind;
+  return { ...metadata, kind, runtime: formatRuntime({ ...metadata, kind }) };
+};
+
+// OMDb marks missing values as "N/A"
+const omdbValue = (value: string | undefined): string | undefined =>
+  value && value !== "N/A" ? value : undefined;
+
+const omdbProvider = (apiKey: string): MetadataProvider => {
+  const request = async (params: Record<string, string>): Promise<MovieMetadata | null> => {
+    const query = new URLSearchParams({ ...params, plot: "full", apikey: apiKey });
+    const res = await fetch(`https://www.omdbapi.com/?${query}`);
+    if (!res.ok) throw new Error(`OMDb responded with ${res.status}`);
+    const data = await res.json();
+    if (data.Response === "False") return null;
+
+    const seasons = parseInt(data.totalSeasons);
+    const minutes = parseInt(omdbValue(data.Runtime) || "");
+    const imdbRating = parseFloat(data.imdbRating);
+    const imdbVotes = parseInt(String(data.imdbVotes).replace(/,/g, ""));
+    return withRuntimeFields({
+      imdbId: data.imdbID,
+      title: data.Title,
+      year: parseInt(data.Year),
+      kind: data.Type === "series" ? "series" : "movie",
+      genre: omdbValue(data.Genre),
+      plot: omdbValue(data.Plot),
+      poster: omdbValue(data.Poster),
+      runtimeMinutes: Number.isFinite(minutes) ? minutes : undefined,
+      seasonCount: data.Type === "series" && Number.isFinite(seasons) ? seasons : undefined,
+      rating: Number.isFinite(imdbRating) ? imdbRating : undefined,
+      imdbRating: Number.isFinite(imdbRating) ? imdbRating : undefined,
+      imdbVotes: Number.isFinite(imdbVotes) ? imdbVotes : undefined,
+      director: omdbValue(data.Director),
+      cast: omdbValue(data.Actors)?.split(", "),
+    });
+  };
+
+  return {
+    name: "omdb",
+    lookup: (imdbId) => request({ i: imdbId }),
+    search: (title, year) => request({ t: title, ...(year ? { y: String(year) } : {}) }),
+  };
+};
+
+const tmdbProvider = (apiKey: string): MetadataProvider => {
+  const get = async (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams({ ...params, api_key: apiKey });
+    const res = await fetch(`https://api.themoviedb.org/3${path}?${query}`);
+    if (!res.ok) throw new Error(`TMDb responded with ${res.status}`);
+    return res.json();
+  };
+
+  // Fetch full details for a TMDb movie or TV show and normalize them
+  const details = async (kind: "movie" | "tv", tmdbId: number): Promise<MovieMetadata | null> => {
+    const data = await get(`/${kind}/${tmdbId}`, { append_to_response: "credits,external_ids" });
+    const imdbId = data.imdb_id || data.external_ids?.imdb_id;
+    if (!imdbId) return null;
+
+    const date: string = data.release_date || data.first_air_date || "";
+    const director = kind === "movie"
+      ? data.credits?.crew?.find((member: any) => member.job === "Director")?.name
+      : data.created_by?.map((creator: any) => creator.name).join(", ");
+
+    return withRuntimeFields({
+      imdbId,
+      title: data.title || data.name,
+      year: parseInt(date.slice(0, 4)),
+      kind: kind === "movie" ? "movie" : data.type === "Miniseries" ? "miniseries" : "series",
+      genre: data.genres?.map((genre: any) => genre.name).join(", ") || undefined,
+      plot: data.overview || undefined,
+      poster: data.poster_path ? `https://image.tmdb.org/t/p/w500${data.poster_path}` : undefined,
+      runtimeMinutes: (kind === "tv" ? data.episode_run_time?.[0] : data.runtime) || undefined,
+      seasonCount: data.number_of_seasons || undefined,
+      episodeCount: data.number_of_episodes || undefined,
+      rating: data.vote_average ? Math.round(data.vote_average * 10) / 10 : undefined,
+      director: director || undefined,
+      cast: data.credits?.cast?.slice(0, 5).map((member: any) => member.name),
+    });
+  };
+
+  return {
+    name: "tmdb",
+    lookup: async (imdbId) => {
+      const found = await get(`/find/${imdbId}`, { external_source: "imdb_id" });
+      if (found.movie_results?.[0]) return details("movie", found.movie_results[0].id);
+      if (found.tv_results?.[0]) return details("tv", found.tv_results[0].id);
+      return null;
+    },
+    search: async (title, year) => {
+      const found = await get("/search/multi", { query: title });
+      const match = (found.results || []).find((result: any) => {
+        if (result.media_type !== "movie" && result.media_type !== "tv") return false;
+        const date: string = result.release_date || result.first_air_date || "";
+        return !year || parseInt(date.slice(0, 4)) === year;
+      });
+      return match ? details(match.media_type, match.id) : null;
+    },
+  };
+};
+
+const fixtureProvider = (path: string): MetadataProvider => {
+  let records: Promise<MovieMetadata[]> | null = null;
+  const load = (): Promise<MovieMetadata[]> => (records ??= Deno.readTextFile(path).then((text) => JSON.parse(text)));
+
+  return {
+    name: "fixture",
+    lookup: async (imdbId) => (await load()).find((m) => m.imdbId === imdbId) ?? null,
+    search: async (title, year) =>
+      (await load()).find((m) =>
+        m.title.toLowerCase() === title.toLowerCase() && (!year || m.year === year)
+      ) ?? null,
+  };
+};
+
+// A provider that fails every request, so a missing key is reported where
+// metadata is used instead of stopping the whole function from starting
+const misconfiguredProvider = (name: string, message: string): MetadataProvider => {
+  const fail = () => Promise.reject(new Error(message));
+  return { name, lookup: fail, search: fail };
+};
+
+const createProvider = (): MetadataProvider => {
+  const kind = (Deno.env.get("METADATA_PROVIDER") || "omdb").toLowerCase();
+
+  if (kind === "fixture") {
+    return fixtureProvider(Deno.env.get("METADATA_FIXTURE_PATH") || "./fixtures/metadata.json");
+  }
+
+  if (kind === "tmdb") {
+    const apiKey = Deno.env.get("TMDB_API_KEY");
+    return apiKey ? tmdbProvider(apiKey) : misconfiguredProvider("tmdb", "TMDB_API_KEY is not set");
+  }
+
+  const apiKey = Deno.env.get("OMDB_API_KEY");
+  return apiKey ? omdbProvider(apiKey) : misconfiguredProvider("omdb", "OMDB_API_KEY is not set");
+};
+
+let provider: MetadataProvider = createProvider();
+
+// Swap the provider at runtime, e.g. to use fixtures in a script
+export const setMetadataProvider = (next: MetadataProvider) => {
+  provider = next;
+};
+
+export const metadataProviderName = () => provider.name;
+
+const envNumber = (name: string, fallback: number) => parseFloat(Deno.env.get(name) || "") || fallback;
+
+const CACHE_TTL_MS = envNumber("METADATA_CACHE_TTL_HOURS", 24 * 7) * 60 * 60 * 1000;
+const RATE_PER_SECOND = envNumber("METADATA_RATE_PER_SECOND", 4);
+const BURST = envNumber("METADATA_BURST", 8);
+
+interface CachedMetadata {
+  metadata: MovieMetadata | null;
+  fetchedAt: number;
+}
+
+// Wait for the provider's rate limit
+const takeToken = async () => {
+  await throttle("metadata", RATE_PER_SECOND, BURST);
+};
+
+const cacheKey = (imdbId: string) => `metadata:${provider.name}:${imdbId}`;
+
+const remember = (imdbId: string, metadata: MovieMetadata | null) => {
+  const entry: CachedMetadata = { metadata, fetchedAt: Date.now() };
+  return kv.set(cacheKey(imdbId), entry);
+};
+
+// `fresh` skips the cache, for refreshes that need current ratings
+export const lookupMetadata = async (
+  imdbId: string,
+  { fresh = false }: { fresh?: boolean } = {},
+): Promise<MovieMetadata | null> => {
+  const cached: CachedMetadata | undefined = fresh ? undefined : await kv.get(cacheKey(imdbId));
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  await takeToken();
+  const metadata = await provider.lookup(imdbId);
+  await remember(imdbId, metadata);
+  return metadata;
+};
+
+// Title searches aren't cached, but what they find is, so a following lookup
+// by IMDb id doesn't call the provider again
+export const searchMetadata = async (title: string, year?: number): Promise<MovieMetadata | null> => {
+  await takeToken();
+  const metadata = await provider.search(title, year);
+  if (metadata) await remember(metadata.imdbId, metadata);
+  return metadata;
+};
+
+// How lookups are set up, reported on /health. There are no usage counters:
+// instances don't share memory, so each would only count its own requests.
+export const metadataStats = () => ({
+  provider: provider.name,
+  cache: { ttlHours: CACHE_TTL_MS / (60 * 60 * 1000) },
+  rateLimit: { perSecond: RATE_PER_SECOND, burst: BURST },
+});
+
+// The structured runtime of a lookup. Lookups cached before runtimes were
+// structured (and fixture records) may only carry the label.
+export const runtimeFieldsOf = (metadata: MovieMetadata): RuntimeFields =>
+  metadata.runtimeMinutes || metadata.seasonCount || metadata.episodeCount
+    ? {
+      kind: metadata.kind,
+      runtimeMinutes: metadata.runtimeMinutes,
+      seasonCount: metadata.seasonCount,
+      episodeCount: metadata.episodeCount,
+    }
+    : parseRuntime(metadata.runtime);
+
+// The Movie fields metadata fills in when a title is added
+export const toMovieFields = (metadata: MovieMetadata) => ({
+  title: metadata.title,
+  year: metadata.year,
+  genre: metadata.genre,
+  rating: metadata.rating ?? 0,
+  image: metadata.poster,
+  description: metadata.plot,
+  runtime: metadata.runtime,
+  ...runtimeFieldsOf(metadata),
+  imdbId: metadata.imdbId,
+  imdbRating: metadata.imdbRating,
+  imdbVotes: metadata.imdbVotes,
+  director: metadata.director,
+  cast: metadata.cast,
+  plot: metadata.plot,
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parseMovieQuery, runMovieQuery, type RatingSummary } from "./movie-query.tsx";
+
+const noRatings: RatingSummary = { averages: {}, userRatings: {} };
+
+const movies = [
+  { id: 1, title: "Heat", year: 1995, genre: "Crime, Drama", imdbRating: 8.3, kind: "movie", runtimeMinutes: 170, dateAdded: 100, tags: ["heist"] },
+  { id: 2, title: "Alien", year: 1979, genre: "Horror, Sci-Fi", imdbRating: 8.5, kind: "movie", runtimeMinutes: 117, dateAdded: 300 },
+  { id: 3, title: "Chernobyl", year: 2019, genre: "Drama", imdbRating: 9.3, kind: "miniseries", seasonCount: 1, dateAdded: 200 },
+  { id: 4, title: "Run Lola Run", year: 1998, genre: "Crime", imdbRating: 7.6, runtime: "81 min", dateAdded: 50, watchedAt: 400 },
+];
+
+const query = (params: Record<string, string | string[]>) =>
+  parseMovieQuery(Object.fromEntries(Object.entries(params).map(([key, value]) => [key, [value].flat()])));
+
+const ids = (result: { movies: any[] }) => result.movies.map((movie) => movie.id);
+
+describe("parseMovieQuery", () => {
+  it("uses defaults for missing and invalid values", () => {
+    expect(query({ sort: "nonsense", runtime: "huge", minRating: "x" })).toMatchObject({
+      search: "",
+      sort: "dateAdded",
+      runtime: null,
+      minRating: 0,
+      maxRating: 10,
+      pageSize: null,
+    });
+  });
+
+  it("splits comma-separated and repeated list values", () => {
+    expect(query({ genre: ["Crime,Drama", "Horror"], year: "1995,abc" })).toMatchObject({
+      genres: ["Crime", "Drama", "Horror"],
+      years: [1995],
+    });
+  });
+
+  it("pages once a page, page size or cursor is given, and caps the page size", () => {
+    expect(query({ page: "2" })).toMatchObject({ page: 2, pageSize: 24 });
+    expect(query({ pageSize: "1000" }).pageSize).toBe(100);
+  });
+});
+
+describe("runMovieQuery", () => {
+  it("sorts newest additions first, placing moved titles by when they were watched", () => {
+    expect(ids(runMovieQuery(movies, query({}), noRatings))).toEqual([4, 2, 3, 1]);
+    expect(ids(runMovieQuery(movies, query({ sort: "title" }), noRatings))).toEqual([2, 3, 1, 4]);
+  });
+
+  it("searches titles case-insensitively and filters by genre, rating and runtime bucket", () => {
+    expect(ids(runMovieQuery(movies, query({ q: "ALIEN" }), noRatings))).toEqual([2]);
+    expect(ids(runMovieQuery(movies, query({ genre: "Crime", sort: "year" }), noRatings))).toEqual([4, 1]);
+    expect(ids(runMovieQuery(movies, query({ minRating: "8.4" }), noRatings))).toEqual([2, 3]);
+    expect(ids(runMovieQuery(movies, query({ runtime: "short" }), noRatings))).toEqual([4]);
+    expect(ids(runMovieQuery(movies, query({ runtime: "oneSeason" }), noRatings))).toEqual([3]);
+  });
+
+  it("sorts by runtime with films before series", () => {
+    expect(ids(runMovieQuery(movies, query({ sort: "runtime" }), noRatings))).toEqual([4, 2, 1, 3]);
+  });
+
+  it("counts each facet with the other filters applied", () => {
+    const { facets } = runMovieQuery(movies, query({ genre: "Crime", year: "1995" }), noRatings);
+    // Genres ignore the genre filter but apply the year filter
+    expect(facets.genres).toEqual({ Crime: 1, Drama: 1 });
+    // Years ignore the year filter but apply the genre filter
+    expect(facets.years).toEqual({ 1995: 1, 1998: 1 });
+    expect(facets.tags).toEqual({ heist: 1 });
+  });
+
+  it("merges community averages and the user's own ratings", () => {
+    const ratings: RatingSummary = { averages: { 1: { average: 4.5, count: 2 } }, userRatings: { 2: 5 } };
+    const result = runMovieQuery(movies, query({ sort: "communityRating" }), ratings);
+    expect(result.movies[0]).toMatchObject({ id: 1, communityRating: 4.5, ratingCount: 2 });
+    expect(result.movies.find((movie) => movie.id === 2)?.userRating).toBe(5);
+  });
+
+  it("pages by number or continues after a cursor", () => {
+    const first = runMovieQuery(movies, query({ pageSize: "2" }), noRatings);
+    expect(first).toMatchObject({ total: 4, page: 1, pageSize: 2, totalPages: 2 });
+    expect(ids(first)).toEqual([4, 2]);
+
+    const next = runMovieQuery(movies, query({ pageSize: "2", cursor: first.nextCursor! }), noRatings);
+    expect(ids(next)).toEqual([3, 1]);
+    expect(next.nextCursor).toBeNull();
+  });
+});
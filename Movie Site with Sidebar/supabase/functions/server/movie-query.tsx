@@ -0,0 +1,238 @@
+// Search, filtering, sorting, pagination and facet counts for movie lists.
+// Mirrors the filters the home page offers so only one page has to be sent.
+import { MOVIE_SORTS, RUNTIME_FILTERS, type MovieSort, type RuntimeFilter } from "../_shared/api.ts";
+import { isSeries, runtimeOf } from "./runtime.tsx";
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export interface MovieQuery {
+  search: string;
+  genres: string[];
+  years: number[];
+  minRating: number;
+  maxRating: number;
+  runtime: RuntimeFilter | null;
+  tags: string[];
+  ids: number[];
+  sort: MovieSort;
+  page: number;
+  pageSize: number | null; // null returns every match on one page
+  cursor: string | null;
+}
+
+export interface RatingSummary {
+  averages: { [movieId: string]: { average: number; count: number } };
+  userRatings: { [movieId: string]: number };
+}
+
+type Facet = "genres" | "years" | "tags" | "runtime";
+
+const first = (params: Record<string, string[]>, key: string): string | undefined => params[key]?.[0];
+
+// Accept both repeated params (?genre=A&genre=B) and comma lists (?genre=A,B)
+const list = (params: Record<string, string[]>, key: string): string[] =>
+  (params[key] || [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+const number = (value: string | undefined, fallback: number): number => {
+  const parsed = parseFloat(value ?? "");
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Build a query from the request's query string (as returned by c.req.queries())
+export const parseMovieQuery = (params: Record<string, string[]>): MovieQuery => {
+  const sort = first(params, "sort") as MovieSort;
+  const runtime = first(params, "runtime") as RuntimeFilter;
+  const pageSize = first(params, "pageSize");
+  const paged = pageSize !== undefined || first(params, "page") !== undefined || first(params, "cursor") !== undefined;
+
+  return {
+    search: (first(params, "q") || "").trim().toLowerCase(),
+    genres: list(params, "genre"),
+    years: list(params, "year").map((y) => parseInt(y)).filter(Number.isFinite),
+    minRating: number(first(params, "minRating"), 0),
+    maxRating: number(first(params, "maxRating"), 10),
+    runtime: RUNTIME_FILTERS.includes(runtime) ? runtime : null,
+    tags: list(params, "tag"),
+    ids: list(params, "id").map((id) => parseInt(id)).filter(Number.isFinite),
+    sort: MOVIE_SORTS.includes(sort) ? sort : "dateAdded",
+    page: Math.max(1, Math.floor(number(first(params, "page"), 1))),
+    pageSize: paged
+      ? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(number(pageSize, DEFAULT_PAGE_SIZE))))
+      : null,
+    cursor: first(params, "cursor") || null,
+  };
+};
+
+const genresOf = (movie: any): string[] =>
+  movie.genre ? String(movie.genre).split(",").map((g: string) => g.trim()).filter(Boolean) : [];
+
+const ratingOf = (movie: any): number => movie.imdbRating || movie.rating || 0;
+
+// Which runtime bucket a movie falls into, if any. Series are bucketed by
+// seasons, films by length.
+const runtimeBucket = (movie: any): RuntimeFilter | null => {
+  const { kind, runtimeMinutes, seasonCount } = runtimeOf(movie);
+
+  if (isSeries(kind)) {
+    if (seasonCount === 1) return "oneSeason";
+    return seasonCount && seasonCount > 1 ? "multiSeason" : null;
+  }
+
+  if (!runtimeMinutes) return null;
+  if (runtimeMinutes <= 90) return "short";
+  return runtimeMinutes <= 150 ? "medium" : "long";
+};
+
+// Shortest first: films by minutes, then series by seasons and episodes.
+// Titles without a runtime go last.
+const compareRuntime = (a: any, b: any): number => {
+  const key = (movie: any): number[] => {
+    const { kind, runtimeMinutes, seasonCount, episodeCount } = runtimeOf(movie);
+    if (isSeries(kind)) return seasonCount || episodeCount ? [1, seasonCount || 0, episodeCount || 0] : [2, 0, 0];
+    return runtimeMinutes ? [0, runtimeMinutes, 0] : [2, 0, 0];
+  };
+  const [ka, kb] = [key(a), key(b)];
+  return ka[0] - kb[0] || ka[1] - kb[1] || ka[2] - kb[2];
+};
+
+// One predicate per facet so each facet can be counted with the other filters applied
+const buildFilters = (query: MovieQuery) => {
+  const filters: { facet: Facet | null; test: (movie: any) => boolean }[] = [];
+
+  if (query.search) {
+    filters.push({
+      facet: null,
+      test: (movie) =>
+        String(movie.title || "").toLowerCase().includes(query.search) ||
+        String(movie.description || "").toLowerCase().includes(query.search),
+    });
+  }
+  if (query.ids.length > 0) {
+    filters.push({ facet: null, test: (movie) => query.ids.includes(Number(movie.id)) });
+  }
+  if (query.minRating > 0 || query.maxRating < 10) {
+    filters.push({
+      facet: null,
+      test: (movie) => ratingOf(movie) >= query.minRating && ratingOf(movie) <= query.maxRating,
+    });
+  }
+  if (query.genres.length > 0) {
+    filters.push({ facet: "genres", test: (movie) => genresOf(movie).some((g) => query.genres.includes(g)) });
+  }
+  if (query.years.length > 0) {
+    filters.push({ facet: "years", test: (movie) => query.years.includes(movie.year) });
+  }
+  if (query.tags.length > 0) {
+    filters.push({ facet: "tags", test: (movie) => (movie.tags || []).some((t: string) => query.tags.includes(t)) });
+  }
+  if (query.runtime) {
+    filters.push({ facet: "runtime", test: (movie) => runtimeBucket(movie) === query.runtime });
+  }
+
+  return filters;
+};
+
+// When a title joined its list. Titles moved off the watchlist keep their id,
+// so their watchedAt date is what places them among the newest additions.
+const addedAt = (movie: any): number => movie.watchedAt ?? movie.dateAdded ?? 0;
+
+const compare = (sort: MovieSort) => (a: any, b: any): number => {
+  switch (sort) {
+    case "dateAdded":
+      return addedAt(b) - addedAt(a) || b.id - a.id; // Newest first
+    case "dateAddedLatest":
+      return addedAt(a) - addedAt(b) || a.id - b.id; // Latest (oldest) first
+    case "title":
+      return String(a.title || "").localeCompare(String(b.title || ""));
+    case "year":
+      return (b.year || 0) - (a.year || 0);
+    case "imdbRating":
+      return ratingOf(b) - ratingOf(a);
+    case "userRating":
+      return (b.userRating || 0) - (a.userRating || 0);
+    case "communityRating":
+      return (b.communityRating || 0) - (a.communityRating || 0);
+    case "runtime":
+      return compareRuntime(a, b);
+    default:
+      return 0;
+  }
+};
+
+const increment = (counts: { [key: string]: number }, key: string | number) => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+// Cursors are the id of the last movie on the previous page, so inserting or
+// removing earlier titles doesn't shift what the next page starts with
+const encodeCursor = (movie: any): string => btoa(JSON.stringify({ after: movie.id }));
+
+const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { after } = JSON.parse(atob(cursor));
+    return typeof after === "number" ? after : null;
+  } catch {
+    return null;
+  }
+};
+
+// Filter, sort and paginate a list of movies. Rating data is merged into each
+// movie first so the rating sorts work and the client doesn't need to fetch it.
+export const runMovieQuery = (allMovies: any[], query: MovieQuery, ratings: RatingSummary) => {
+  const movies = allMovies.map((movie) => ({
+    ...movie,
+    communityRating: ratings.averages[movie.id]?.average,
+    ratingCount: ratings.averages[movie.id]?.count,
+    userRating: ratings.userRatings[movie.id] ?? movie.userRating,
+  }));
+
+  const filters = buildFilters(query);
+  const matches = (movie: any, skip: Facet | null = null) =>
+    filters.every((filter) => (skip && filter.facet === skip) || filter.test(movie));
+
+  // Each facet is counted with every filter except its own applied, so the
+  // sidebar shows how many results selecting another value would add
+  const facets = {
+    genres: {} as { [genre: string]: number },
+    years: {} as { [year: string]: number },
+    tags: {} as { [tag: string]: number },
+    runtime: {} as { [bucket: string]: number },
+  };
+  movies.forEach((movie) => {
+    if (matches(movie, "genres")) genresOf(movie).forEach((g) => increment(facets.genres, g));
+    if (matches(movie, "years") && movie.year) increment(facets.years, movie.year);
+    if (matches(movie, "tags")) (movie.tags || []).forEach((t: string) => increment(facets.tags, t));
+    if (matches(movie, "runtime")) {
+      const bucket = runtimeBucket(movie);
+      if (bucket) increment(facets.runtime, bucket);
+    }
+  });
+
+  const results = movies.filter((movie) => matches(movie)).sort(compare(query.sort));
+  const total = results.length;
+  const pageSize = query.pageSize ?? Math.max(total, 1);
+
+  let start = (query.page - 1) * pageSize;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    const index = results.findIndex((movie) => movie.id === after);
+    if (index !== -1) start = index + 1;
+  }
+
+  const page = results.slice(start, start + pageSize);
+  const hasMore = start + pageSize < total;
+
+  return {
+    movies: page,
+    total,
+    page: Math.floor(start / pageSize) + 1,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+    facets,
+  };
+};
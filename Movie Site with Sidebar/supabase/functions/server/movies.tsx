@@ -0,0 +1,222 @@
+// Helpers for movie records shared by the movie and watchlist routes.
+import type { ImportResult, NewMovie } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { deleteRecord, findBy, findOneBy, putRecord } from "./indexes.tsx";
+import { updateRatingTotals } from "./ratings.tsx";
+import { withRuntime } from "./runtime.tsx";
+import { nextId } from "./sequence.tsx";
+import { slugify } from "./slug.tsx";
+
+export type MovieList = "movie" | "towatch";
+
+// Slugs are unique across the library and the watchlist because both are
+// served from /movie/:slug. Records without a stored slug only claim their
+// title's slug if they are older, so a backfill hands it to the original.
+const slugTaken = async (slug: string, list: MovieList, id: number): Promise<boolean> => {
+  const [movies, toWatch] = await Promise.all([
+    findBy("movie", "slug", slug),
+    findBy("towatch", "slug", slug),
+  ]);
+  const claims = (m: any) => m.slug === slug || (!m.slug && m.id < id);
+  return [
+    ...movies.filter((m) => !(list === "movie" && m.id === id) && claims(m)),
+    ...toWatch.filter((m) => !(list === "towatch" && m.id === id) && claims(m)),
+  ].length > 0;
+};
+
+// Pick a free slug for a movie: the title, then title + year, then title + year + id
+const uniqueSlug = async (movie: any, list: MovieList): Promise<string> => {
+  const base = slugify(movie.title) || "movie";
+  const candidates = [base];
+  if (movie.year) candidates.push(`${base}-${movie.year}`);
+  candidates.push(`${candidates[candidates.length - 1]}-${movie.id}`);
+
+  for (const candidate of candidates) {
+    if (!(await slugTaken(candidate, list, movie.id))) return candidate;
+  }
+  return candidates[candidates.length - 1];
+};
+
+// Give a movie its persisted slug. A record that already has one keeps it
+// unless its title or year changed, in which case the old slug is remembered
+// so links to it keep working.
+export const withSlug = async (movie: any, list: MovieList, previous?: any) => {
+  const unchanged = previous?.slug &&
+    previous.title === movie.title &&
+    previous.year === movie.year;
+
+  if (unchanged) {
+    return { ...movie, slug: previous.slug, previousSlugs: previous.previousSlugs };
+  }
+
+  const slug = await uniqueSlug(movie, list);
+  const previousSlugs = [...(previous?.previousSlugs || [])];
+  if (previous?.slug && previous.slug !== slug && !previousSlugs.includes(previous.slug)) {
+    previousSlugs.push(previous.slug);
+  }
+
+  return { ...movie, slug, ...(previousSlugs.length > 0 ? { previousSlugs } : {}) };
+};
+
+// Find a movie by its current slug, falling back to slugs it used to have.
+// `redirected` is true when the caller should switch to the canonical slug.
+export const findMovieBySlug = async (slug: string) => {
+  for (const list of ["movie", "towatch"] as const) {
+    const movie = await findOneBy(list, "slug", slug);
+    if (movie) return { movie, list, redirected: !!movie.slug && movie.slug !== slug };
+  }
+
+  for (const list of ["movie", "towatch"] as const) {
+    const movie = await findOneBy(list, "previousSlug", slug);
+    if (movie) return { movie, list, redirected: true };
+  }
+
+  return null;
+};
+
+// Ids come from one sequence shared by both lists, because ratings and
+// comments are keyed by movie id alone
+const highestMovieId = async (): Promise<number> => {
+  const [movies, toWatch] = await Promise.all([
+    kv.getByPrefix("movie:"),
+    kv.getByPrefix("towatch:"),
+  ]);
+  return [...movies, ...toWatch].reduce((max, movie) => Math.max(max, Number(movie.id) || 0), 0);
+};
+
+// Either the stored record, or why it was rejected and the record in the way
+export interface CreateMovieResult {
+  movie?: any;
+  conflict?: string;
+  existing?: any;
+}
+
+// Add a movie to a list with a server-allocated id and the current time as
+// dateAdded. A second copy of an IMDb title in the same list is rejected.
+// Watchlist entries need an owner, and each owner's watchlist counts as its
+// own list.
+export const createMovie = async (fields: NewMovie, list: MovieList, ownerId?: string): Promise<CreateMovieResult> => {
+  const sameList = (movie: any) => list === "movie" || movie.ownerId === ownerId;
+
+  if (fields.imdbId) {
+    const [existing] = (await findBy(list, "imdbId", fields.imdbId)).filter(sameList);
+    if (existing) {
+      return { conflict: `"${existing.title}" (${fields.imdbId}) is already in this list`, existing };
+    }
+  }
+
+  const id = await nextId("movie", highestMovieId);
+  const owner = list === "towatch" ? { ownerId } : {};
+  const movie = await withSlug(
+    withRuntime({ ...fields, ...owner, id, dateAdded: Date.now() }),
+    list,
+  );
+  await putRecord(`${list}:${id}`, movie);
+
+  // Two requests for the same title can both pass the check above. Both are
+  // written by now, so each sees the other here and the newer one backs out.
+  if (movie.imdbId) {
+    const copies = (await findBy(list, "imdbId", movie.imdbId)).filter(sameList);
+    const original = copies.reduce((oldest, copy) => (copy.id < oldest.id ? copy : oldest), movie);
+    if (original.id !== id) {
+      await deleteRecord(`${list}:${id}`);
+      return { conflict: `"${original.title}" (${movie.imdbId}) is already in this list`, existing: original };
+    }
+  }
+
+  return { movie };
+};
+
+// Comments, ratings and videos are keyed by movie id, so a title that gets a
+// new id takes them along. Each record is written under the new id before the
+// old one is removed, so running this again finishes an interrupted move.
+const moveAttachedRecords = async (from: number, to: number) => {
+  const [comments, ratings, videos] = await Promise.all([
+    kv.getByPrefix(`comment:${from}:`),
+    kv.getByPrefix(`rating:${from}:`),
+    kv.getByPrefix(`video:${from}:`),
+  ]);
+  for (const comment of comments) {
+    await putRecord(`comment:${to}:${comment.id}`, { ...comment, movieId: to });
+    await deleteRecord(`comment:${from}:${comment.id}`);
+  }
+  for (const rating of ratings) {
+    await putRecord(`rating:${to}:${rating.userIdentifier}`, { ...rating, movieId: to });
+    await deleteRecord(`rating:${from}:${rating.userIdentifier}`);
+  }
+  if (ratings.length > 0) await Promise.all([updateRatingTotals(from), updateRatingTotals(to)]);
+  for (const video of videos) {
+    await kv.set(`video:${to}:${video.id}`, { ...video, movieId: to });
+    await kv.del(`video:${from}:${video.id}`);
+  }
+};
+
+// Move a title from the watchlist into the library. It keeps its id, so its
+// comments, ratings and tags stay attached. The library copy (with its index
+// entries) is written in one upsert before the watchlist copy is removed, so a
+// failure in between leaves the title in both lists, never in neither, and
+// calling this again finishes the move.
+export const markAsWatched = async (id: number): Promise<CreateMovieResult | null> => {
+  // Separate reads: mget leaves out missing keys and returns rows in any order
+  const [toWatch, watched] = await Promise.all([kv.get(`towatch:${id}`), kv.get(`movie:${id}`)]);
+
+  if (!toWatch) {
+    // Already moved by an earlier (or concurrent) request
+    return watched ? { movie: watched } : null;
+  }
+
+  // Before ids were shared between the lists a library title could already
+  // hold this id. The moved title then gets a fresh one, noted on the entry
+  // first so that a retry moves it to the same id.
+  let newId: number = toWatch.movingToId ?? id;
+  const copy = newId === id ? watched : await kv.get(`movie:${newId}`);
+
+  // An earlier attempt got as far as writing the library copy
+  const resumed = copy?.watchedAt && copy.title === toWatch.title ? copy : null;
+
+  if (!resumed && toWatch.imdbId) {
+    const existing = await findOneBy("movie", "imdbId", toWatch.imdbId);
+    if (existing) {
+      return { conflict: `"${existing.title}" (${toWatch.imdbId}) is already in the library`, existing };
+    }
+  }
+
+  let movie = resumed;
+  if (!movie) {
+    if (copy) {
+      newId = await nextId("movie", highestMovieId);
+      await putRecord(`towatch:${id}`, { ...toWatch, movingToId: newId });
+    }
+    const { ownerId: _ownerId, movingToId: _movingToId, ...fields } = toWatch;
+    movie = { ...fields, id: newId, watchedAt: Date.now() };
+    await putRecord(`movie:${newId}`, movie);
+  }
+  // Records under a colliding id were shared by both titles; they go with the one that moves
+  if (newId !== id) await moveAttachedRecords(id, newId);
+  await deleteRecord(`towatch:${id}`);
+
+  return { movie };
+};
+
+// Add a batch of imported movies one by one, so one bad row doesn't fail the
+// rest. Duplicates (by IMDb id) are reported rather than treated as errors.
+export const importMovies = async (movies: NewMovie[], list: MovieList, ownerId?: string) => {
+  const results: ImportResult[] = [];
+
+  for (const [index, movie] of movies.entries()) {
+    try {
+      const { movie: created, conflict } = await createMovie(movie, list, ownerId);
+      results.push(conflict
+        ? { index, status: "duplicate", error: conflict }
+        : { index, status: "created", movie: created });
+    } catch (error) {
+      results.push({ index, status: "failed", error: String(error) });
+    }
+  }
+
+  const count = (status: ImportResult["status"]) => results.filter((r) => r.status === status).length;
+  return {
+    results,
+    summary: { created: count("created"), duplicates: count("duplicate"), failed: count("failed") },
+  };
+};
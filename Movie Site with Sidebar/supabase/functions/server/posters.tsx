@@ -0,0 +1,269 @@
+// Poster storage. Instead of hot-linking the provider's poster URL, a poster
+// is downloaded once, checked to be a JPEG or PNG, resized into several widths
+// (JPEG and WebP each) and stored with a blurhash placeholder. The movie keeps
+// the original URL in poster.source and the largest stored JPEG in `image`, so
+// clients that don't know about variants keep working.
+//
+// Where files go is chosen with POSTER_STORAGE:
+//   local    - write into POSTER_STORAGE_DIR (default ./posters) and serve them
+//              from GET /posters/* (default, for development)
+//   supabase - upload to the public Supabase Storage bucket POSTER_BUCKET
+//              (default "posters")
+// Files are named after a hash of the source image, so the same poster is
+// stored once and a file is never overwritten with different content.
+//
+// POSTER_WIDTHS (default "185,342,500,780") lists the widths to generate;
+// images are never scaled up. Downloads larger than POSTER_MAX_BYTES (default
+// 10 MB) or slower than POSTER_FETCH_TIMEOUT_MS (default 10s) are refused, as
+// are posters on hosts that aren't public (see public-fetch.tsx).
+import { Image } from "npm:imagescript@1.3.0";
+import { encode as encodeBlurhash } from "npm:blurhash@2.0.5";
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import { API_PREFIX, type Poster, type PosterVariant } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { putRecord } from "./indexes.tsx";
+import { fetchPublicUrl } from "./public-fetch.tsx";
+
+export interface PosterStorage {
+  name: string;
+  // Store a file and return its public URL
+  put: (path: string, bytes: Uint8Array, contentType: string) => Promise<string>;
+  // Only for storage the function serves itself
+  read?: (path: string) => Promise<Uint8Array<ArrayBuffer> | null>;
+}
+
+const WIDTHS = (Deno.env.get("POSTER_WIDTHS") || "185,342,500,780")
+  .split(",")
+  .map((width) => parseInt(width))
+  .filter((width) => width > 0)
+  .sort((a, b) => a - b);
+const MAX_BYTES = parseInt(Deno.env.get("POSTER_MAX_BYTES") || "") || 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = parseInt(Deno.env.get("POSTER_FETCH_TIMEOUT_MS") || "") || 10 * 1000;
+const MIN_WIDTH = 100;
+const JPEG_QUALITY = 82;
+const WEBP_QUALITY = 80;
+
+const CONTENT_TYPES = { jpeg: "image/jpeg", webp: "image/webp" };
+
+const diskStorage = (dir: string, publicUrl: string): PosterStorage => ({
+  name: "local",
+  put: async (path, bytes) => {
+    const file = `${dir}/${path}`;
+    await Deno.mkdir(file.slice(0, file.lastIndexOf("/")), { recursive: true });
+    await Deno.writeFile(file, bytes);
+    return `${publicUrl}/${path}`;
+  },
+  read: async (path) => {
+    // Paths are <hash>/<width>.<ext>; anything else could escape the directory
+    if (!/^[a-f0-9]+\/\d+\.(jpg|webp)$/.test(path)) return null;
+    try {
+      return await Deno.readFile(`${dir}/${path}`);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  },
+});
+
+const supabaseStorage = (bucket: string): PosterStorage => {
+  const client = createClient(
+    Deno.env.get("SUPABASE_URL"),
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+  );
+  return {
+    name: "supabase",
+    put: async (path, bytes, contentType) => {
+      const { error } = await client.storage.from(bucket).upload(path, bytes, {
+        contentType,
+        cacheControl: "31536000",
+        upsert: true,
+      });
+      if (error) throw new Error(`Could not upload ${path}: ${error.message}`);
+      return client.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+    },
+  };
+};
+
+const createStorage = (): PosterStorage => {
+  const kind = (Deno.env.get("POSTER_STORAGE") || "local").toLowerCase();
+
+  if (kind === "supabase") {
+    return supabaseStorage(Deno.env.get("POSTER_BUCKET") || "posters");
+  }
+
+  const publicUrl = Deno.env.get("POSTER_PUBLIC_URL")
+    || `${Deno.env.get("SUPABASE_URL")}/functions/v1${API_PREFIX}/posters`;
+  return diskStorage(Deno.env.get("POSTER_STORAGE_DIR") || "./posters", publicUrl);
+};
+
+let storage: PosterStorage = createStorage();
+
+// Swap the storage at runtime, e.g. to keep files in memory in a script
+export const setPosterStorage = (next: PosterStorage) => {
+  storage = next;
+};
+
+export const posterStorageName = () => storage.name;
+
+// Read a stored file, if the storage is one the function serves itself
+export const readPosterFile = (path: string): Promise<Uint8Array<ArrayBuffer> | null> =>
+  storage.read ? storage.read(path) : Promise.resolve(null);
+
+// Tell JPEG and PNG apart by their first bytes rather than trusting headers
+const sniffFormat = (bytes: Uint8Array): "jpeg" | "png" | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  return null;
+};
+
+const sha256 = async (bytes: Uint8Array<ArrayBuffer>) => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest).slice(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+// A response's body, stopping (and cancelling the rest) once it has passed
+// `limit` bytes, so the result is longer than `limit` only when the body is
+const readAtMost = async (response: Response, limit: number): Promise<Uint8Array<ArrayBuffer>> => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+// Download a poster. Returns the bytes, or an error message for the caller.
+const download = async (url: string): Promise<{ bytes?: Uint8Array<ArrayBuffer>; error?: string }> => {
+  if (!/^https?:\/\//i.test(url)) return { error: "Poster URL must start with http:// or https://" };
+
+  let response: Response;
+  try {
+    response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    return { error: `Could not download the poster: ${error instanceof Error ? error.message : error}` };
+  }
+  if (!response.ok) return { error: `Could not download the poster: the server responded with ${response.status}` };
+  if (parseInt(response.headers.get("content-length") || "0") > MAX_BYTES) {
+    return { error: "Poster is too large" };
+  }
+
+  // The header may be missing or wrong, so the body is counted as it arrives
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = await readAtMost(response, MAX_BYTES);
+  } catch (error) {
+    return { error: `Could not download the poster: ${error instanceof Error ? error.message : error}` };
+  }
+  if (bytes.length > MAX_BYTES) return { error: "Poster is too large" };
+  if (!sniffFormat(bytes)) return { error: "Poster must be a JPEG or PNG image" };
+  return { bytes };
+};
+
+// Widths to generate for an image: the configured ones it is wider than,
+// plus its own width when it is narrower than the largest
+const widthsFor = (imageWidth: number) => {
+  const largest = Math.min(imageWidth, WIDTHS[WIDTHS.length - 1]);
+  return [...new Set([...WIDTHS.filter((width) => width < largest), largest])];
+};
+
+// The record after a user's edit: a new image marks the poster as picked by hand
+export const withManualPoster = (before: any, after: any) =>
+  after.image && after.image !== before.image ? { ...after, posterOrigin: "manual" } : after;
+
+// Whether the title's image still points somewhere other than a stored poster
+export const needsStoredPoster = (movie: any) => !!movie.image && movie.image !== movie.poster?.url;
+
+// Download, check and store the poster at `source` (by default the title's
+// image, unless that is already the stored poster) and return the updated
+// record. A poster already stored from the same source is not downloaded again.
+export const storePoster = async (
+  movie: any,
+  source: string = needsStoredPoster(movie) ? movie.image : movie.poster?.source,
+): Promise<{ movie?: any; error?: string }> => {
+  if (!source) return { error: "Title has no poster" };
+  const stored = movie.poster && movie.image === movie.poster.url;
+  if (stored && (source === movie.poster.source || source === movie.poster.url)) return { movie };
+
+  const { bytes, error } = await download(source);
+  if (!bytes) return { error };
+
+  let image: Image;
+  try {
+    image = await Image.decode(bytes);
+  } catch {
+    return { error: "Poster could not be read as an image" };
+  }
+  if (image.width < MIN_WIDTH) return { error: `Poster must be at least ${MIN_WIDTH} pixels wide` };
+
+  const hash = await sha256(bytes);
+  const variants: PosterVariant[] = [];
+  for (const width of widthsFor(image.width)) {
+    const resized = image.clone().resize(width, Image.RESIZE_AUTO);
+    variants.push({
+      width,
+      format: "jpeg",
+      url: await storage.put(`${hash}/${width}.jpg`, await resized.encodeJPEG(JPEG_QUALITY), CONTENT_TYPES.jpeg),
+    });
+    variants.push({
+      width,
+      format: "webp",
+      url: await storage.put(`${hash}/${width}.webp`, await resized.encodeWEBP(WEBP_QUALITY), CONTENT_TYPES.webp),
+    });
+  }
+
+  const thumbnail = image.clone().resize(32, Image.RESIZE_AUTO);
+  const blurhash = encodeBlurhash(thumbnail.bitmap, thumbnail.width, thumbnail.height, 3, 4);
+
+  const largest = variants.filter((variant) => variant.format === "jpeg").pop()!;
+  const poster: Poster = {
+    source,
+    hash,
+    width: image.width,
+    height: image.height,
+    blurhash,
+    url: largest.url,
+    variants,
+    storedAt: Date.now(),
+  };
+  return { movie: { ...movie, image: poster.url, poster } };
+};
+
+// Store the posters of titles that were just added, after the response has
+// been sent. Until then they show the hot-linked image; posters that fail are
+// left for the store-posters job.
+export const storePostersLater = (keys: string[]) => {
+  const work = (async () => {
+    for (const key of keys) {
+      const movie = await kv.get(key);
+      if (!movie || !needsStoredPoster(movie)) continue;
+      const { movie: stored, error } = await storePoster(movie);
+      if (!stored) {
+        console.log(`⚠️ Could not store the poster of ${movie.title}: ${error}`);
+        continue;
+      }
+
+      // The title may have been edited during the download, so only the
+      // poster goes into the record as it is now. If it was deleted or given
+      // another image meanwhile, this poster is no longer wanted.
+      const current = await kv.get(key);
+      if (!current || current.image !== movie.image) continue;
+      await putRecord(key, { ...current, image: stored.image, poster: stored.poster });
+    }
+  })().catch((error) => console.error("Error storing posters:", error));
+  (globalThis as any).EdgeRuntime?.waitUntil(work);
+};
@@ -0,0 +1,92 @@
+// Fetching URLs that users gave us, like poster images. The function can reach
+// hosts the public can't (the cloud metadata service, the database, other
+// functions), so such a URL is only fetched when its host resolves to public
+// addresses alone. Redirects are followed here rather than by fetch(), so the
+// target of every hop is checked the same way.
+//
+// The host is resolved for the check and again by fetch(), so a DNS answer
+// that changes in between isn't caught. Every URL naming an internal host or
+// address outright is.
+
+const MAX_REDIRECTS = 5;
+
+const ipv4IsPublic = (address: string): boolean => {
+  const [a, b, c] = address.split(".").map(Number);
+  return !(
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b < 128) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including the metadata service
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+};
+
+const ipv6IsPublic = (address: string): boolean => {
+  const lower = address.toLowerCase();
+  if (lower === "::" || lower === "::1") return false;
+
+  // IPv4-mapped addresses, written either way
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return ipv4IsPublic(dotted[1]);
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return ipv4IsPublic(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  const first = lower.startsWith("::") ? 0 : parseInt(lower.split(":")[0], 16);
+  return !(
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+};
+
+const addressesOf = async (hostname: string): Promise<{ ipv4: string[]; ipv6: string[] }> => {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) return { ipv4: [hostname], ipv6: [] };
+  if (hostname.startsWith("[")) return { ipv4: [], ipv6: [hostname.slice(1, -1)] };
+
+  const [ipv4, ipv6] = await Promise.all(
+    (["A", "AAAA"] as const).map((type) => Deno.resolveDns(hostname, type).catch(() => [] as string[])),
+  );
+  return { ipv4, ipv6 };
+};
+
+// Why the server won't fetch `url`, or null when it will
+export const publicUrlProblem = async (url: string | URL): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return "URL must start with http:// or https://";
+
+  const { ipv4, ipv6 } = await addressesOf(parsed.hostname);
+  if (ipv4.length + ipv6.length === 0) return `${parsed.hostname} could not be resolved`;
+  if (!ipv4.every(ipv4IsPublic) || !ipv6.every(ipv6IsPublic)) return `${parsed.hostname} is not a public address`;
+  return null;
+};
+
+// fetch() for a URL a user gave us. Throws when it, or a redirect it leads
+// to, isn't a public address.
+export const fetchPublicUrl = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    const problem = await publicUrlProblem(target);
+    if (problem) throw new Error(problem);
+
+    const response = await fetch(target, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    target = new URL(location, target);
+  }
+};
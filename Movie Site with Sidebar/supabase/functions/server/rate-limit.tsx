@@ -0,0 +1,47 @@
+// Rate limits shared by every running instance of the function. Instances
+// don't share memory, so a limit kept in a variable would only hold per
+// instance. Instead each call claims a time slot, 1/rate seconds long, by
+// inserting ratelimit:<name>:<slot>; the primary key lets only one caller win
+// a slot. Slots of the last `burst` intervals that nobody used are taken right
+// away, so short bursts get through as they would with a token bucket, and
+// otherwise the caller waits until its slot starts.
+//
+// ratelimit:<name> remembers the last slot handed out, so callers don't probe
+// the whole window. Claims that can no longer be handed out are swept once a
+// minute.
+import * as kv from "./kv_store.tsx";
+import { claimKey } from "./sequence.tsx";
+
+const MAX_ATTEMPTS = 50;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Remove claims for slots before `before`
+const sweep = async (prefix: string, before: number) => {
+  const claims = await kv.getByPrefix(`${prefix}:`);
+  const stale = claims.filter((claim) => claim.slot < before).map((claim) => claim.key);
+  if (stale.length > 0) await kv.mdel(stale);
+};
+
+// Wait until a call fits in the limit. Returns how long the caller waited, in ms.
+export const throttle = async (name: string, ratePerSecond: number, burst: number): Promise<number> => {
+  const slotMs = 1000 / ratePerSecond;
+  const lastKey = `ratelimit:${name}`;
+  const current = Math.floor(Date.now() / slotMs);
+  const last: number | null = await kv.get(lastKey);
+  const firstFree = Math.max(current - burst + 1, (last ?? 0) + 1);
+
+  for (let slot = firstFree; slot < firstFree + MAX_ATTEMPTS; slot++) {
+    const key = `${lastKey}:${slot}`;
+    if (!(await claimKey(key, { key, slot }))) continue;
+    await kv.set(lastKey, slot);
+
+    const minute = (s: number) => Math.floor((s * slotMs) / SWEEP_INTERVAL_MS);
+    if (last === null || minute(last) < minute(slot)) await sweep(lastKey, current - burst);
+
+    const wait = Math.max(0, slot * slotMs - Date.now());
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    return wait;
+  }
+
+  throw new Error(`Could not get a ${name} rate limit slot after ${MAX_ATTEMPTS} attempts`);
+};
@@ -0,0 +1,81 @@
+// Ratings. Each is stored under rating:<movieId>:<userIdentifier> and filed
+// under its user, so a user's own ratings are an index lookup. Movie lists
+// show every title's average, so each rated title also has ratings:<movieId>,
+// its count and sum, rewritten from the title's ratings whenever one of them
+// is saved. Lists read those totals instead of every rating on the site.
+//
+// Totals are rewritten from the ratings rather than adjusted, so two ratings
+// saved at once can't both be lost from them; at worst one save writes totals
+// that miss the other's rating until the title is rated again. The admin
+// index rebuild recomputes every title's totals.
+import * as kv from "./kv_store.tsx";
+import { findBy, putRecord } from "./indexes.tsx";
+import type { RatingSummary } from "./movie-query.tsx";
+
+interface RatingTotals {
+  movieId: number;
+  count: number;
+  sum: number;
+}
+
+const totalsKey = (movieId: number | string) => `ratings:${movieId}`;
+
+const totalsOf = (movieId: number, ratings: any[]): RatingTotals => ({
+  movieId,
+  count: ratings.length,
+  sum: ratings.reduce((sum, rating) => sum + rating.rating, 0),
+});
+
+const average = ({ sum, count }: RatingTotals) => Math.round((sum / count) * 10) / 10;
+
+// Rewrite a title's totals from its ratings
+export const updateRatingTotals = async (movieId: number) => {
+  const ratings = await kv.getByPrefix(`rating:${movieId}:`);
+  if (ratings.length > 0) {
+    await kv.set(totalsKey(movieId), totalsOf(movieId, ratings));
+  } else {
+    await kv.del(totalsKey(movieId));
+  }
+};
+
+export const saveRating = async (rating: { movieId: number; rating: number; userIdentifier: string; timestamp: number }) => {
+  await putRecord(`rating:${rating.movieId}:${rating.userIdentifier}`, rating);
+  await updateRatingTotals(rating.movieId);
+};
+
+// Every rated title's average
+export const ratingAverages = async (): Promise<RatingSummary["averages"]> => {
+  const totals: RatingTotals[] = await kv.getByPrefix("ratings:");
+  return Object.fromEntries(
+    totals.filter((entry) => entry.count > 0).map((entry) => [entry.movieId, { average: average(entry), count: entry.count }]),
+  );
+};
+
+// Every title's average plus one user's own ratings
+export const ratingSummary = async (userIdentifier?: string): Promise<RatingSummary> => {
+  const [averages, own] = await Promise.all([
+    ratingAverages(),
+    userIdentifier ? findBy("rating", "user", userIdentifier) : [],
+  ]);
+  return { averages, userRatings: Object.fromEntries(own.map((rating) => [rating.movieId, rating.rating])) };
+};
+
+// Recompute every title's totals from all ratings, dropping totals of titles
+// that have none left. Returns how many titles have ratings.
+export const rebuildRatingTotals = async (): Promise<number> => {
+  const [ratings, existing] = await Promise.all([kv.getByPrefix("rating:"), kv.getByPrefix("ratings:")]);
+  const byMovie = new Map<number, any[]>();
+  for (const rating of ratings) {
+    byMovie.set(rating.movieId, [...(byMovie.get(rating.movieId) || []), rating]);
+  }
+
+  const totals = [...byMovie].map(([movieId, movieRatings]) => totalsOf(movieId, movieRatings));
+  for (let i = 0; i < totals.length; i += 500) {
+    const batch = totals.slice(i, i + 500);
+    await kv.mset(batch.map((entry) => totalsKey(entry.movieId)), batch);
+  }
+
+  const stale = existing.filter((entry) => !byMovie.has(entry.movieId)).map((entry) => totalsKey(entry.movieId));
+  if (stale.length > 0) await kv.mdel(stale);
+  return totals.length;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { filmKind, formatRuntime, needsRuntimeMigration, parseRuntime, runtimeOf, withRuntime } from "./runtime.tsx";
+
+describe("parseRuntime", () => {
+  it("reads the film formats that were stored", () => {
+    expect(parseRuntime("142 min")).toEqual({ kind: "movie", runtimeMinutes: 142 });
+    expect(parseRuntime("2h 22m")).toEqual({ kind: "movie", runtimeMinutes: 142 });
+    expect(parseRuntime("2h")).toEqual({ kind: "movie", runtimeMinutes: 120 });
+    expect(parseRuntime("95")).toEqual({ kind: "movie", runtimeMinutes: 95 });
+  });
+
+  it("counts short films as shorts", () => {
+    expect(parseRuntime("12 min")).toEqual({ kind: "short", runtimeMinutes: 12 });
+    expect(filmKind(40)).toBe("short");
+    expect(filmKind(41)).toBe("movie");
+  });
+
+  it("reads seasons and episodes as a series", () => {
+    expect(parseRuntime("3 Seasons")).toEqual({ kind: "series", seasonCount: 3, episodeCount: undefined });
+    expect(parseRuntime("1 season, 8 episodes")).toEqual({ kind: "series", seasonCount: 1, episodeCount: 8 });
+  });
+
+  it("returns nothing for text it can't read", () => {
+    expect(parseRuntime("N/A")).toEqual({});
+    expect(parseRuntime(undefined)).toEqual({});
+  });
+});
+
+describe("formatRuntime", () => {
+  it("labels films by minutes and series by seasons and episodes", () => {
+    expect(formatRuntime({ kind: "movie", runtimeMinutes: 142 })).toBe("142 min");
+    expect(formatRuntime({ kind: "series", seasonCount: 1, episodeCount: 24 })).toBe("1 Season · 24 episodes");
+    expect(formatRuntime({ kind: "miniseries", episodeCount: 1 })).toBe("1 episode");
+    expect(formatRuntime({ kind: "series" })).toBeUndefined();
+  });
+});
+
+describe("runtimeOf", () => {
+  it("uses structured fields when the title has them, and its label otherwise", () => {
+    expect(runtimeOf({ kind: "movie", runtimeMinutes: 100, runtime: "1 min" })).toEqual({ kind: "movie", runtimeMinutes: 100 });
+    expect(runtimeOf({ runtime: "2 Seasons" })).toEqual({ kind: "series", seasonCount: 2, episodeCount: undefined });
+  });
+});
+
+describe("withRuntime", () => {
+  it("migrates a title that only has a label", () => {
+    const movie = { id: 1, runtime: "2h 22m" };
+    expect(needsRuntimeMigration(movie)).toBe(true);
+    expect(withRuntime(movie)).toEqual({ id: 1, kind: "movie", runtimeMinutes: 142, runtime: "142 min" });
+  });
+
+  it("lets structured fields in an edit win over the stored ones", () => {
+    const movie = { id: 1, kind: "movie", runtimeMinutes: 100, runtime: "100 min" };
+    expect(withRuntime(movie, { runtimeMinutes: 30 })).toEqual({ id: 1, kind: "movie", runtimeMinutes: 30, runtime: "30 min" });
+  });
+
+  it("parses an edit that only sends a label, keeping labels it can't read", () => {
+    const movie = { id: 1, kind: "movie", runtimeMinutes: 100, runtime: "100 min" };
+    expect(withRuntime(movie, { runtime: "3 seasons" })).toEqual({ id: 1, kind: "series", seasonCount: 3, runtime: "3 Seasons" });
+    expect(withRuntime({ id: 1 }, { runtime: " Varies " })).toEqual({ id: 1, runtime: "Varies" });
+  });
+});
@@ -0,0 +1,108 @@
+// Structured runtime. A title records what kind of title it is and its length
+// as numbers: runtimeMinutes (per episode for series), seasonCount and
+// episodeCount. `runtime` is kept as a display label derived from them, like
+// "142 min" or "3 Seasons · 24 episodes".
+//
+// Older records only have the label. parseRuntime reads the formats that were
+// stored ("142 min", "2h 22m", "3 Seasons") and the "migrate-runtimes" job
+// writes the result back.
+
+import { TITLE_KINDS, type TitleKind } from "../_shared/api.ts";
+
+export interface RuntimeFields {
+  kind?: TitleKind;
+  runtimeMinutes?: number;
+  seasonCount?: number;
+  episodeCount?: number;
+}
+
+const FIELDS = ["kind", "runtimeMinutes", "seasonCount", "episodeCount"] as const;
+
+// Films up to this long count as shorts (the Academy's definition)
+export const SHORT_MAX_MINUTES = 40;
+
+export const isSeries = (kind?: TitleKind) => kind === "series" || kind === "miniseries";
+
+const positive = (value: any): number | undefined => {
+  const number = typeof value === "number" ? value : parseInt(value);
+  return Number.isFinite(number) && number > 0 ? Math.round(number) : undefined;
+};
+
+// Kind of a film from its length, when nothing better is known
+export const filmKind = (minutes?: number): TitleKind =>
+  minutes && minutes <= SHORT_MAX_MINUTES ? "short" : "movie";
+
+// Read a runtime label into structured fields. Returns {} for text it can't read.
+export const parseRuntime = (runtime?: string): RuntimeFields => {
+  const text = String(runtime || "").trim().toLowerCase();
+  if (!text) return {};
+
+  const seasons = text.match(/(\d+)\s*seasons?/);
+  const episodes = text.match(/(\d+)\s*(?:episodes?|eps?\b)/);
+  if (seasons || episodes) {
+    return {
+      kind: "series",
+      seasonCount: positive(seasons?.[1]),
+      episodeCount: positive(episodes?.[1]),
+    };
+  }
+
+  const hours = text.match(/(\d+)\s*h/);
+  const minutes = text.match(/(\d+)\s*m/) ?? (!hours ? text.match(/(\d+)/) : null);
+  const total = (positive(hours?.[1]) ?? 0) * 60 + (positive(minutes?.[1]) ?? 0);
+  return total > 0 ? { kind: filmKind(total), runtimeMinutes: total } : {};
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+// The display label for structured fields, or undefined if there's nothing to show
+export const formatRuntime = (fields: RuntimeFields): string | undefined => {
+  if (isSeries(fields.kind)) {
+    const parts = [
+      fields.seasonCount ? plural(fields.seasonCount, "Season") : null,
+      fields.episodeCount ? plural(fields.episodeCount, "episode") : null,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" · ") : undefined;
+  }
+  return fields.runtimeMinutes ? `${fields.runtimeMinutes} min` : undefined;
+};
+
+// The valid structured fields of a record. A missing kind is inferred from
+// which numbers are there.
+const pickFields = (source: any): RuntimeFields => {
+  const fields: RuntimeFields = {};
+  for (const field of ["runtimeMinutes", "seasonCount", "episodeCount"] as const) {
+    const value = positive(source[field]);
+    if (value) fields[field] = value;
+  }
+  if (TITLE_KINDS.includes(source.kind)) fields.kind = source.kind;
+  else if (fields.seasonCount || fields.episodeCount) fields.kind = "series";
+  else if (fields.runtimeMinutes) fields.kind = filmKind(fields.runtimeMinutes);
+  return fields;
+};
+
+const hasFields = (source: any) => FIELDS.some((field) => source[field] !== undefined);
+
+// The structured fields of a title, parsed from its label if the migration
+// hasn't reached it yet
+export const runtimeOf = (movie: any): RuntimeFields =>
+  movie.kind ? pickFields(movie) : parseRuntime(movie.runtime);
+
+// Apply an edit to a title's runtime. Structured fields win; an edit that only
+// sends a `runtime` label (older clients, imports) is parsed instead.
+export const withRuntime = (movie: any, updates: any = {}) => {
+  const labelOnly = typeof updates.runtime === "string" && !hasFields(updates);
+  const fields = labelOnly
+    ? parseRuntime(updates.runtime)
+    : hasFields(updates)
+    ? pickFields({ ...pickFields(movie), ...updates })
+    : runtimeOf(movie);
+  const runtime = formatRuntime(fields) ?? (labelOnly ? updates.runtime.trim() || undefined : movie.runtime);
+
+  const record = { ...movie, ...updates };
+  for (const field of [...FIELDS, "runtime"]) delete record[field];
+  return { ...record, ...fields, ...(runtime ? { runtime } : {}) };
+};
+
+// Whether a title still only has a runtime label
+export const needsRuntimeMigration = (movie: any) => !!movie.runtime && !movie.kind;
@@ -0,0 +1,50 @@
+// Atomic id allocation. kv_store only offers upserts, so two requests reading
+// the same "last id" would both write it. Instead every id is claimed by
+// inserting a row straight into the KV table: the primary key makes the second
+// insert of the same key fail, so an id can only ever be handed out once.
+import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import * as kv from "./kv_store.tsx";
+
+const TABLE = "kv_store_ea58c774";
+const UNIQUE_VIOLATION = "23505";
+const MAX_ATTEMPTS = 50;
+
+const client = () => createClient(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+// Insert a key only if it doesn't exist yet. Returns false if it was already taken.
+export const claimKey = async (key: string, value: any): Promise<boolean> => {
+  const { error } = await client().from(TABLE).insert({ key, value });
+  if (!error) return true;
+  if (error.code === UNIQUE_VIOLATION) return false;
+  throw new Error(error.message);
+};
+
+// Allocate the next id of a sequence. seq:<name> only remembers roughly where
+// the sequence is so we don't probe from the start; the claim under
+// seq:<name>:<id> is what makes the id ours. `seed` gives the highest id in
+// use when the sequence is first used.
+export const nextId = async (name: string, seed: () => Promise<number>): Promise<number> => {
+  const counterKey = `seq:${name}`;
+  let candidate = ((await kv.get(counterKey)) ?? await seed()) + 1;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (await claimKey(`${counterKey}:${candidate}`, { claimedAt: Date.now() })) {
+      await kv.set(counterKey, candidate);
+      return candidate;
+    }
+    candidate++;
+  }
+
+  throw new Error(`Could not allocate an id for ${name} after ${MAX_ATTEMPTS} attempts`);
+};
+
+// Make sure the sequence continues after `id`, e.g. once records with
+// existing ids have been restored from a backup
+export const advanceSequence = async (name: string, id: number): Promise<void> => {
+  const counterKey = `seq:${name}`;
+  const current = (await kv.get(counterKey)) ?? 0;
+  if (id > current) await kv.set(counterKey, id);
+};
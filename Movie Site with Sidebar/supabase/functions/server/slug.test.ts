@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { createSlug } from "../../../src/app/utils/slugify.ts";
+import { slugify } from "./slug.tsx";
+
+describe("slugify", () => {
+  it("lowercases, drops punctuation and joins words with single hyphens", () => {
+    expect(slugify("Spider-Man: Across the  Spider-Verse")).toBe("spider-man-across-the-spider-verse");
+    expect(slugify("Ocean's Eleven")).toBe("oceans-eleven");
+  });
+
+  it("turns a missing title into an empty slug", () => {
+    expect(slugify(undefined as unknown as string)).toBe("");
+  });
+
+  it("matches the slugs the client builds", () => {
+    for (const title of ["Heat", "Amélie", "Se7en", "M*A*S*H", "The Good, the Bad and the Ugly"]) {
+      expect(slugify(title)).toBe(createSlug(title));
+    }
+  });
+});
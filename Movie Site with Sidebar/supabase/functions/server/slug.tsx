@@ -0,0 +1,9 @@
+// Server-side copy of the client's createSlug (src/app/utils/slugify.ts) so
+// slugs computed here match the URLs the app builds.
+export const slugify = (title: string): string =>
+  String(title || "")
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "") // Remove special characters
+    .replace(/\s+/g, "-") // Replace spaces with hyphens
+    .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
+    .trim();
@@ -0,0 +1,266 @@
+// Trailer resolution. A trailer is stored on the movie as structured data
+// (where the video is hosted, its id, language and kind) together with how it
+// was found and how confident that match is, instead of a raw URL.
+//
+// Resolvers are tried in the order given by TRAILER_RESOLVERS (default
+// "tmdb,youtube,imdb"; resolvers without their API key are left out):
+//   tmdb    - the title's videos on TMDb, using TMDB_API_KEY
+//   youtube - a YouTube Data API search, using YOUTUBE_API_KEY
+//   imdb    - the first YouTube link on the IMDb title page
+// Curators can also set a trailer by hand (the "manual" resolver).
+//
+// Matches below TRAILER_REVIEW_THRESHOLD (default 0.75) are stored as
+// "pending" and wait in the curator review queue; they are only shown to
+// curators until approved. Rejected videos are remembered on the movie so
+// they aren't picked again.
+import type { Trailer, VideoKind } from "../_shared/api.ts";
+import { hasRole } from "./auth.tsx";
+
+export type TrailerCandidate = Omit<Trailer, "status" | "resolvedAt">;
+
+export interface TrailerResolver {
+  name: Trailer["resolver"];
+  resolve: (movie: any) => Promise<TrailerCandidate | null>;
+}
+
+const REVIEW_THRESHOLD = parseFloat(Deno.env.get("TRAILER_REVIEW_THRESHOLD") || "") || 0.75;
+const LANGUAGE = Deno.env.get("TRAILER_LANGUAGE") || "en";
+
+// Collapse a title for loose comparison: "The Matrix: Reloaded" -> "thematrixreloaded"
+const squash = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isRejected = (movie: any, videoId: string) => (movie.rejectedTrailerIds || []).includes(videoId);
+
+const imdbResolver = (): TrailerResolver => ({
+  name: "imdb",
+  resolve: async (movie) => {
+    if (!movie.imdbId) return null;
+    try {
+      const response = await fetch(`https://www.imdb.com/title/${movie.imdbId}/`, {
+        headers: {
+          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+        },
+      });
+      if (!response.ok) return null;
+
+      // The page can link to any video, so this is never more than a guess
+      const html = await response.text();
+      const videoId = html.match(/youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/)?.[1]
+        || html.match(/youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/)?.[1];
+      if (!videoId || isRejected(movie, videoId)) return null;
+      return { provider: "youtube", videoId, kind: "trailer", resolver: "imdb", confidence: 0.5 };
+    } catch (error) {
+      console.log(`  ⚠️ Error checking IMDb for a trailer:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+});
+
+const youtubeResolver = (apiKey: string): TrailerResolver => ({
+  name: "youtube",
+  resolve: async (movie) => {
+    const query = new URLSearchParams({
+      part: "snippet",
+      type: "video",
+      maxResults: "5",
+      relevanceLanguage: LANGUAGE,
+      q: `${movie.title} ${movie.year || ""} official trailer`,
+      key: apiKey,
+    });
+    const res = await fetch(`https://www.googleapis.com/youtube/v3/search?${query}`);
+    if (!res.ok) throw new Error(`YouTube responded with ${res.status}`);
+    const data = await res.json();
+
+    // Score each result on how well its title matches the movie
+    const scored = (data.items || [])
+      .filter((item: any) => item.id?.videoId && !isRejected(movie, item.id.videoId))
+      .map((item: any) => {
+        const videoTitle: string = item.snippet?.title || "";
+        const lower = videoTitle.toLowerCase();
+        let confidence = 0.3;
+        if (squash(videoTitle).includes(squash(movie.title))) confidence += 0.3;
+        if (lower.includes("official trailer")) confidence += 0.2;
+        else if (lower.includes("trailer")) confidence += 0.1;
+        if (movie.year && videoTitle.includes(String(movie.year))) confidence += 0.1;
+        if (/reaction|review|explained|fan.?made|parody/.test(lower)) confidence -= 0.3;
+        const candidate: TrailerCandidate = {
+          provider: "youtube",
+          videoId: item.id.videoId,
+          kind: lower.includes("teaser") ? "teaser" : "trailer",
+          title: videoTitle,
+          resolver: "youtube",
+          confidence: Math.max(0, Math.min(0.9, confidence)),
+        };
+        return candidate;
+      })
+      .sort((a: TrailerCandidate, b: TrailerCandidate) => b.confidence - a.confidence);
+
+    return scored[0] ?? null;
+  },
+});
+
+const TMDB_KINDS: Record<string, VideoKind> = {
+  Trailer: "trailer",
+  Teaser: "teaser",
+  Clip: "clip",
+  Featurette: "featurette",
+};
+
+const tmdbResolver = (apiKey: string): TrailerResolver => {
+  const get = async (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams({ ...params, api_key: apiKey });
+    const res = await fetch(`https://api.themoviedb.org/3${path}?${query}`);
+    if (!res.ok) throw new Error(`TMDb responded with ${res.status}`);
+    return res.json();
+  };
+
+  return {
+    name: "tmdb",
+    resolve: async (movie) => {
+      if (!movie.imdbId) return null;
+      const found = await get(`/find/${movie.imdbId}`, { external_source: "imdb_id" });
+      const kind = found.movie_results?.[0] ? "movie" : found.tv_results?.[0] ? "tv" : null;
+      if (!kind) return null;
+
+      const tmdbId = (found.movie_results?.[0] || found.tv_results?.[0]).id;
+      const videos = await get(`/${kind}/${tmdbId}/videos`, { include_video_language: `${LANGUAGE},null` });
+
+      const scored = (videos.results || [])
+        .filter((video: any) => (video.site === "YouTube" || video.site === "Vimeo") && TMDB_KINDS[video.type])
+        .filter((video: any) => !isRejected(movie, video.key))
+        .map((video: any) => {
+          const kind = TMDB_KINDS[video.type];
+          let confidence = kind === "trailer" ? 0.8 : kind === "teaser" ? 0.65 : 0.4;
+          if (video.official) confidence += 0.15;
+          if (video.iso_639_1 && video.iso_639_1 !== LANGUAGE) confidence -= 0.2;
+          const candidate: TrailerCandidate = {
+            provider: video.site === "Vimeo" ? "vimeo" : "youtube",
+            videoId: video.key,
+            language: video.iso_639_1 || undefined,
+            kind,
+            title: video.name,
+            resolver: "tmdb",
+            confidence: Math.max(0, Math.min(1, confidence)),
+          };
+          return candidate;
+        })
+        .sort((a: TrailerCandidate, b: TrailerCandidate) => b.confidence - a.confidence);
+
+      return scored[0] ?? null;
+    },
+  };
+};
+
+const createResolvers = (): TrailerResolver[] => {
+  const available: Record<string, () => TrailerResolver | null> = {
+    tmdb: () => {
+      const apiKey = Deno.env.get("TMDB_API_KEY");
+      return apiKey ? tmdbResolver(apiKey) : null;
+    },
+    youtube: () => {
+      const apiKey = Deno.env.get("YOUTUBE_API_KEY");
+      return apiKey ? youtubeResolver(apiKey) : null;
+    },
+    imdb: imdbResolver,
+  };
+
+  return (Deno.env.get("TRAILER_RESOLVERS") || "tmdb,youtube,imdb")
+    .split(",")
+    .map((name) => available[name.trim().toLowerCase()]?.() ?? null)
+    .filter((resolver): resolver is TrailerResolver => resolver !== null);
+};
+
+let resolvers: TrailerResolver[] = createResolvers();
+
+// Replace the resolver chain, e.g. with fakes in a script
+export const setTrailerResolvers = (next: TrailerResolver[]) => {
+  resolvers = next;
+};
+
+const toTrailer = (candidate: TrailerCandidate): Trailer => ({
+  ...candidate,
+  status: candidate.confidence >= REVIEW_THRESHOLD ? "approved" : "pending",
+  resolvedAt: Date.now(),
+});
+
+// Ask each resolver in turn. The first confident match wins; otherwise the
+// best guess goes to review. Resolver errors are logged and skipped.
+export const resolveTrailer = async (movie: any): Promise<Trailer | null> => {
+  let best: TrailerCandidate | null = null;
+
+  for (const resolver of resolvers) {
+    try {
+      const candidate = await resolver.resolve(movie);
+      if (!candidate) continue;
+      if (candidate.confidence >= REVIEW_THRESHOLD) return toTrailer(candidate);
+      if (!best || candidate.confidence > best.confidence) best = candidate;
+    } catch (error) {
+      console.error(`⚠️ Trailer resolver ${resolver.name} failed for ${movie.title}:`, error);
+    }
+  }
+
+  return best ? toTrailer(best) : null;
+};
+
+// Parse a YouTube or Vimeo link. Search embeds (listType=search) are not a
+// video and are rejected.
+export const trailerFromUrl = (url: string): Pick<Trailer, "provider" | "videoId"> | null => {
+  if (!url || url.includes("listType=search")) return null;
+
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
+  if (youtube) return { provider: "youtube", videoId: youtube[1] };
+
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo) return { provider: "vimeo", videoId: vimeo[1] };
+
+  return null;
+};
+
+// A trailer a curator picked by hand needs no review
+export const manualTrailer = (url: string, reviewedBy: string): Trailer | null => {
+  const video = trailerFromUrl(url);
+  if (!video) return null;
+  const now = Date.now();
+  return {
+    ...video,
+    kind: "trailer",
+    resolver: "manual",
+    confidence: 1,
+    status: "approved",
+    resolvedAt: now,
+    reviewedBy,
+    reviewedAt: now,
+  };
+};
+
+// Movies saved before trailers were structured hold a URL string
+export const isStructuredTrailer = (trailer: any): trailer is Trailer =>
+  !!trailer && typeof trailer === "object" && !!trailer.videoId;
+
+// A title as `viewer` may see it: pending trailers are unconfirmed guesses,
+// so they're left out for everyone but curators
+export const withVisibleTrailer = (movie: any, viewer: any) => {
+  if (!isStructuredTrailer(movie.trailer) || movie.trailer.status !== "pending" || hasRole(viewer, "curator")) {
+    return movie;
+  }
+  const { trailer: _, ...rest } = movie;
+  return rest;
+};
+
+// Convert a legacy URL trailer. Links to a real video are kept as approved
+// manual trailers; search embeds are dropped so the title gets resolved again.
+export const migrateTrailer = (movie: any) => {
+  if (typeof movie.trailer !== "string") return movie;
+  const video = trailerFromUrl(movie.trailer);
+  const { trailer: _, ...rest } = movie;
+  if (!video) return rest;
+  const trailer: Trailer = {
+    ...video,
+    kind: "trailer",
+    resolver: "manual",
+    confidence: 1,
+    status: "approved",
+    resolvedAt: Date.now(),
+  };
+  return { ...rest, trailer };
+};
@@ -0,0 +1,96 @@
+// Videos attached to a title: trailers, teasers, clips and featurettes, each
+// stored under video:<movieId>:<id> and shown in the order curators give them.
+// The primary trailer found by the resolvers stays on movie.trailer.
+import type { Video, VideoKind } from "../_shared/api.ts";
+import * as kv from "./kv_store.tsx";
+import { trailerFromUrl } from "./trailers.tsx";
+
+// Fields as checked by the route schemas. An empty language clears it.
+export interface VideoInput {
+  url?: string;
+  type?: VideoKind;
+  language?: string;
+  title?: string;
+}
+
+const videoKey = (movieId: number | string, id: string) => `video:${movieId}:${id}`;
+
+export const listVideos = async (movieId: number | string): Promise<Video[]> => {
+  const videos: Video[] = await kv.getByPrefix(`video:${movieId}:`);
+  return videos.sort((a, b) => a.order - b.order || (a.addedAt ?? 0) - (b.addedAt ?? 0));
+};
+
+export const addVideo = async (
+  movieId: number,
+  input: VideoInput,
+  addedBy: string,
+): Promise<{ video?: Video; error?: string }> => {
+  const video = trailerFromUrl(input.url || "");
+  if (!video) return { error: "Enter a YouTube or Vimeo video link" };
+
+  const existing = await listVideos(movieId);
+  if (existing.some((v) => v.provider === video.provider && v.videoId === video.videoId)) {
+    return { error: "This video is already attached to the title" };
+  }
+
+  const record: Video = {
+    id: crypto.randomUUID(),
+    movieId,
+    ...video,
+    type: input.type || "trailer",
+    language: input.language || undefined,
+    title: input.title?.trim() || undefined,
+    order: existing.length ? existing[existing.length - 1].order + 1 : 0,
+    addedBy,
+    addedAt: Date.now(),
+  };
+  await kv.set(videoKey(movieId, record.id), record);
+  return { video: record };
+};
+
+export const updateVideo = async (
+  movieId: number | string,
+  id: string,
+  input: VideoInput,
+): Promise<{ video?: Video }> => {
+  const video: Video | null = await kv.get(videoKey(movieId, id));
+  if (!video) return {};
+
+  const updated: Video = {
+    ...video,
+    ...(input.type !== undefined ? { type: input.type } : {}),
+    ...(input.language !== undefined ? { language: input.language || undefined } : {}),
+    ...(input.title !== undefined ? { title: input.title.trim() || undefined } : {}),
+  };
+  await kv.set(videoKey(movieId, id), updated);
+  return { video: updated };
+};
+
+export const deleteVideo = async (movieId: number | string, id: string): Promise<boolean> => {
+  if (!(await kv.get(videoKey(movieId, id)))) return false;
+  await kv.del(videoKey(movieId, id));
+  return true;
+};
+
+// Put the title's videos in the given order. Videos missing from `ids` keep
+// their relative order after the listed ones.
+export const reorderVideos = async (movieId: number | string, ids: string[]): Promise<Video[]> => {
+  const videos = await listVideos(movieId);
+  const position = (video: Video) => {
+    const index = ids.indexOf(video.id);
+    return index === -1 ? ids.length : index;
+  };
+  const ordered = [...videos]
+    .sort((a, b) => position(a) - position(b))
+    .map((video, order) => ({ ...video, order }));
+
+  if (ordered.length) {
+    await kv.mset(ordered.map((video) => videoKey(movieId, video.id)), ordered);
+  }
+  return ordered;
+};
+
+export const deleteVideosOf = async (movieId: number | string): Promise<void> => {
+  const videos = await listVideos(movieId);
+  if (videos.length) await kv.mdel(videos.map((video) => videoKey(movieId, video.id)));
+};
@@ -0,0 +1,35 @@
+// Watchlists belong to a user. Entries live under towatch:<id> like before,
+// with an ownerId filed in the "owner" index. A user can share their list
+// (user.watchlistShared) so others can browse it; only the owner and admins
+// can change it.
+import * as kv from "./kv_store.tsx";
+import { hasRole } from "./auth.tsx";
+import { findBy, putRecord } from "./indexes.tsx";
+
+export const watchlistOf = (ownerId: string): Promise<any[]> => findBy("towatch", "owner", ownerId);
+
+export const canViewWatchlist = (viewer: any, owner: any): boolean =>
+  !!owner && (owner.watchlistShared || viewer?.id === owner.id || hasRole(viewer, "admin"));
+
+export const canEditWatchlistEntry = (user: any, entry: any): boolean =>
+  !!user && !!entry && (entry.ownerId === user.id || hasRole(user, "admin"));
+
+// Whether a viewer may see a single watchlist entry, e.g. on its detail page
+export const canViewWatchlistEntry = async (viewer: any, entry: any): Promise<boolean> => {
+  if (viewer && entry.ownerId === viewer.id) return true;
+  const owner = entry.ownerId ? await kv.get(`user:id:${entry.ownerId}`) : null;
+  return canViewWatchlist(viewer, owner);
+};
+
+// Before watchlists had owners every entry was shared by everyone. Hand all
+// entries without an owner to one user, normally an admin.
+export const assignUnownedEntries = async (owner: any): Promise<number> => {
+  const entries = await kv.getByPrefix("towatch:");
+  let assigned = 0;
+  for (const entry of entries) {
+    if (entry.ownerId) continue;
+    await putRecord(`towatch:${entry.id}`, { ...entry, ownerId: owner.id });
+    assigned++;
+  }
+  return assigned;
+};